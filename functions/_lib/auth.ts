@@ -0,0 +1,32 @@
+// Bearer token checks for operator endpoints
+
+import { HttpError } from './http';
+
+/**
+ * Compares two secrets without returning early on the first differing character
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * Requires `Authorization: Bearer <token>` matching the configured secret.
+ * A missing secret disables the endpoint (503) rather than leaving it open.
+ */
+export function requireBearerToken(request: Request, token: string | undefined, secretName: string): void {
+  if (!token) {
+    console.error(`${secretName} not configured`);
+    throw new HttpError('NOT_CONFIGURED', `${secretName} is not set`);
+  }
+
+  const header = request.headers.get('Authorization') || '';
+  const provided = header.startsWith('Bearer ') ? header.slice(7) : '';
+  if (!timingSafeEqual(provided, token)) {
+    throw new HttpError('UNAUTHORIZED', 'A valid admin token is required');
+  }
+}
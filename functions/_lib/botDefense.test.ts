@@ -0,0 +1,75 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  assessSubmission,
+  challengeVerifier,
+  FakeChallengeVerifier,
+  MIN_FILL_MS,
+  readBotSignals,
+  TurnstileVerifier,
+  type ChallengeVerifier
+} from './botDefense';
+import type { Env } from './types';
+
+const NOW = Date.UTC(2026, 0, 1);
+const HUMAN = { honeypot: '', formStartedAt: NOW - 10_000 };
+
+async function assess(botCheck: unknown, verifier: ChallengeVerifier | null = null) {
+  return assessSubmission(readBotSignals(botCheck), verifier, null, NOW);
+}
+
+describe('readBotSignals', () => {
+  it('normalizes missing and malformed values', () => {
+    expect(readBotSignals(undefined)).toEqual({ honeypot: '', formStartedAt: null, challengeToken: null });
+    expect(readBotSignals({ honeypot: 1, formStartedAt: 'soon', challengeToken: '' })).toEqual({ honeypot: '', formStartedAt: null, challengeToken: null });
+    expect(readBotSignals({ formStartedAt: -5 }).formStartedAt).toBeNull();
+  });
+
+  it('keeps well-formed values', () => {
+    expect(readBotSignals({ honeypot: 'x', formStartedAt: NOW, challengeToken: 'token' })).toEqual({ honeypot: 'x', formStartedAt: NOW, challengeToken: 'token' });
+  });
+});
+
+describe('assessSubmission', () => {
+  it('passes a human fill without a verifier', async () => {
+    expect(await assess(HUMAN)).toEqual({ suspected: false });
+  });
+
+  it('flags a filled honeypot', async () => {
+    expect(await assess({ ...HUMAN, honeypot: 'http://spam.example' })).toEqual({ suspected: true, reasons: ['honeypot'] });
+  });
+
+  it('flags a form filled faster than a human can', async () => {
+    expect(await assess({ ...HUMAN, formStartedAt: NOW - MIN_FILL_MS + 1 })).toEqual({ suspected: true, reasons: ['too_fast'] });
+    expect(await assess({ ...HUMAN, formStartedAt: NOW - MIN_FILL_MS })).toEqual({ suspected: false });
+  });
+
+  it('flags a missing start time', async () => {
+    expect(await assess({ honeypot: '' })).toEqual({ suspected: true, reasons: ['missing_timestamp'] });
+  });
+
+  it('requires a valid token once a verifier is configured', async () => {
+    const verifier = new FakeChallengeVerifier();
+    expect(await assess({ ...HUMAN, challengeToken: 'pass-1' }, verifier)).toEqual({ suspected: false });
+    expect(await assess({ ...HUMAN, challengeToken: 'fail-1' }, verifier)).toEqual({ suspected: true, reasons: ['challenge_failed'] });
+    expect(await assess(HUMAN, verifier)).toEqual({ suspected: true, reasons: ['challenge_missing'] });
+  });
+
+  it('does not let the client waive the challenge', async () => {
+    expect(await assess({ ...HUMAN, challengeUnavailable: true }, new FakeChallengeVerifier())).toEqual({ suspected: true, reasons: ['challenge_missing'] });
+  });
+
+  it('does not hold a verifier outage against the submission', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const unavailable: ChallengeVerifier = { verify: () => Promise.reject(new Error('timeout')) };
+    expect(await assess({ ...HUMAN, challengeToken: 'token' }, unavailable)).toEqual({ suspected: false });
+    consoleError.mockRestore();
+  });
+});
+
+describe('challengeVerifier', () => {
+  it('picks Turnstile over the fake, and none when neither is configured', () => {
+    expect(challengeVerifier({ TURNSTILE_SECRET_KEY: 'secret', CHALLENGE_VERIFIER: 'fake' } as Env)).toBeInstanceOf(TurnstileVerifier);
+    expect(challengeVerifier({ CHALLENGE_VERIFIER: 'fake' } as Env)).toBeInstanceOf(FakeChallengeVerifier);
+    expect(challengeVerifier({} as Env)).toBeNull();
+  });
+});
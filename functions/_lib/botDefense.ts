@@ -0,0 +1,132 @@
+// Bot defense for signups: honeypot field, minimum fill time and an optional challenge token.
+// Suspected bots are not rejected (that would tell them what to change); the caller accepts
+// the submission as usual and keeps it out of the delivery pipeline.
+
+import { isRecord } from './http';
+import type { Env } from './types';
+
+/**
+ * Signals stamped by the browser form, sent as `botCheck` in the request body
+ */
+export interface BotSignals {
+  /** Value of the hidden honeypot field; humans leave it empty */
+  honeypot: string;
+  /** Epoch milliseconds when the form was first rendered */
+  formStartedAt: number | null;
+  /** Token from the challenge widget, when one is configured */
+  challengeToken: string | null;
+}
+
+export type BotReason = 'honeypot' | 'missing_timestamp' | 'too_fast' | 'challenge_missing' | 'challenge_failed';
+
+export type BotVerdict =
+  | { suspected: false }
+  | { suspected: true; reasons: BotReason[] };
+
+/**
+ * Verifies challenge tokens issued by a widget such as Turnstile
+ */
+export interface ChallengeVerifier {
+  verify(token: string, remoteIp: string | null): Promise<boolean>;
+}
+
+/** Humans take longer than this to fill in the signup form */
+export const MIN_FILL_MS = 3000;
+
+const TURNSTILE_VERIFY_URL = 'https://challenges.cloudflare.com/turnstile/v0/siteverify';
+const VERIFY_TIMEOUT_MS = 5000;
+
+/**
+ * Normalizes the `botCheck` object from the request body
+ */
+export function readBotSignals(input: unknown): BotSignals {
+  const record = isRecord(input) ? input : {};
+  const startedAt = Number(record.formStartedAt);
+  return {
+    honeypot: typeof record.honeypot === 'string' ? record.honeypot : '',
+    formStartedAt: Number.isFinite(startedAt) && startedAt > 0 ? startedAt : null,
+    challengeToken: typeof record.challengeToken === 'string' && record.challengeToken ? record.challengeToken.slice(0, 2048) : null
+  };
+}
+
+/**
+ * Cloudflare Turnstile siteverify API
+ */
+export class TurnstileVerifier implements ChallengeVerifier {
+  constructor(private readonly secretKey: string) {}
+
+  async verify(token: string, remoteIp: string | null): Promise<boolean> {
+    const form = new FormData();
+    form.append('secret', this.secretKey);
+    form.append('response', token);
+    if (remoteIp) form.append('remoteip', remoteIp);
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), VERIFY_TIMEOUT_MS);
+    try {
+      const response = await fetch(TURNSTILE_VERIFY_URL, { method: 'POST', body: form, signal: controller.signal });
+      if (!response.ok) {
+        throw new Error(`Challenge verification responded with status: ${response.status}`);
+      }
+      const result = await response.json() as { success?: boolean };
+      return result.success === true;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
+
+/**
+ * Local stand-in for the challenge service: accepts tokens starting with `pass`
+ */
+export class FakeChallengeVerifier implements ChallengeVerifier {
+  async verify(token: string): Promise<boolean> {
+    return token.startsWith('pass');
+  }
+}
+
+/**
+ * Picks the challenge verifier from env: Turnstile when `TURNSTILE_SECRET_KEY` is set,
+ * the fake when `CHALLENGE_VERIFIER=fake`, otherwise none (challenge not required)
+ */
+export function challengeVerifier(env: Env): ChallengeVerifier | null {
+  if (env.TURNSTILE_SECRET_KEY) return new TurnstileVerifier(env.TURNSTILE_SECRET_KEY);
+  if (env.CHALLENGE_VERIFIER === 'fake') return new FakeChallengeVerifier();
+  return null;
+}
+
+/**
+ * Checks the stamped signals and, when a verifier is configured, the challenge token.
+ * A verifier outage is logged and does not count against the submission.
+ */
+export async function assessSubmission(
+  signals: BotSignals,
+  verifier: ChallengeVerifier | null,
+  remoteIp: string | null,
+  now: number = Date.now()
+): Promise<BotVerdict> {
+  const reasons: BotReason[] = [];
+
+  if (signals.honeypot.trim()) reasons.push('honeypot');
+
+  if (signals.formStartedAt === null) {
+    reasons.push('missing_timestamp');
+  } else if (now - signals.formStartedAt < MIN_FILL_MS) {
+    reasons.push('too_fast');
+  }
+
+  if (verifier) {
+    if (!signals.challengeToken) {
+      // Also when the browser could not load the widget: the signup is held for review rather than lost
+      reasons.push('challenge_missing');
+    } else {
+      try {
+        if (!await verifier.verify(signals.challengeToken, remoteIp)) reasons.push('challenge_failed');
+      } catch (error) {
+        console.error('Challenge verification unavailable:', error instanceof Error ? error.message : String(error));
+      }
+    }
+  }
+
+  return reasons.length > 0 ? { suspected: true, reasons } : { suspected: false };
+}
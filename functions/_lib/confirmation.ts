@@ -0,0 +1,58 @@
+// Double opt-in: with DOUBLE_OPT_IN=true, new registrations stay pending until the subscriber
+// opens the signed link from their confirmation email (/confirm?token=...).
+
+import { queueEvent } from './delivery';
+import { currentVersion } from './eventSchemas';
+import { HttpError, json } from './http';
+import { mintLink, requireLinkClaims, type SignedLink } from './links';
+import { RegistrationIndex } from './registrations';
+import { resolveStore } from './storage';
+import type { Env, PagesContext } from './types';
+
+export function doubleOptInEnabled(env: Env): boolean {
+  return env.DOUBLE_OPT_IN === 'true';
+}
+
+/**
+ * Signed confirmation token for a new subscriber and the page link that redeems it
+ */
+export function confirmationLink(context: PagesContext, uid: string): Promise<SignedLink> {
+  return mintLink(context, 'confirm', uid);
+}
+
+export function buildConfirmationPayload(uid: string, confirmedAt: string, email: string | null): Record<string, unknown> {
+  return {
+    uid: uid,
+    action: 'confirm',
+    email,
+    confirmed_at: confirmedAt,
+
+    // Submission metadata
+    submission_timestamp: new Date().toISOString(),
+    form_version: currentVersion('confirmation')
+  };
+}
+
+/**
+ * Redeems a confirmation token: marks the subscriber confirmed and emits a `confirmation` event.
+ * Confirming twice is harmless; the second call reports `alreadyConfirmed`.
+ */
+export async function handleConfirmation(context: PagesContext, token: string): Promise<Response> {
+  const { uid } = await requireLinkClaims(context, token, 'confirm');
+  const registrations = new RegistrationIndex(resolveStore(context.env, 'SUBSCRIBERS'));
+  const record = await registrations.findByUid(uid);
+  if (!record) {
+    throw new HttpError('NOT_FOUND', 'No registration matches this confirmation link');
+  }
+
+  if (record.confirmedAt !== null) {
+    return json({ success: true, uid, alreadyConfirmed: true });
+  }
+
+  const confirmedAt = new Date().toISOString();
+  const items = await queueEvent(context, 'confirmation', buildConfirmationPayload(uid, confirmedAt, record.pendingEmail ?? null));
+  await registrations.markConfirmed(record, confirmedAt);
+
+  console.log('Subscription confirmed:', { uid, outbox_ids: items.map(item => item.id), timestamp: confirmedAt });
+  return json({ success: true, uid, alreadyConfirmed: false });
+}
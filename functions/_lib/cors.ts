@@ -0,0 +1,36 @@
+// Origin allowlist for the API functions.
+// Same-origin requests are always allowed; other origins must match an `ALLOWED_ORIGINS` entry.
+
+/**
+ * Parses `ALLOWED_ORIGINS`: comma-separated origins, where a leading `*.` in the host matches any
+ * subdomain (e.g. `https://astropal.io, https://*.astropal-io.pages.dev`). Entries without a
+ * scheme are treated as https.
+ */
+export function parseAllowedOrigins(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map(entry => entry.trim().replace(/\/+$/, '').toLowerCase())
+    .filter(Boolean)
+    .map(entry => (entry.includes('://') ? entry : `https://${entry}`));
+}
+
+function matchesPattern(origin: string, pattern: string): boolean {
+  const wildcard = pattern.indexOf('://*.');
+  if (wildcard === -1) return origin === pattern;
+
+  // `https://*.example.dev` matches `https://preview.example.dev`, not `https://example.dev`
+  const scheme = pattern.slice(0, wildcard + 3);
+  const suffix = pattern.slice(wildcard + 4);
+  if (!origin.startsWith(scheme) || !origin.endsWith(suffix)) return false;
+  const subdomain = origin.slice(scheme.length, origin.length - suffix.length);
+  return subdomain.length > 0 && /^[a-z0-9-]+(\.[a-z0-9-]+)*$/.test(subdomain);
+}
+
+/**
+ * Whether a browser request from `origin` may call the API served at `requestUrl`
+ */
+export function isOriginAllowed(origin: string, requestUrl: string, allowed: string[]): boolean {
+  const normalized = origin.toLowerCase();
+  if (normalized === new URL(requestUrl).origin) return true;
+  return allowed.some(pattern => matchesPattern(normalized, pattern));
+}
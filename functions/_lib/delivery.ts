@@ -0,0 +1,82 @@
+// Wires the outbox to the configured delivery destinations
+
+import { createAdapter, loadDestinations, routeEvent, type DestinationConfig } from './destinations';
+import { upgradePayload } from './eventSchemas';
+import { HttpError } from './http';
+import { Outbox, type Deliver, type OutboxItem } from './outbox';
+import { resolveStore } from './storage';
+import type { Env, PagesContext } from './types';
+
+/**
+ * Active signing secrets: the current one first, then the previous one while a rotation is in progress
+ */
+export function signingSecrets(env: Env): string[] {
+  return [env.WEBHOOK_SIGNING_SECRET, env.WEBHOOK_SIGNING_SECRET_PREVIOUS].filter((secret): secret is string => !!secret);
+}
+
+function readEnv(env: Env, name: string): string | undefined {
+  const value = (env as unknown as Record<string, unknown>)[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Delivers an outbox item through the adapter of its destination, upgraded to the current payload version.
+ * Items queued before destinations existed store a bare webhook URL; those go out Zapier-style.
+ */
+export function destinationDelivery(env: Env, destinations: DestinationConfig[] = loadDestinations(env)): Deliver {
+  const secrets = signingSecrets(env);
+  if (secrets.length === 0) {
+    console.warn('WEBHOOK_SIGNING_SECRET not configured, webhook payloads are sent unsigned');
+  }
+  const options = { signingSecrets: secrets, readEnv: (name: string) => readEnv(env, name) };
+
+  return (item) => {
+    const config: DestinationConfig | undefined = destinations.find(destination => destination.id === item.destination)
+      ?? (/^https?:\/\//.test(item.destination) ? { id: item.destination, type: 'zapier', url: item.destination, events: [item.event] } : undefined);
+    if (!config) {
+      return Promise.reject(new Error(`Destination ${item.destination} is no longer configured`));
+    }
+    return createAdapter(config, options).deliver({ ...item, payload: upgradePayload(item.event, item.payload) });
+  };
+}
+
+export function createOutbox(env: Env): Outbox {
+  return new Outbox(resolveStore(env, 'OUTBOX'), destinationDelivery(env));
+}
+
+/**
+ * Whether any destination takes the event, for callers with a fallback when it would go nowhere
+ */
+export function isRouted(env: Env, event: string): boolean {
+  return routeEvent(loadDestinations(env), event).length > 0;
+}
+
+/**
+ * Stores one outbox item per destination routed for the event, then delivers them after the response is sent
+ */
+export async function queueEvent(context: PagesContext, event: string, payload: Record<string, unknown>): Promise<OutboxItem[]> {
+  const destinations = routeEvent(loadDestinations(context.env), event);
+  if (destinations.length === 0) {
+    console.error(`No delivery destination configured for ${event} events`);
+    throw new HttpError('NOT_CONFIGURED', `No destination configured for ${event} events`);
+  }
+
+  const current = upgradePayload(event, payload);
+  const outbox = createOutbox(context.env);
+  const headers = { 'User-Agent': context.request.headers.get('User-Agent') || 'Astropal-Cloudflare-Function' };
+  const items = await Promise.all(destinations.map(destination => outbox.enqueue(event, destination.id, current, headers)))
+    .catch((error: unknown) => {
+      // The store is unreachable; the submission was not recorded, so the client should send it again
+      console.error('Outbox enqueue failed:', { event, error: error instanceof Error ? error.message : String(error) });
+      throw new HttpError('UPSTREAM_UNAVAILABLE', 'The submission could not be stored, please try again');
+    });
+
+  // Deliver after responding, retrying with backoff; also pick up anything left pending earlier
+  context.waitUntil(Promise.all(items.map(item => outbox.deliverWithRetry(item)))
+    .then(() => outbox.processDue())
+    .catch((error: unknown) => {
+      // Nothing awaits waitUntil; unlogged, a failing sweep would leave items pending without a trace
+      console.error('Outbox sweep failed:', { event, error: error instanceof Error ? error.message : String(error) });
+    }));
+  return items;
+}
@@ -0,0 +1,68 @@
+// Email service provider sink: keeps a mailing list in sync through a list-subscribe API.
+// Expects a JSON endpoint that accepts `{ list_id, email, status, merge_fields }` with a Bearer API key.
+// With double opt-in, registrations arrive as `pending` and the `confirmation` event subscribes them.
+
+import { postWebhook } from '../outbox';
+import type { AdapterOptions, DestinationAdapter, DestinationConfig } from './types';
+import { resolveUrl } from './webhook';
+
+type ListStatus = 'subscribed' | 'pending' | 'unsubscribed';
+
+const STATUS_BY_EVENT: Record<string, (payload: Record<string, unknown>) => ListStatus> = {
+  registration: payload => (payload.confirmation_required === true ? 'pending' : 'subscribed'),
+  confirmation: () => 'subscribed',
+  resubscribe: () => 'subscribed',
+  unsubscribe: () => 'unsubscribed'
+};
+
+function text(value: unknown): string {
+  return typeof value === 'string' ? value : '';
+}
+
+// Confirmations and resubscribes only carry the UID and address, so empty fields are left out
+// rather than clearing what the registration set
+function mergeFields(fields: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== ''));
+}
+
+export function espAdapter(config: DestinationConfig, options: AdapterOptions): DestinationAdapter {
+  return {
+    deliver: async (item) => {
+      const statusFor = STATUS_BY_EVENT[item.event];
+      if (!statusFor) {
+        // Only membership changes matter to the list; other events are accepted and dropped
+        return;
+      }
+
+      const { payload } = item;
+      const email = text(payload.email);
+      if (!email.includes('@')) {
+        // Signed-link requests and older records carry no address; retrying would not add one
+        console.warn('ESP delivery skipped without an email address:', { destination: config.id, event: item.event, uid: text(payload.uid) });
+        return;
+      }
+
+      const apiKey = config.apiKeySecret ? options.readEnv(config.apiKeySecret) : undefined;
+      if (!apiKey) {
+        throw new Error(`Destination ${config.id} has no API key configured`);
+      }
+
+      const body = JSON.stringify({
+        list_id: config.listId ?? null,
+        email,
+        status: statusFor(payload),
+        merge_fields: mergeFields({
+          UID: text(payload.uid),
+          FNAME: text(payload.preferredName),
+          TIMEZONE: text(payload.timeZone),
+          VARIANT: text(payload.variant)
+        })
+      });
+
+      await postWebhook(resolveUrl(config, options), body, {
+        'Authorization': `Bearer ${apiKey}`,
+        'Idempotency-Key': item.id
+      });
+    }
+  };
+}
@@ -0,0 +1,86 @@
+// Delivery destinations: which sinks each event type fans out to, and the adapter for each sink.
+//
+// Routing comes from the environment:
+// - The legacy Zapier secrets (VITE_PUBLIC_ZAPIER_*_URL) always route their events to a Zapier sink; the unsubscribe
+//   Zap also gets the /unsubscribe page's other requests, told apart by `action`
+// - DELIVERY_DESTINATIONS (JSON array of DestinationConfig) adds further sinks, e.g.
+//   [{ "id": "crm", "type": "webhook", "urlSecret": "CRM_WEBHOOK_URL", "events": ["registration"] }]
+// - PRIVACY_WEBHOOK_URL receives the data subject request events. Those are only routed to sinks
+//   that name them, never to `*` sinks.
+
+import type { Env } from '../types';
+import { espAdapter } from './esp';
+import { jsonlAdapter } from './jsonl';
+import type { AdapterOptions, DestinationAdapter, DestinationConfig, DestinationType } from './types';
+import { webhookAdapter, zapierAdapter } from './webhook';
+
+export type { DestinationAdapter, DestinationConfig } from './types';
+
+const DESTINATION_TYPES: DestinationType[] = ['webhook', 'zapier', 'esp', 'jsonl'];
+
+const LEGACY_ZAPIER_DESTINATIONS: { id: string; secret: keyof Env; events: string[] }[] = [
+  { id: 'zapier-registration', secret: 'VITE_PUBLIC_ZAPIER_WEBHOOK_URL', events: ['registration'] },
+  { id: 'zapier-unsubscribe', secret: 'VITE_PUBLIC_ZAPIER_UNSUBSCRIBE_URL', events: ['unsubscribe', 'unsubscribe_verification', 'pause', 'unpause', 'frequency_change'] },
+  { id: 'zapier-feedback', secret: 'VITE_PUBLIC_ZAPIER_FEEDBACK_URL', events: ['feedback'] }
+];
+
+/** Events that go to sinks naming them explicitly, not to `*` sinks */
+export const PRIVACY_EVENTS = ['privacy_verification', 'privacy_request'];
+
+const ADAPTERS: Record<DestinationType, (config: DestinationConfig, options: AdapterOptions) => DestinationAdapter> = {
+  webhook: webhookAdapter,
+  zapier: zapierAdapter,
+  esp: espAdapter,
+  jsonl: jsonlAdapter
+};
+
+function isDestinationConfig(value: unknown): value is DestinationConfig {
+  const config = value as DestinationConfig;
+  return !!config
+    && typeof config.id === 'string'
+    && DESTINATION_TYPES.includes(config.type)
+    && Array.isArray(config.events)
+    && config.events.every(event => typeof event === 'string');
+}
+
+function parseConfiguredDestinations(raw: string | undefined): DestinationConfig[] {
+  if (!raw) return [];
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (!Array.isArray(parsed)) throw new Error('expected a JSON array');
+    const valid = parsed.filter(isDestinationConfig);
+    if (valid.length !== parsed.length) {
+      console.error('DELIVERY_DESTINATIONS contains invalid entries, skipping them');
+    }
+    return valid;
+  } catch (error) {
+    console.error('DELIVERY_DESTINATIONS could not be parsed:', error instanceof Error ? error.message : error);
+    return [];
+  }
+}
+
+/**
+ * All destinations configured for this deployment
+ */
+export function loadDestinations(env: Env): DestinationConfig[] {
+  const legacy: DestinationConfig[] = LEGACY_ZAPIER_DESTINATIONS
+    .filter(({ secret }) => !!env[secret])
+    .map(({ id, secret, events }) => ({ id, type: 'zapier', urlSecret: secret, events }));
+  const privacy: DestinationConfig[] = env.PRIVACY_WEBHOOK_URL
+    ? [{ id: 'privacy-webhook', type: 'webhook', urlSecret: 'PRIVACY_WEBHOOK_URL', events: PRIVACY_EVENTS }]
+    : [];
+
+  return [...legacy, ...privacy, ...parseConfiguredDestinations(env.DELIVERY_DESTINATIONS)];
+}
+
+/**
+ * Destinations an event type fans out to
+ */
+export function routeEvent(destinations: DestinationConfig[], event: string): DestinationConfig[] {
+  const wildcard = !PRIVACY_EVENTS.includes(event);
+  return destinations.filter(destination => (wildcard && destination.events.includes('*')) || destination.events.includes(event));
+}
+
+export function createAdapter(config: DestinationConfig, options: AdapterOptions): DestinationAdapter {
+  return ADAPTERS[config.type](config, options);
+}
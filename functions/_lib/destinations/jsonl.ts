@@ -0,0 +1,27 @@
+// Development sink: appends each delivery as one JSON line to a local file.
+// Needs Node's fs (local `wrangler pages dev` with nodejs_compat, or a Node runner); not for production.
+
+import type { DestinationAdapter, DestinationConfig } from './types';
+
+interface FsPromises {
+  appendFile(path: string, data: string, encoding: 'utf8'): Promise<void>;
+}
+
+// Kept out of the static import graph so production bundles build without Node built-ins
+const FS_MODULE = 'node:fs/promises';
+
+export function jsonlAdapter(config: DestinationConfig): DestinationAdapter {
+  return {
+    deliver: async (item) => {
+      const fs = await import(/* @vite-ignore */ FS_MODULE) as FsPromises;
+      const line = JSON.stringify({
+        id: item.id,
+        event: item.event,
+        created_at: item.createdAt,
+        delivered_at: new Date().toISOString(),
+        data: item.payload
+      });
+      await fs.appendFile(config.path || '.tmp/deliveries.jsonl', line + '\n', 'utf8');
+    }
+  };
+}
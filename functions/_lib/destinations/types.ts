@@ -0,0 +1,36 @@
+// Types for the delivery destination layer
+
+import type { OutboxItem } from '../outbox';
+
+export type DestinationType = 'webhook' | 'zapier' | 'esp' | 'jsonl';
+
+/**
+ * One configured sink. Secret values (URLs with tokens, API keys) are referenced by
+ * env var name so the routing config itself can be a plain, non-secret variable.
+ */
+export interface DestinationConfig {
+  id: string;
+  type: DestinationType;
+  /** Event types routed to this sink; `*` matches every event except the privacy ones */
+  events: string[];
+  url?: string;
+  /** Name of the env var holding the URL, used when `url` is not set */
+  urlSecret?: string;
+  /** Name of the env var holding the API key (ESP sinks) */
+  apiKeySecret?: string;
+  /** Audience/list identifier (ESP sinks) */
+  listId?: string;
+  /** Output file (JSON-lines sinks) */
+  path?: string;
+}
+
+export interface DestinationAdapter {
+  deliver(item: OutboxItem): Promise<void>;
+}
+
+export interface AdapterOptions {
+  /** Webhook signing secrets, current first */
+  signingSecrets: string[];
+  /** Reads a value from the function environment */
+  readEnv(name: string): string | undefined;
+}
@@ -0,0 +1,47 @@
+// Webhook sinks: a generic JSON webhook and the Zapier-compatible flat payload
+
+import { postWebhook, type OutboxItem } from '../outbox';
+import { signWebhookPayload } from '../webhookSignature';
+import type { AdapterOptions, DestinationAdapter, DestinationConfig } from './types';
+
+async function postSigned(url: string, body: string, item: OutboxItem, secrets: string[]): Promise<void> {
+  // The outbox item ID is the event ID, so it stays stable across retries while the timestamp is fresh each time
+  const signature = secrets.length > 0
+    ? await signWebhookPayload({ body, eventId: item.id, secrets })
+    : {};
+  await postWebhook(url, body, { ...item.headers, ...signature });
+}
+
+export function resolveUrl(config: DestinationConfig, options: AdapterOptions): string {
+  const url = config.url || (config.urlSecret ? options.readEnv(config.urlSecret) : undefined);
+  if (!url) {
+    throw new Error(`Destination ${config.id} has no URL configured`);
+  }
+  return url;
+}
+
+/**
+ * Zapier catch hooks: the payload is sent as-is, keeping the flat shape existing Zaps map
+ */
+export function zapierAdapter(config: DestinationConfig, options: AdapterOptions): DestinationAdapter {
+  return {
+    deliver: (item) => postSigned(resolveUrl(config, options), JSON.stringify(item.payload), item, options.signingSecrets)
+  };
+}
+
+/**
+ * Generic webhooks (CRMs, internal services): the payload wrapped in an event envelope
+ */
+export function webhookAdapter(config: DestinationConfig, options: AdapterOptions): DestinationAdapter {
+  return {
+    deliver: (item) => {
+      const body = JSON.stringify({
+        id: item.id,
+        event: item.event,
+        created_at: item.createdAt,
+        data: item.payload
+      });
+      return postSigned(resolveUrl(config, options), body, item, options.signingSecrets);
+    }
+  };
+}
@@ -0,0 +1,30 @@
+// Schema of `confirmation` events (double opt-in)
+
+import { described, METADATA_FIELDS, NULLABLE_TEXT, TIMESTAMP } from './fields';
+import type { EventSchema, FieldSpec } from './types';
+
+const V2_1_FIELDS: Record<string, FieldSpec> = {
+  action: { type: 'string', enum: ['confirm'] },
+  confirmed_at: TIMESTAMP,
+  ...METADATA_FIELDS
+};
+
+export const confirmationSchema: EventSchema = {
+  event: 'confirmation',
+  description: 'A pending subscriber opened the link from their confirmation email',
+  versions: [
+    {
+      version: '2.1',
+      summary: 'The confirmed UID and when it was confirmed',
+      fields: V2_1_FIELDS
+    },
+    {
+      version: '2.2',
+      summary: 'Adds the confirmed address, so mailing lists can move it from pending to subscribed',
+      fields: {
+        ...V2_1_FIELDS,
+        email: described(NULLABLE_TEXT, 'Null for registrations made before the address was kept while pending')
+      }
+    }
+  ]
+};
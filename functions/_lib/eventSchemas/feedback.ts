@@ -0,0 +1,35 @@
+// Schema of `feedback` events (the /feedback page)
+
+import { described, METADATA_FIELDS, SERVICE_EMAIL, SERVICE_VISITOR_FIELDS, TAGS, TEXT, withoutPlaceholderEmail } from './fields';
+import type { EventSchema, FieldSpec } from './types';
+
+const V2_1_FIELDS: Record<string, FieldSpec> = {
+  email: described(TEXT, '"feedback-by-uid" when the subscriber came from a signed link'),
+  action: { type: 'string', enum: ['feedback'] },
+  likes_tags: TAGS,
+  dislikes_tags: TAGS,
+  like_other_comment: TEXT,
+  dislike_other_comment: TEXT,
+  likes_count: { type: 'number' },
+  dislikes_count: { type: 'number' },
+  ...SERVICE_VISITOR_FIELDS,
+  ...METADATA_FIELDS
+};
+
+export const feedbackSchema: EventSchema = {
+  event: 'feedback',
+  description: 'What a subscriber likes and dislikes about the emails',
+  versions: [
+    {
+      version: '2.1',
+      summary: 'Likes and dislikes as tags with optional comments',
+      fields: V2_1_FIELDS
+    },
+    {
+      version: '2.2',
+      summary: 'Signed links carry the stored address or null instead of a placeholder email',
+      fields: { ...V2_1_FIELDS, email: SERVICE_EMAIL },
+      upgrade: withoutPlaceholderEmail('feedback-by-uid')
+    }
+  ]
+};
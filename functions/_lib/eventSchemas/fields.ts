@@ -0,0 +1,49 @@
+// Field specs shared by the event schemas
+
+import type { FieldSpec, Payload } from './types';
+
+export const TEXT: FieldSpec = { type: 'string' };
+export const NULLABLE_TEXT: FieldSpec = { type: 'string', nullable: true };
+export const NULLABLE_NUMBER: FieldSpec = { type: 'number', nullable: true };
+export const TAGS: FieldSpec = { type: 'string[]' };
+export const TIMESTAMP: FieldSpec = { type: 'string', format: 'date-time' };
+export const OPTIONAL_URL: FieldSpec = { type: 'string', format: 'uri', optional: true };
+
+export function described(spec: FieldSpec, description: string): FieldSpec {
+  return { ...spec, description };
+}
+
+/**
+ * `email` of the service page events since they stopped carrying a placeholder for signed links
+ */
+export const SERVICE_EMAIL: FieldSpec = described(
+  NULLABLE_TEXT,
+  'The address typed on the page; for signed links the one the site has on file (only while double opt-in is pending), else null'
+);
+
+/**
+ * Upgrade to SERVICE_EMAIL: the placeholder earlier versions sent for signed links becomes null
+ */
+export function withoutPlaceholderEmail(placeholder: string): (payload: Payload) => Payload {
+  return payload => (payload.email === placeholder ? { ...payload, email: null } : payload);
+}
+
+/**
+ * Fields every event carries to say who sent it, when, and in which shape
+ */
+export const METADATA_FIELDS: Record<string, FieldSpec> = {
+  uid: described(TEXT, 'Subscriber UID (country code, format version, random digits, check digit)'),
+  submission_timestamp: TIMESTAMP,
+  form_version: described(TEXT, 'Payload schema version, see /api/schema/<event>')
+};
+
+/**
+ * Session fields the service pages (unsubscribe, feedback) forward
+ */
+export const SERVICE_VISITOR_FIELDS: Record<string, FieldSpec> = {
+  variant: TEXT,
+  ab_test_variant: TEXT,
+  session_id: NULLABLE_TEXT,
+  user_agent: NULLABLE_TEXT,
+  timezone: NULLABLE_TEXT
+};
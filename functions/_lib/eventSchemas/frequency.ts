@@ -0,0 +1,33 @@
+// Schema of `frequency_change` events (fewer emails instead of unsubscribing)
+
+import { FREQUENCY_OPTIONS } from '../../../src/utils/frequencyOffers';
+import { METADATA_FIELDS, SERVICE_EMAIL, SERVICE_VISITOR_FIELDS, TAGS, TEXT, described, withoutPlaceholderEmail } from './fields';
+import type { EventSchema, FieldSpec } from './types';
+
+const V1_0_FIELDS: Record<string, FieldSpec> = {
+  email: described(TEXT, '"unsubscribe-by-uid" when the subscriber came from a signed link'),
+  action: { type: 'string', enum: ['frequency_change'] },
+  offered_options: described(TAGS, `Options shown, in order, out of: ${FREQUENCY_OPTIONS.join(', ')}`),
+  accepted_option: { type: 'string', enum: [...FREQUENCY_OPTIONS] },
+  reasons_tags: TAGS,
+  ...SERVICE_VISITOR_FIELDS,
+  ...METADATA_FIELDS
+};
+
+export const frequencyChangeSchema: EventSchema = {
+  event: 'frequency_change',
+  description: 'A subscriber who picked "Too Frequent" or "Receiving Duplicates" on the unsubscribe page took a lighter schedule instead',
+  versions: [
+    {
+      version: '1.0',
+      summary: 'The options offered, the one accepted and the unsubscribe reasons that led to the offer',
+      fields: V1_0_FIELDS
+    },
+    {
+      version: '1.1',
+      summary: 'Signed links carry the stored address or null instead of a placeholder email',
+      fields: { ...V1_0_FIELDS, email: SERVICE_EMAIL },
+      upgrade: withoutPlaceholderEmail('unsubscribe-by-uid')
+    }
+  ]
+};
@@ -0,0 +1,114 @@
+// Versioned schemas of the outbound event payloads (what Zapier, the CRM and the other destinations receive).
+//
+// Every payload carries its version as `form_version`. Changing a payload means adding a version with an
+// `upgrade` transform from the previous one, so payloads queued by an older deploy and submissions from
+// cached bundles that lack newer fields still reach the destinations in the current shape.
+// The schemas are published as JSON Schema at /api/schema/<event>.
+
+import { confirmationSchema } from './confirmation';
+import { feedbackSchema } from './feedback';
+import { frequencyChangeSchema } from './frequency';
+import { pauseSchema, unpauseSchema } from './pause';
+import { preferencesSchema } from './preferences';
+import { privacyRequestSchema, privacyVerificationSchema } from './privacy';
+import { registrationSchema } from './registration';
+import { resubscribeSchema } from './resubscribe';
+import type { EventSchema, FieldSpec, Payload, PayloadVersion } from './types';
+import { unsubscribeSchema, unsubscribeVerificationSchema } from './unsubscribe';
+
+export type { EventSchema, Payload, PayloadVersion } from './types';
+
+const EVENT_SCHEMAS: EventSchema[] = [
+  registrationSchema,
+  unsubscribeSchema,
+  unsubscribeVerificationSchema,
+  feedbackSchema,
+  confirmationSchema,
+  preferencesSchema,
+  pauseSchema,
+  unpauseSchema,
+  frequencyChangeSchema,
+  resubscribeSchema,
+  privacyVerificationSchema,
+  privacyRequestSchema
+];
+
+const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+export function listEventSchemas(): EventSchema[] {
+  return EVENT_SCHEMAS;
+}
+
+export function findEventSchema(event: string): EventSchema | undefined {
+  return EVENT_SCHEMAS.find(schema => schema.event === event);
+}
+
+/**
+ * The version of `event` payloads the functions emit today
+ */
+export function currentVersion(event: string): string {
+  const schema = findEventSchema(event);
+  if (!schema) throw new Error(`No payload schema registered for ${event} events`);
+  return schema.versions[schema.versions.length - 1].version;
+}
+
+/**
+ * Brings a payload to the current version of its event: applies the upgrade transforms from its
+ * `form_version` on (payloads without one are taken as the oldest version), fills declared nullable
+ * fields that are missing with null, and stamps the current version. Events without a schema and
+ * versions the registry does not know are passed through unchanged.
+ */
+export function upgradePayload(event: string, payload: Payload): Payload {
+  const schema = findEventSchema(event);
+  if (!schema) return payload;
+
+  const from = typeof payload.form_version === 'string'
+    ? schema.versions.findIndex(version => version.version === payload.form_version)
+    : 0;
+  if (from === -1) {
+    console.warn('Unknown payload version passed through:', { event, form_version: payload.form_version });
+    return payload;
+  }
+
+  const upgraded = schema.versions.slice(from + 1).reduce(
+    (current, version) => (version.upgrade ? version.upgrade(current) : current),
+    payload
+  );
+  const current = schema.versions[schema.versions.length - 1];
+  const missing = Object.entries(current.fields)
+    .filter(([name, spec]) => spec.nullable && !spec.optional && upgraded[name] === undefined)
+    .map(([name]) => [name, null]);
+
+  return { ...upgraded, ...Object.fromEntries(missing), form_version: current.version };
+}
+
+function fieldJsonSchema(spec: FieldSpec): Record<string, unknown> {
+  const base: Record<string, unknown> = spec.type === 'string[]'
+    ? { type: 'array', items: { type: 'string' } }
+    : { type: spec.type };
+  if (spec.nullable) base.type = [base.type, 'null'];
+  if (spec.enum) base.enum = spec.nullable ? [...spec.enum, null] : spec.enum;
+  if (spec.format) base.format = spec.format;
+  if (spec.description) base.description = spec.description;
+  return base;
+}
+
+/**
+ * JSON Schema (draft 2020-12) for one version of an event payload. Extra properties are allowed so
+ * consumers keep working when a later version adds fields.
+ */
+export function toJsonSchema(schema: EventSchema, version: PayloadVersion, id: string): Record<string, unknown> {
+  const properties = Object.fromEntries(Object.entries(version.fields).map(([name, spec]) => [name, fieldJsonSchema(spec)]));
+  properties.form_version = { ...properties.form_version, const: version.version };
+
+  return {
+    $schema: JSON_SCHEMA_DIALECT,
+    $id: id,
+    title: `Astropal ${schema.event} event, version ${version.version}`,
+    description: `${schema.description}. ${version.summary}.`,
+    type: 'object',
+    properties,
+    required: Object.entries(version.fields).filter(([, spec]) => !spec.optional).map(([name]) => name),
+    additionalProperties: true
+  };
+}
@@ -0,0 +1,70 @@
+// Schemas of `pause` and `unpause` events (taking a break from the /unsubscribe page)
+
+import { PAUSE_DURATIONS } from '../../../src/utils/pauseSchedule';
+import {
+  METADATA_FIELDS,
+  NULLABLE_TEXT,
+  SERVICE_EMAIL,
+  SERVICE_VISITOR_FIELDS,
+  TAGS,
+  TEXT,
+  TIMESTAMP,
+  described,
+  withoutPlaceholderEmail
+} from './fields';
+import type { EventSchema, FieldSpec } from './types';
+
+const PAUSE_V1_0_FIELDS: Record<string, FieldSpec> = {
+  email: described(TEXT, '"unsubscribe-by-uid" when the subscriber came from a signed link'),
+  action: { type: 'string', enum: ['pause'] },
+  pause_duration: { type: 'string', enum: [...PAUSE_DURATIONS] },
+  resume_date: described(TEXT, 'YYYY-MM-DD in resume_timezone'),
+  resume_time: described(TEXT, 'HH:MM in resume_timezone: the subscriber\'s day start time, 07:00 when none is stored'),
+  resume_timezone: described(TEXT, 'IANA time zone of the subscriber, else of their browser, else UTC'),
+  resume_at: described(TIMESTAMP, 'The first delivery after the pause, in UTC'),
+  unpause_url: described(
+    { ...NULLABLE_TEXT, format: 'uri' },
+    'Signed link that ends the pause early; null for unknown subscribers or without TOKEN_SIGNING_SECRET'
+  ),
+  reasons_tags: described(TAGS, 'Unsubscribe reasons picked before choosing to pause'),
+  ...SERVICE_VISITOR_FIELDS,
+  ...METADATA_FIELDS
+};
+
+export const pauseSchema: EventSchema = {
+  event: 'pause',
+  description: 'A subscriber paused their emails instead of unsubscribing',
+  versions: [
+    {
+      version: '1.0',
+      summary: 'When deliveries resume, in the subscriber\'s time zone and in UTC, and the link that ends the pause early',
+      fields: PAUSE_V1_0_FIELDS
+    },
+    {
+      version: '1.1',
+      summary: 'Signed links carry the stored address or null instead of a placeholder email',
+      fields: { ...PAUSE_V1_0_FIELDS, email: SERVICE_EMAIL },
+      upgrade: withoutPlaceholderEmail('unsubscribe-by-uid')
+    }
+  ]
+};
+
+export const unpauseSchema: EventSchema = {
+  event: 'unpause',
+  description: 'A paused subscriber opened their "unpause now" link before the pause ran out',
+  versions: [
+    {
+      version: '1.0',
+      summary: 'When the pause would have ended and when it was ended instead',
+      fields: {
+        action: { type: 'string', enum: ['unpause'] },
+        paused_until: described(
+          { type: 'string', format: 'date-time', nullable: true },
+          'resume_at of the pause; null for subscribers whose pause the site has no record of'
+        ),
+        resumed_at: TIMESTAMP,
+        ...METADATA_FIELDS
+      }
+    }
+  ]
+};
@@ -0,0 +1,41 @@
+// Schema of `preferences_update` events (preference center)
+
+import { METADATA_FIELDS, SERVICE_VISITOR_FIELDS, TAGS, TEXT, described } from './fields';
+import type { EventSchema, FieldSpec, Payload } from './types';
+
+const V1_0_FIELDS: Record<string, FieldSpec> = {
+  action: { type: 'string', enum: ['preferences_update'] },
+  practices: TAGS,
+  lifeFocus: TAGS,
+  dayStartTime: described(TEXT, 'HH:MM, or empty when not set'),
+  timeZone: described(TEXT, 'IANA time zone, or empty when not set'),
+  changed_fields: described(TAGS, 'Settings that differ from the stored ones; all of them when none were stored'),
+  ...SERVICE_VISITOR_FIELDS,
+  ...METADATA_FIELDS
+};
+
+// 1.0 forms did not ask for the name
+function upgradeFrom1_0(payload: Payload): Payload {
+  return { ...payload, fullName: '' };
+}
+
+export const preferencesSchema: EventSchema = {
+  event: 'preferences_update',
+  description: 'A subscriber changed their practices, life focus areas or delivery time on the preference center',
+  versions: [
+    {
+      version: '1.0',
+      summary: 'The complete new settings, named as in registration payloads, and which of them changed',
+      fields: V1_0_FIELDS
+    },
+    {
+      version: '1.1',
+      summary: 'Adds the full name, which is required with Numerology as at signup',
+      fields: {
+        ...V1_0_FIELDS,
+        fullName: described(TEXT, 'Required when practices include Numerology; may be empty otherwise')
+      },
+      upgrade: upgradeFrom1_0
+    }
+  ]
+};
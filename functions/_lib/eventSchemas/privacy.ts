@@ -0,0 +1,66 @@
+// Schemas of the data subject request events, routed only to the privacy webhook
+
+import { PRIVACY_REQUEST_TYPES } from '../../../src/utils/privacyLifecycle';
+import { METADATA_FIELDS, NULLABLE_TEXT, TEXT, TIMESTAMP, described } from './fields';
+import type { EventSchema, FieldSpec } from './types';
+
+const REQUEST_FIELDS: Record<string, FieldSpec> = {
+  request_id: described(TEXT, 'Entry in the privacy request log, see /api/privacy/requests'),
+  request_type: { type: 'string', enum: [...PRIVACY_REQUEST_TYPES] }
+};
+
+const NULLABLE_UID = described(NULLABLE_TEXT, 'Null when the site has no record of the email; find the subscriber in the CRM instead');
+
+const VERIFICATION_V1_0_FIELDS: Record<string, FieldSpec> = {
+  email: { type: 'string', format: 'email' },
+  action: { type: 'string', enum: ['privacy_verification'] },
+  ...REQUEST_FIELDS,
+  verification_url: { type: 'string', format: 'uri' },
+  expires_at: TIMESTAMP,
+  ...METADATA_FIELDS
+};
+
+const REQUEST_V1_0_FIELDS: Record<string, FieldSpec> = {
+  action: { type: 'string', enum: ['privacy_request'] },
+  ...REQUEST_FIELDS,
+  email_hash: described(TEXT, 'SHA-256 of the normalized email, to find the subscriber in other systems'),
+  requested_at: TIMESTAMP,
+  verified_at: TIMESTAMP,
+  local_data: described({ type: 'object', nullable: true }, 'Export requests: what the site itself stores about the subscriber'),
+  local_data_erased: described({ type: 'boolean' }, 'Erase requests: the site drops its own records of the subscriber along with this event'),
+  ...METADATA_FIELDS
+};
+
+export const privacyVerificationSchema: EventSchema = {
+  event: 'privacy_verification',
+  description: 'A subscriber asked for an export or erasure of their data and has to verify it from their inbox',
+  versions: [
+    {
+      version: '1.0',
+      summary: 'The address to email and the signed link that verifies the request',
+      fields: VERIFICATION_V1_0_FIELDS
+    },
+    {
+      version: '1.1',
+      summary: 'Also sent for emails the site has no record of, with a null UID',
+      fields: { ...VERIFICATION_V1_0_FIELDS, uid: NULLABLE_UID }
+    }
+  ]
+};
+
+export const privacyRequestSchema: EventSchema = {
+  event: 'privacy_request',
+  description: 'A subscriber verified an export or erasure request, which is now ready to be carried out',
+  versions: [
+    {
+      version: '1.0',
+      summary: 'The verified request, with the data held by the site for exports',
+      fields: REQUEST_V1_0_FIELDS
+    },
+    {
+      version: '1.1',
+      summary: 'Also sent for emails the site has no record of, with a null UID and no local data',
+      fields: { ...REQUEST_V1_0_FIELDS, uid: NULLABLE_UID }
+    }
+  ]
+};
@@ -0,0 +1,117 @@
+// Schema of `registration` events (signup form submissions)
+
+import { described, METADATA_FIELDS, NULLABLE_NUMBER, NULLABLE_TEXT, OPTIONAL_URL, TAGS, TEXT } from './fields';
+import type { EventSchema, FieldSpec, Payload } from './types';
+
+const FORM_FIELDS: Record<string, FieldSpec> = {
+  email: { type: 'string', format: 'email' },
+  fullName: TEXT,
+  preferredName: TEXT,
+  birthDate: described(TEXT, 'YYYY-MM-DD'),
+  birthLocation: described(TEXT, 'Birth location as typed or picked'),
+  timeZone: described(TEXT, 'IANA time zone for deliveries'),
+  dayStartTime: described(TEXT, 'HH:MM, or empty'),
+  birthTime: described(TEXT, 'HH:MM, "unknown", or empty'),
+  relationshipStatus: TEXT,
+  practices: TAGS,
+  lifeFocus: TAGS
+};
+
+const TRACKING_FIELDS: Record<string, FieldSpec> = {
+  variant: TEXT,
+  ab_test_variant: TEXT,
+  tagline_variant: NULLABLE_TEXT,
+  utm_source: NULLABLE_TEXT,
+  utm_medium: NULLABLE_TEXT,
+  utm_campaign: NULLABLE_TEXT,
+  utm_term: NULLABLE_TEXT,
+  utm_content: NULLABLE_TEXT,
+  fbclid: NULLABLE_TEXT,
+  ttclid: NULLABLE_TEXT,
+  gclid: NULLABLE_TEXT,
+  page_url: NULLABLE_TEXT,
+  page_title: NULLABLE_TEXT,
+  referrer: NULLABLE_TEXT,
+  user_agent: NULLABLE_TEXT,
+  language: NULLABLE_TEXT,
+  screen_resolution: NULLABLE_TEXT,
+  viewport_size: NULLABLE_TEXT,
+  session_id: NULLABLE_TEXT,
+  timezone: described(NULLABLE_TEXT, 'Browser time zone'),
+  visitor_data: described({ type: 'object' }, 'Everything the browser reported, for analysis')
+};
+
+const BIRTH_PLACE_FIELDS: Record<string, FieldSpec> = {
+  birthPlaceId: described(NULLABLE_TEXT, 'Gazetteer place id when a suggestion was picked'),
+  birthLatitude: NULLABLE_NUMBER,
+  birthLongitude: NULLABLE_NUMBER,
+  birthTimezone: described(NULLABLE_TEXT, 'IANA time zone of the birth place')
+};
+
+const GEO_FIELDS: Record<string, FieldSpec> = {
+  ip_address: described(NULLABLE_TEXT, 'Truncated or null for visitors from IP_PRIVACY_REGIONS'),
+  ip_privacy: { type: 'string', nullable: true, enum: ['full', 'truncated', 'omitted'], description: 'Null on payloads upgraded from 2.0' },
+  country: NULLABLE_TEXT,
+  region: NULLABLE_TEXT,
+  region_code: NULLABLE_TEXT,
+  city: NULLABLE_TEXT,
+  colo: NULLABLE_TEXT,
+  asn: NULLABLE_NUMBER,
+  as_organization: NULLABLE_TEXT
+};
+
+const LINK_FIELDS: Record<string, FieldSpec> = {
+  confirmation_required: { type: 'boolean', optional: true, description: 'Double opt-in only' },
+  confirmation_token: { type: 'string', optional: true },
+  confirmation_url: OPTIONAL_URL,
+  unsubscribe_url: OPTIONAL_URL,
+  list_unsubscribe_url: described(OPTIONAL_URL, 'RFC 8058 one-click target for the List-Unsubscribe header'),
+  feedback_url: OPTIONAL_URL
+};
+
+const V2_0_FIELDS: Record<string, FieldSpec> = { ...FORM_FIELDS, ...TRACKING_FIELDS, ...METADATA_FIELDS };
+
+// 2.0 payloads only had the location the browser reported inside visitor_data
+function upgradeFrom2_0(payload: Payload): Payload {
+  const visitorData = (payload.visitor_data ?? {}) as Payload;
+  const reported = (name: string) => (typeof visitorData[name] === 'string' ? visitorData[name] : null);
+  return {
+    ...payload,
+    birthPlaceId: null,
+    birthLatitude: null,
+    birthLongitude: null,
+    birthTimezone: null,
+    ip_address: reported('ip_address'),
+    ip_privacy: null,
+    country: reported('country'),
+    region: reported('region'),
+    region_code: null,
+    city: reported('city'),
+    colo: null,
+    asn: null,
+    as_organization: null
+  };
+}
+
+export const registrationSchema: EventSchema = {
+  event: 'registration',
+  description: 'A new signup from one of the landing page variants',
+  versions: [
+    {
+      version: '2.0',
+      summary: 'Form fields, tracking parameters and the complete visitor data',
+      fields: V2_0_FIELDS
+    },
+    {
+      version: '2.1',
+      summary: 'Adds the picked birth place, Cloudflare location data and the signed links for the welcome email',
+      fields: { ...V2_0_FIELDS, ...BIRTH_PLACE_FIELDS, ...GEO_FIELDS, ...LINK_FIELDS },
+      upgrade: upgradeFrom2_0
+    },
+    {
+      version: '2.2',
+      summary: 'Adds the signed link to the preference center',
+      fields: { ...V2_0_FIELDS, ...BIRTH_PLACE_FIELDS, ...GEO_FIELDS, ...LINK_FIELDS, preferences_url: OPTIONAL_URL }
+    }
+  ]
+};
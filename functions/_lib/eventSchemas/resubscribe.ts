@@ -0,0 +1,48 @@
+// Schema of `resubscribe` events (resubscribe links from goodbye emails, and signing up again)
+
+import { METADATA_FIELDS, NULLABLE_TEXT, OPTIONAL_URL, TIMESTAMP, described } from './fields';
+import type { EventSchema, FieldSpec, Payload } from './types';
+
+const V1_0_FIELDS: Record<string, FieldSpec> = {
+  action: { type: 'string', enum: ['resubscribe'] },
+  originally_registered_at: described(TIMESTAMP, 'When the UID first registered, to match the original record'),
+  unsubscribed_at: described(
+    { type: 'string', format: 'date-time', nullable: true },
+    'Null for subscribers who unsubscribed before the site recorded it'
+  ),
+  resubscribed_at: TIMESTAMP,
+  preferences: described(
+    { type: 'object', nullable: true },
+    'practices, lifeFocus, dayStartTime and timeZone as last saved; null for subscribers from before the preference center'
+  ),
+  preferences_url: { type: 'string', format: 'uri' },
+  ...METADATA_FIELDS
+};
+
+// 1.0 payloads only came from resubscribe links
+function upgradeFrom1_0(payload: Payload): Payload {
+  return { ...payload, source: 'link' };
+}
+
+export const resubscribeSchema: EventSchema = {
+  event: 'resubscribe',
+  description: 'A subscriber who had unsubscribed came back, under their original UID',
+  versions: [
+    {
+      version: '1.0',
+      summary: 'The restored UID with when it registered and unsubscribed, and the preferences it comes back with',
+      fields: V1_0_FIELDS
+    },
+    {
+      version: '1.1',
+      summary: 'Adds how the subscriber came back; signing up again with the same email also resubscribes',
+      fields: {
+        ...V1_0_FIELDS,
+        source: described({ type: 'string', enum: ['link', 'signup_form'] }, 'The resubscribe link, or the signup form with the same email'),
+        email: described(NULLABLE_TEXT, 'The address from the signup form; null for resubscribe links, since the site keeps only its hash'),
+        preferences_url: described(OPTIONAL_URL, 'Absent when signed links are not configured')
+      },
+      upgrade: upgradeFrom1_0
+    }
+  ]
+};
@@ -0,0 +1,35 @@
+// Types for the outbound event payload schemas
+
+export type FieldType = 'string' | 'number' | 'boolean' | 'string[]' | 'object';
+
+/**
+ * One top-level payload field. Fields are always present unless `optional`; `nullable` ones may be null.
+ */
+export interface FieldSpec {
+  type: FieldType;
+  nullable?: boolean;
+  /** Only sent in some setups, e.g. signed links once TOKEN_SIGNING_SECRET is set */
+  optional?: boolean;
+  enum?: string[];
+  format?: 'date-time' | 'email' | 'uri';
+  description?: string;
+}
+
+export type Payload = Record<string, unknown>;
+
+export interface PayloadVersion {
+  /** Sent as `form_version` */
+  version: string;
+  /** What changed from the previous version */
+  summary: string;
+  fields: Record<string, FieldSpec>;
+  /** Turns a payload of the previous version into this one */
+  upgrade?: (payload: Payload) => Payload;
+}
+
+export interface EventSchema {
+  event: string;
+  description: string;
+  /** Oldest first; the last entry is what the functions emit today */
+  versions: PayloadVersion[];
+}
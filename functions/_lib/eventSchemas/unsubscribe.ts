@@ -0,0 +1,81 @@
+// Schemas of `unsubscribe` events (the /unsubscribe page and one-click List-Unsubscribe) and of
+// `unsubscribe_verification` events (the page's requests by email alone)
+
+import {
+  described,
+  METADATA_FIELDS,
+  NULLABLE_TEXT,
+  OPTIONAL_URL,
+  SERVICE_EMAIL,
+  SERVICE_VISITOR_FIELDS,
+  TAGS,
+  TEXT,
+  withoutPlaceholderEmail
+} from './fields';
+import type { EventSchema, FieldSpec } from './types';
+
+const V2_1_FIELDS: Record<string, FieldSpec> = {
+  email: described(TEXT, '"unsubscribe-by-uid" when the subscriber came from a signed link'),
+  action: { type: 'string', enum: ['unsubscribe'] },
+  reasons_tags: TAGS,
+  other_comment: TEXT,
+  utm_source: NULLABLE_TEXT,
+  utm_medium: NULLABLE_TEXT,
+  utm_campaign: NULLABLE_TEXT,
+  reasons_count: { type: 'number' },
+  has_comment: { type: 'boolean' },
+  ...SERVICE_VISITOR_FIELDS,
+  ...METADATA_FIELDS
+};
+
+const V2_2_FIELDS: Record<string, FieldSpec> = {
+  ...V2_1_FIELDS,
+  resubscribe_url: described(OPTIONAL_URL, 'Restores the same UID and preferences; absent for subscribers the site has no record of')
+};
+
+export const unsubscribeSchema: EventSchema = {
+  event: 'unsubscribe',
+  description: 'A subscriber left the list',
+  versions: [
+    {
+      version: '2.1',
+      summary: 'Reasons as tags with an optional comment',
+      fields: V2_1_FIELDS
+    },
+    {
+      version: '2.2',
+      summary: 'Adds the signed resubscribe link for the goodbye email',
+      fields: V2_2_FIELDS
+    },
+    {
+      version: '2.3',
+      summary: 'Signed links carry the stored address or null instead of a placeholder email',
+      fields: { ...V2_2_FIELDS, email: SERVICE_EMAIL },
+      upgrade: withoutPlaceholderEmail('unsubscribe-by-uid')
+    }
+  ]
+};
+
+export const unsubscribeVerificationSchema: EventSchema = {
+  event: 'unsubscribe_verification',
+  description: 'Someone asked to unsubscribe, pause or get fewer emails by typing an email address; nothing changes until the subscriber uses the link sent to it',
+  versions: [
+    {
+      version: '1.0',
+      summary: 'The address to email and the signed unsubscribe link that makes the change',
+      fields: {
+        email: { type: 'string', format: 'email' },
+        action: { type: 'string', enum: ['unsubscribe_verification'] },
+        requested_action: { type: 'string', enum: ['unsubscribe', 'pause', 'frequency_change'] },
+        unsubscribe_url: described(
+          { ...NULLABLE_TEXT, format: 'uri' },
+          'Opens the unsubscribe page signed in; null for emails the site has no record of (mint one through /api/links)'
+        ),
+        expires_at: described({ type: 'string', format: 'date-time', nullable: true }, 'When unsubscribe_url stops working'),
+        ...SERVICE_VISITOR_FIELDS,
+        ...METADATA_FIELDS,
+        uid: described(NULLABLE_TEXT, 'Null when the site has no record of the email; find the subscriber in the CRM instead')
+      }
+    }
+  ]
+};
@@ -0,0 +1,130 @@
+// Visitor location from Cloudflare's request metadata (`request.cf`)
+// The edge sets `request.cf` on every production request; local runs without it can use CF_MOCK.
+
+import type { Env, PagesContext } from './types';
+
+/**
+ * The subset of Cloudflare's `IncomingRequestCfProperties` the functions read
+ */
+export interface CfProperties {
+  country?: string;
+  region?: string;
+  regionCode?: string;
+  city?: string;
+  colo?: string;
+  asn?: number;
+  asOrganization?: string;
+  /** `"1"` for EU member states */
+  isEUCountry?: string;
+}
+
+/**
+ * How the visitor IP is forwarded: as is, with the host part zeroed, or not at all
+ */
+export type IpPrivacy = 'full' | 'truncated' | 'omitted';
+
+export interface RequestGeo {
+  ip_address: string | null;
+  ip_privacy: IpPrivacy;
+  country: string | null;
+  region: string | null;
+  region_code: string | null;
+  city: string | null;
+  colo: string | null;
+  asn: number | null;
+  as_organization: string | null;
+}
+
+const MOCK_CF: CfProperties = {
+  country: 'US',
+  region: 'California',
+  regionCode: 'CA',
+  city: 'San Francisco',
+  colo: 'SFO',
+  asn: 13335,
+  asOrganization: 'Cloudflare, Inc.'
+};
+
+// EU/EEA plus the UK and Switzerland
+const DEFAULT_PRIVACY_REGIONS = 'EU,GB,CH,NO,IS,LI';
+
+/**
+ * `request.cf`, or the mock from CF_MOCK (`true` for a San Francisco visitor, or a JSON `CfProperties` object)
+ */
+export function readCf(request: Request, env: Env): CfProperties | null {
+  const cf = (request as Request & { cf?: CfProperties }).cf;
+  if (cf) return cf;
+  if (!env.CF_MOCK) return null;
+  if (env.CF_MOCK === 'true') return MOCK_CF;
+
+  try {
+    const mock = JSON.parse(env.CF_MOCK);
+    if (mock && typeof mock === 'object' && !Array.isArray(mock)) return mock as CfProperties;
+  } catch {
+    // Fall through to the default mock
+  }
+  console.warn('CF_MOCK is not a JSON object, using the default mock');
+  return MOCK_CF;
+}
+
+/**
+ * Parses IP_PRIVACY_REGIONS: ISO country codes, `EU` for EU member states, `US-CA` style
+ * country-region codes, or `*` for every visitor
+ */
+export function parsePrivacyRegions(value: string | undefined): string[] {
+  return (value ?? DEFAULT_PRIVACY_REGIONS)
+    .split(',')
+    .map(entry => entry.trim().toUpperCase())
+    .filter(Boolean);
+}
+
+function inPrivacyRegion(cf: CfProperties | null, regions: string[]): boolean {
+  if (regions.includes('*')) return true;
+  // Without location data we cannot tell, so treat the visitor as privacy-sensitive
+  if (!cf?.country) return regions.length > 0;
+  if (regions.includes('EU') && cf.isEUCountry === '1') return true;
+  return regions.includes(cf.country) || (!!cf.regionCode && regions.includes(`${cf.country}-${cf.regionCode}`));
+}
+
+/**
+ * Zeroes the host part: the last octet of an IPv4 address, everything after the /48 prefix of an IPv6 one
+ */
+export function truncateIp(ip: string): string {
+  const ipv4 = ip.match(/(\d{1,3}\.\d{1,3}\.\d{1,3})\.\d{1,3}$/);
+  if (ipv4) return `${ipv4[1]}.0`;
+
+  const [head, tail = ''] = ip.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const groups = ip.includes('::')
+    ? [...headGroups, ...Array(8 - headGroups.length - tailGroups.length).fill('0'), ...tailGroups]
+    : headGroups;
+  return `${groups.slice(0, 3).join(':')}::`;
+}
+
+/**
+ * Location and network of the visitor for registration payloads. In privacy regions the IP is
+ * truncated, or dropped when IP_PRIVACY_MODE is `omit`.
+ */
+export function requestGeo(context: PagesContext): RequestGeo {
+  const { request, env } = context;
+  const cf = readCf(request, env);
+  const ip = request.headers.get('CF-Connecting-IP');
+
+  let ipPrivacy: IpPrivacy = 'full';
+  if (inPrivacyRegion(cf, parsePrivacyRegions(env.IP_PRIVACY_REGIONS))) {
+    ipPrivacy = env.IP_PRIVACY_MODE === 'omit' ? 'omitted' : 'truncated';
+  }
+
+  return {
+    ip_address: !ip || ipPrivacy === 'omitted' ? null : ipPrivacy === 'truncated' ? truncateIp(ip) : ip,
+    ip_privacy: ipPrivacy,
+    country: cf?.country ?? null,
+    region: cf?.region ?? null,
+    region_code: cf?.regionCode ?? null,
+    city: cf?.city ?? null,
+    colo: cf?.colo ?? null,
+    asn: cf?.asn ?? null,
+    as_organization: cf?.asOrganization ?? null
+  };
+}
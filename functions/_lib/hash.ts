@@ -0,0 +1,16 @@
+// Hashing helpers (Web Crypto, available in Workers and modern Node)
+
+/**
+ * SHA-256 digest of a string as lowercase hex
+ */
+export async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Stable hash of an email address, so raw addresses never end up in storage keys
+ */
+export function hashEmail(email: string): Promise<string> {
+  return sha256Hex(email.trim().toLowerCase());
+}
@@ -0,0 +1,75 @@
+// Response helpers, the error type route handlers throw, and a guard for parsed request bodies
+
+import { API_ERRORS, type ApiErrorBody, type ApiErrorCode, type ApiFieldError } from '../../src/utils/apiErrors';
+
+/**
+ * A JSON object, as opposed to an array, null or a primitive
+ */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * JSON response with the given status
+ */
+export function json(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      ...headers
+    }
+  });
+}
+
+export interface HttpErrorOptions {
+  /** Rejected fields, for VALIDATION_FAILED and EMAIL_INVALID */
+  fields?: ApiFieldError[];
+  /** Extra top-level members of the error body, e.g. `retryAfterSeconds` */
+  details?: Record<string, unknown>;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Error with a stable code (see src/utils/apiErrors.ts). The API middleware turns it into a JSON
+ * response, so handlers can bail out from anywhere with `throw new HttpError(...)`.
+ */
+export class HttpError extends Error {
+  readonly status: number;
+  readonly fields?: ApiFieldError[];
+  readonly details: Record<string, unknown>;
+  readonly headers: Record<string, string>;
+
+  constructor(readonly code: ApiErrorCode, message: string, options: HttpErrorOptions = {}) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = API_ERRORS[code].status;
+    this.fields = options.fields;
+    this.details = options.details ?? {};
+    this.headers = options.headers ?? {};
+  }
+
+  get retryable(): boolean {
+    return API_ERRORS[this.code].retryable;
+  }
+
+  toResponse(requestId?: string): Response {
+    return errorResponse(this.code, this.message, this, requestId);
+  }
+}
+
+/**
+ * The error envelope for `code`; use for early returns that do not go through HttpError
+ */
+export function errorResponse(code: ApiErrorCode, message: string, options: HttpErrorOptions = {}, requestId?: string): Response {
+  const body: ApiErrorBody = {
+    error: API_ERRORS[code].title,
+    code,
+    message,
+    retryable: API_ERRORS[code].retryable,
+    ...(options.fields ? { fields: options.fields } : {}),
+    ...options.details,
+    ...(requestId ? { requestId } : {})
+  };
+  return json(body, API_ERRORS[code].status, options.headers);
+}
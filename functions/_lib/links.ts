@@ -0,0 +1,69 @@
+// Signed subscriber links: each action has its own page and lifetime.
+// Emails only ever carry these tokens; the pages exchange them for the UID server-side.
+
+import { MAX_PAUSE_DAYS } from '../../src/utils/pauseSchedule';
+import { HttpError } from './http';
+import { signToken, tokenSecret, verifyToken, type TokenAction, type TokenClaims } from './tokens';
+import type { PagesContext } from './types';
+
+export const LINK_TTL_SECONDS: Record<TokenAction, number> = {
+  confirm: 7 * 24 * 60 * 60,
+  unsubscribe: 90 * 24 * 60 * 60,
+  feedback: 90 * 24 * 60 * 60,
+  preferences: 90 * 24 * 60 * 60,
+  privacy: 24 * 60 * 60,
+  // Usable for as long as the longest pause
+  unpause: MAX_PAUSE_DAYS * 24 * 60 * 60,
+  resubscribe: 365 * 24 * 60 * 60
+};
+
+const LINK_PATHS: Record<TokenAction, string> = {
+  confirm: '/confirm',
+  unsubscribe: '/unsubscribe',
+  feedback: '/feedback',
+  preferences: '/preferences',
+  privacy: '/privacy/request',
+  unpause: '/unpause',
+  resubscribe: '/resubscribe'
+};
+
+export interface SignedLink {
+  token: string;
+  url: string;
+  expiresAt: string;
+  /** Unsubscribe links only: RFC 8058 target for the `List-Unsubscribe` header (POST `List-Unsubscribe=One-Click`) */
+  oneClickUrl?: string;
+}
+
+const ONE_CLICK_PATH = '/api/list-unsubscribe';
+
+/**
+ * Mints a signed link for `action` on the site that served the request, optionally bound to one record (`ref`)
+ */
+export async function mintLink(context: PagesContext, action: TokenAction, uid: string, ref?: string): Promise<SignedLink> {
+  const now = Date.now();
+  const token = await signToken(tokenSecret(context.env), action, uid, LINK_TTL_SECONDS[action], now, ref);
+  const url = new URL(LINK_PATHS[action], context.request.url);
+  url.searchParams.set('token', token);
+  const link: SignedLink = { token, url: url.toString(), expiresAt: new Date(now + LINK_TTL_SECONDS[action] * 1000).toISOString() };
+
+  if (action === 'unsubscribe') {
+    const oneClick = new URL(ONE_CLICK_PATH, context.request.url);
+    oneClick.searchParams.set('token', token);
+    link.oneClickUrl = oneClick.toString();
+  }
+  return link;
+}
+
+/**
+ * Verifies a link token for `action`, rejecting bad or expired tokens with a 400
+ */
+export async function requireLinkClaims(context: PagesContext, token: string, action: TokenAction): Promise<TokenClaims> {
+  const result = await verifyToken(tokenSecret(context.env), token, action);
+  if (!result.valid) {
+    throw new HttpError('INVALID_TOKEN', result.reason === 'expired'
+      ? 'This link has expired'
+      : 'This link is not valid', { details: { reason: result.reason } });
+  }
+  return result.claims;
+}
@@ -0,0 +1,269 @@
+// Durable outbox for outbound webhook deliveries.
+// Submissions are stored first and delivered afterwards, with exponential backoff
+// between attempts and a dead-letter state once retries are exhausted.
+// Items are keyed by status, so sweeps only read pending (or dead) items, a bounded page at a time.
+
+import type { KeyValueStore } from './storage';
+
+export type OutboxStatus = 'pending' | 'delivered' | 'dead';
+
+export interface OutboxItem {
+  id: string;
+  event: string;
+  destination: string;
+  payload: Record<string, unknown>;
+  headers: Record<string, string>;
+  status: OutboxStatus;
+  attempts: number;
+  createdAt: string;
+  updatedAt: string;
+  nextAttemptAt: string | null;
+  /** Attempts in flight hold a lease so concurrent sweeps skip the item */
+  leaseUntil: string | null;
+  lastError: string | null;
+}
+
+export type Deliver = (item: OutboxItem) => Promise<void>;
+
+export const MAX_ATTEMPTS = 5;
+export const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 60_000;
+const LEASE_MS = 30_000;
+const DELIVERY_TIMEOUT_MS = 10_000;
+const DELIVERED_TTL_SECONDS = 7 * 24 * 60 * 60;
+/** Pending items a sweep reads; only the due ones among them are attempted */
+const SWEEP_SCAN_LIMIT = 20;
+/** Dead letters one replay call resends */
+export const REPLAY_BATCH_LIMIT = 25;
+const KEY_PREFIXES: Record<OutboxStatus, string> = {
+  pending: 'outbox-pending:',
+  dead: 'outbox-dead:',
+  delivered: 'outbox-delivered:'
+};
+// Earlier deploys kept every item under one prefix; sweeps move those over a page at a time
+const LEGACY_KEY_PREFIX = 'outbox:';
+const LEGACY_PAGE_SIZE = 10;
+
+// Set once this isolate finds no items left under the legacy prefix
+let legacyDrained = false;
+
+/**
+ * Delay before the next attempt, doubling with each failure (1s, 2s, 4s, ...)
+ */
+export function backoffDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * POSTs a JSON body and treats any non-2xx response (or a timeout) as a failure
+ */
+export async function postWebhook(url: string, body: string, headers: Record<string, string> = {}): Promise<void> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), DELIVERY_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json',
+        ...headers
+      },
+      body,
+      signal: controller.signal
+    });
+    if (!response.ok) {
+      throw new Error(`Webhook responded with status: ${response.status}`);
+    }
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/**
+ * Default delivery: the stored payload as JSON, unsigned
+ */
+export function deliverViaFetch(item: OutboxItem): Promise<void> {
+  return postWebhook(item.destination, JSON.stringify(item.payload), item.headers);
+}
+
+export class Outbox {
+  constructor(
+    private readonly store: KeyValueStore,
+    private readonly deliver: Deliver = deliverViaFetch
+  ) {}
+
+  private key(status: OutboxStatus, id: string): string {
+    return KEY_PREFIXES[status] + id;
+  }
+
+  /**
+   * Stores the item under its status, removing the copy under the status it was stored as before
+   */
+  private async save(item: OutboxItem, storedAs?: OutboxStatus): Promise<void> {
+    await this.store.put(this.key(item.status, item.id), item, item.status === 'delivered' ? { ttlSeconds: DELIVERED_TTL_SECONDS } : undefined);
+    if (storedAs && storedAs !== item.status) await this.store.delete(this.key(storedAs, item.id));
+  }
+
+  async get(id: string): Promise<OutboxItem | null> {
+    for (const status of ['pending', 'dead', 'delivered'] as const) {
+      const item = await this.store.get<OutboxItem>(this.key(status, id));
+      if (item) return item;
+    }
+    return this.store.get<OutboxItem>(LEGACY_KEY_PREFIX + id);
+  }
+
+  /**
+   * Items with `status`, the first `limit` in key order
+   */
+  async list(status: OutboxStatus, limit?: number): Promise<OutboxItem[]> {
+    const keys = await this.store.list(KEY_PREFIXES[status], limit);
+    const items = await Promise.all(keys.map(key => this.store.get<OutboxItem>(key)));
+    return items.filter((item): item is OutboxItem => !!item);
+  }
+
+  /**
+   * Deletes the items, in any status, that `matches` picks (erasure requests). Reads every item, including
+   * those still under the legacy prefix, so it is only meant for rare calls. Returns how many were deleted.
+   */
+  async purge(matches: (item: OutboxItem) => Promise<boolean>): Promise<number> {
+    let purged = 0;
+    for (const prefix of [...Object.values(KEY_PREFIXES), LEGACY_KEY_PREFIX]) {
+      for (const key of await this.store.list(prefix)) {
+        const item = await this.store.get<OutboxItem>(key);
+        if (item && await matches(item)) {
+          await this.store.delete(key);
+          purged++;
+        }
+      }
+    }
+    return purged;
+  }
+
+  /**
+   * Moves a page of items from the legacy single prefix to their status prefix. Delivered ones are dropped.
+   */
+  private async migrateLegacy(): Promise<void> {
+    if (legacyDrained) return;
+    const keys = await this.store.list(LEGACY_KEY_PREFIX, LEGACY_PAGE_SIZE);
+    if (keys.length === 0) {
+      legacyDrained = true;
+      return;
+    }
+    for (const key of keys) {
+      const item = await this.store.get<OutboxItem>(key);
+      if (item && item.status !== 'delivered') await this.save(item);
+      await this.store.delete(key);
+    }
+  }
+
+  /**
+   * Persists a delivery before any attempt is made. Once this resolves the submission is safe.
+   */
+  async enqueue(event: string, destination: string, payload: Record<string, unknown>, headers: Record<string, string> = {}): Promise<OutboxItem> {
+    const now = new Date().toISOString();
+    const item: OutboxItem = {
+      id: crypto.randomUUID(),
+      event,
+      destination,
+      payload,
+      headers,
+      status: 'pending',
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+      nextAttemptAt: now,
+      leaseUntil: null,
+      lastError: null
+    };
+    await this.save(item);
+    return item;
+  }
+
+  /**
+   * Makes a single delivery attempt and records the outcome. `storedAs` is the status the item is stored
+   * under when that differs from `item.status` (a dead letter being replayed).
+   */
+  async attempt(item: OutboxItem, storedAs: OutboxStatus = item.status): Promise<OutboxItem> {
+    const started = Date.now();
+    let current: OutboxItem = { ...item, leaseUntil: new Date(started + LEASE_MS).toISOString() };
+    await this.save(current, storedAs);
+
+    try {
+      await this.deliver(current);
+      current = {
+        ...current,
+        status: 'delivered',
+        attempts: current.attempts + 1,
+        nextAttemptAt: null,
+        leaseUntil: null,
+        lastError: null,
+        updatedAt: new Date().toISOString()
+      };
+    } catch (error) {
+      const attempts = current.attempts + 1;
+      const exhausted = attempts >= MAX_ATTEMPTS;
+      current = {
+        ...current,
+        status: exhausted ? 'dead' : 'pending',
+        attempts,
+        nextAttemptAt: exhausted ? null : new Date(Date.now() + backoffDelay(attempts)).toISOString(),
+        leaseUntil: null,
+        lastError: error instanceof Error ? error.message : String(error),
+        updatedAt: new Date().toISOString()
+      };
+      console.error('Outbox delivery failed:', { id: current.id, event: current.event, attempts, status: current.status, error: current.lastError });
+    }
+
+    await this.save(current, 'pending');
+    return current;
+  }
+
+  /**
+   * Attempts delivery until it succeeds or the item is dead-lettered, waiting out the backoff in between.
+   * Meant to run inside `waitUntil` after the response has been sent.
+   */
+  async deliverWithRetry(item: OutboxItem): Promise<OutboxItem> {
+    let current = await this.attempt(item);
+    while (current.status === 'pending' && current.nextAttemptAt) {
+      await sleep(Math.max(0, Date.parse(current.nextAttemptAt) - Date.now()));
+      current = await this.attempt(current);
+    }
+    return current;
+  }
+
+  /**
+   * Retries pending items whose backoff has elapsed, e.g. ones left behind by an evicted isolate.
+   * Reads at most SWEEP_SCAN_LIMIT pending items and attempts at most `limit` of them.
+   */
+  async processDue(limit = 5): Promise<OutboxItem[]> {
+    await this.migrateLegacy();
+    const now = Date.now();
+    const due = (await this.list('pending', SWEEP_SCAN_LIMIT))
+      .filter(item => (!item.nextAttemptAt || Date.parse(item.nextAttemptAt) <= now) && (!item.leaseUntil || Date.parse(item.leaseUntil) <= now))
+      .slice(0, limit);
+    const results: OutboxItem[] = [];
+    for (const item of due) {
+      results.push(await this.attempt(item));
+    }
+    return results;
+  }
+
+  /**
+   * Moves dead-lettered items back to pending with a fresh retry budget and attempts them once.
+   * Replays the given ids, or the first REPLAY_BATCH_LIMIT dead items; call again for the next batch.
+   */
+  async replayDeadLetters(ids?: string[]): Promise<OutboxItem[]> {
+    await this.migrateLegacy();
+    const dead = ids
+      ? (await Promise.all(ids.slice(0, REPLAY_BATCH_LIMIT).map(id => this.store.get<OutboxItem>(this.key('dead', id)))))
+        .filter((item): item is OutboxItem => !!item)
+      : await this.list('dead', REPLAY_BATCH_LIMIT);
+    const results: OutboxItem[] = [];
+    for (const item of dead) {
+      results.push(await this.attempt({ ...item, status: 'pending', attempts: 0, nextAttemptAt: new Date().toISOString() }, 'dead'));
+    }
+    return results;
+  }
+}
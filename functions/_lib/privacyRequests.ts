@@ -0,0 +1,258 @@
+// Data subject requests (GDPR / CCPA): a subscriber asks for an export or erasure of their data on
+// /privacy/request, verifies it from the signed link emailed to them, and the verified request goes to
+// the privacy webhook. Every step is recorded in an audit log (PRIVACY_REQUESTS) that operators close
+// out through /api/privacy/requests.
+
+import {
+  canTransition,
+  type PrivacyRequestStatus,
+  type PrivacyRequestType
+} from '../../src/utils/privacyLifecycle';
+import { parsePrivacyRequest } from '../../src/utils/submissionSchema';
+import { createOutbox, queueEvent } from './delivery';
+import { loadDestinations, routeEvent } from './destinations';
+import { currentVersion } from './eventSchemas';
+import { hashEmail } from './hash';
+import { HttpError, json } from './http';
+import { mintLink, requireLinkClaims } from './links';
+import { forgetEmailLimit, limitByEmail, limitByIp } from './rateLimit';
+import { RegistrationIndex, type RegistrationRecord } from './registrations';
+import { resolveStore, type KeyValueStore } from './storage';
+import { readEnvelope, validated } from './submissions';
+import { tokenSecret } from './tokens';
+import type { Env, PagesContext } from './types';
+
+export type PrivacyActor = 'subscriber' | 'system' | 'admin';
+
+export interface PrivacyRequestEntry {
+  status: PrivacyRequestStatus;
+  at: string;
+  actor: PrivacyActor;
+  note?: string;
+}
+
+export interface PrivacyRequestRecord {
+  id: string;
+  type: PrivacyRequestType;
+  /** Null when the email is not in the SUBSCRIBERS index; operators find the subscriber in the CRM by email */
+  uid: string | null;
+  /** The email itself is not kept, so the log survives an erasure without holding personal data */
+  emailHash: string;
+  status: PrivacyRequestStatus;
+  createdAt: string;
+  updatedAt: string;
+  /** Every status the request went through, oldest first */
+  history: PrivacyRequestEntry[];
+}
+
+// Same answer whether or not the email is subscribed, so the form cannot be used to probe for subscribers
+const ACCEPTED_MESSAGE = 'A verification link is on its way to this email';
+
+/**
+ * Audit log of data subject requests. Entries never expire; closed requests are the record that a
+ * request was handled.
+ */
+export class PrivacyRequestLog {
+  constructor(private readonly store: KeyValueStore) {}
+
+  async create(type: PrivacyRequestType, uid: string | null, emailHash: string): Promise<PrivacyRequestRecord> {
+    const now = new Date().toISOString();
+    const record: PrivacyRequestRecord = {
+      id: `pr_${crypto.randomUUID()}`,
+      type,
+      uid,
+      emailHash,
+      status: 'awaiting_verification',
+      createdAt: now,
+      updatedAt: now,
+      history: [{ status: 'awaiting_verification', at: now, actor: 'subscriber' }]
+    };
+    await this.store.put(`request:${record.id}`, record);
+    return record;
+  }
+
+  async find(id: string): Promise<PrivacyRequestRecord | null> {
+    return this.store.get<PrivacyRequestRecord>(`request:${id}`);
+  }
+
+  /**
+   * Moves a request to `status`. Callers check `canTransition` first; anything else is a bug.
+   */
+  async transition(record: PrivacyRequestRecord, status: PrivacyRequestStatus, actor: PrivacyActor, note?: string): Promise<PrivacyRequestRecord> {
+    if (!canTransition(record.status, status)) {
+      throw new Error(`Privacy request ${record.id} cannot move from ${record.status} to ${status}`);
+    }
+    const at = new Date().toISOString();
+    const updated: PrivacyRequestRecord = {
+      ...record,
+      status,
+      updatedAt: at,
+      history: [...record.history, { status, at, actor, ...(note ? { note } : {}) }]
+    };
+    await this.store.put(`request:${record.id}`, updated);
+    return updated;
+  }
+
+  /**
+   * All requests, newest first, optionally only those in one status
+   */
+  async list(status?: PrivacyRequestStatus): Promise<PrivacyRequestRecord[]> {
+    const keys = await this.store.list('request:');
+    const records = await Promise.all(keys.map(key => this.store.get<PrivacyRequestRecord>(key)));
+    return records
+      .filter((record): record is PrivacyRequestRecord => !!record && (!status || record.status === status))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+}
+
+export function privacyRequestLog(env: Env): PrivacyRequestLog {
+  return new PrivacyRequestLog(resolveStore(env, 'PRIVACY_REQUESTS'));
+}
+
+/**
+ * What the /privacy/request page shows about a request
+ */
+export function requestSummary(record: PrivacyRequestRecord) {
+  return { id: record.id, type: record.type, status: record.status, createdAt: record.createdAt };
+}
+
+// Fails before any lookup, so a misconfigured deployment answers the same for every email
+function requirePrivacyDelivery(context: PagesContext): void {
+  tokenSecret(context.env);
+  if (routeEvent(loadDestinations(context.env), 'privacy_verification').length === 0) {
+    console.error('PRIVACY_WEBHOOK_URL not configured');
+    throw new HttpError('NOT_CONFIGURED', 'Privacy requests are not configured');
+  }
+}
+
+export function buildPrivacyVerificationPayload(
+  email: string,
+  record: PrivacyRequestRecord,
+  verificationUrl: string,
+  expiresAt: string
+): Record<string, unknown> {
+  return {
+    email: email,
+    uid: record.uid,
+    action: 'privacy_verification',
+    request_id: record.id,
+    request_type: record.type,
+    verification_url: verificationUrl,
+    expires_at: expiresAt,
+
+    // Submission metadata
+    submission_timestamp: new Date().toISOString(),
+    form_version: currentVersion('privacy_verification')
+  };
+}
+
+export function buildPrivacyRequestPayload(
+  record: PrivacyRequestRecord,
+  localData: RegistrationRecord | null,
+  localDataErased: boolean
+): Record<string, unknown> {
+  const verified = record.history.find(entry => entry.status === 'verified');
+  return {
+    uid: record.uid,
+    action: 'privacy_request',
+    request_id: record.id,
+    request_type: record.type,
+    email_hash: record.emailHash,
+    requested_at: record.createdAt,
+    verified_at: verified?.at ?? record.updatedAt,
+    local_data: localData,
+    local_data_erased: localDataErased,
+
+    // Submission metadata
+    submission_timestamp: new Date().toISOString(),
+    form_version: currentVersion('privacy_request')
+  };
+}
+
+/**
+ * Opens a request and emails its verification link. Emails the site has no record of (including
+ * subscribers from before the index) are handled the same way with a null UID, and get the same response.
+ */
+export async function handlePrivacyRequest(context: PagesContext): Promise<Response> {
+  const { env } = context;
+  await limitByIp(context);
+  const { email, type } = validated(parsePrivacyRequest(readEnvelope(context.data.body).formData));
+  await limitByEmail(context, email);
+  requirePrivacyDelivery(context);
+
+  const registration = await new RegistrationIndex(resolveStore(env, 'SUBSCRIBERS')).findByEmail(email);
+  const record = await privacyRequestLog(env).create(type, registration?.uid ?? null, await hashEmail(email));
+  // The link is bound to the request; the UID claim is empty when there is none
+  const link = await mintLink(context, 'privacy', record.uid ?? '', record.id);
+  const items = await queueEvent(context, 'privacy_verification', buildPrivacyVerificationPayload(email, record, link.url, link.expiresAt));
+
+  console.log('Privacy request opened:', { id: record.id, type, uid: record.uid, outbox_ids: items.map(item => item.id), timestamp: record.createdAt });
+  return json({ success: true, message: ACCEPTED_MESSAGE }, 202);
+}
+
+// The request a verification token was minted for
+async function requireTokenRequest(context: PagesContext, token: string): Promise<PrivacyRequestRecord> {
+  const claims = await requireLinkClaims(context, token, 'privacy');
+  if (!claims.ref) {
+    throw new HttpError('INVALID_TOKEN', 'This link is not valid', { details: { reason: 'invalid' } });
+  }
+  const record = await privacyRequestLog(context.env).find(claims.ref);
+  if (!record || (record.uid ?? '') !== claims.uid) {
+    throw new HttpError('NOT_FOUND', 'No privacy request matches this link');
+  }
+  return record;
+}
+
+/**
+ * Looks up the request behind a verification link without changing it, so link scanners cannot verify it
+ */
+export async function handlePrivacyLookup(context: PagesContext, token: string): Promise<Response> {
+  const record = await requireTokenRequest(context, token);
+  return json({ success: true, request: requestSummary(record) });
+}
+
+// Erasure of the site's own copies: the index entry, outbox items about the subscriber (matched by UID or
+// email hash, in any status) and their email rate limit counter. Returns the audit log note.
+async function eraseStoredData(
+  context: PagesContext,
+  record: PrivacyRequestRecord,
+  registrations: RegistrationIndex,
+  registration: RegistrationRecord | null
+): Promise<string> {
+  if (registration) await registrations.forget(registration);
+  const purged = await createOutbox(context.env).purge(async ({ payload }) =>
+    (record.uid !== null && payload.uid === record.uid)
+    || (typeof payload.email === 'string' && await hashEmail(payload.email) === record.emailHash)
+  );
+  await forgetEmailLimit(context, record.emailHash);
+  return `Deleted ${registration ? 'the subscriber record, ' : ''}${purged} outbox item(s) and the email rate limit counter`;
+}
+
+/**
+ * Verifies a request from its link and hands it to the privacy webhook: exports carry the site's own
+ * records, erasures drop them first. Verifying again is harmless; a request whose hand-off failed is
+ * sent again.
+ */
+export async function handlePrivacyVerification(context: PagesContext, token: string): Promise<Response> {
+  const { env } = context;
+  const log = privacyRequestLog(env);
+  let record = await requireTokenRequest(context, token);
+
+  if (record.status !== 'awaiting_verification' && record.status !== 'verified') {
+    return json({ success: true, request: requestSummary(record), alreadyVerified: true });
+  }
+  if (record.status === 'awaiting_verification') {
+    record = await log.transition(record, 'verified', 'subscriber');
+  }
+
+  const registrations = new RegistrationIndex(resolveStore(env, 'SUBSCRIBERS'));
+  const registration = record.uid ? await registrations.findByUid(record.uid) : null;
+  const erase = record.type === 'erase';
+  // Before queueing, since the privacy_request item itself carries the UID and email hash
+  const erased = erase ? await eraseStoredData(context, record, registrations, registration) : null;
+  const items = await queueEvent(context, 'privacy_request', buildPrivacyRequestPayload(record, erase ? null : registration, erase));
+  record = await log.transition(record, 'processing', 'system', erased ? `Sent to the privacy webhook. ${erased}` : 'Sent to the privacy webhook');
+
+  console.log('Privacy request verified:', { id: record.id, type: record.type, uid: record.uid, outbox_ids: items.map(item => item.id), timestamp: record.updatedAt });
+  return json({ success: true, request: requestSummary(record), alreadyVerified: false });
+}
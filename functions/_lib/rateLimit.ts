@@ -0,0 +1,101 @@
+// Sliding-window rate limiting for form submissions.
+// Each key keeps the timestamps of its recent hits; a hit is allowed while fewer than
+// `limit` hits fall inside the trailing window.
+
+import { hashEmail } from './hash';
+import { HttpError } from './http';
+import { resolveStore, type KeyValueStore } from './storage';
+import type { PagesContext } from './types';
+
+export interface RateLimitRule {
+  limit: number;
+  windowSeconds: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  /** Seconds until the oldest hit leaves the window; 0 when allowed */
+  retryAfterSeconds: number;
+}
+
+/** Per client IP, across all submission endpoints */
+export const IP_RULE: RateLimitRule = { limit: 10, windowSeconds: 10 * 60 };
+/** Per normalized email, for registrations */
+export const EMAIL_RULE: RateLimitRule = { limit: 3, windowSeconds: 60 * 60 };
+
+export class SlidingWindowRateLimiter {
+  constructor(
+    private readonly store: KeyValueStore,
+    private readonly rule: RateLimitRule
+  ) {}
+
+  /**
+   * Records a hit for the key unless it is already over the limit
+   */
+  async hit(key: string, now = Date.now()): Promise<RateLimitResult> {
+    const windowMs = this.rule.windowSeconds * 1000;
+    const storageKey = this.storageKey(key);
+    const hits = ((await this.store.get<number[]>(storageKey)) ?? []).filter(time => time > now - windowMs);
+
+    if (hits.length >= this.rule.limit) {
+      return {
+        allowed: false,
+        remaining: 0,
+        retryAfterSeconds: Math.max(1, Math.ceil((hits[0] + windowMs - now) / 1000))
+      };
+    }
+
+    hits.push(now);
+    await this.store.put(storageKey, hits, { ttlSeconds: this.rule.windowSeconds });
+    return { allowed: true, remaining: this.rule.limit - hits.length, retryAfterSeconds: 0 };
+  }
+
+  /**
+   * Drops the hits recorded for the key
+   */
+  async reset(key: string): Promise<void> {
+    await this.store.delete(this.storageKey(key));
+  }
+
+  private storageKey(key: string): string {
+    return `ratelimit:${key}`;
+  }
+}
+
+function rejectIfLimited(result: RateLimitResult, scope: 'ip' | 'email'): void {
+  if (!result.allowed) {
+    console.log('Rate limit exceeded:', { scope, retryAfterSeconds: result.retryAfterSeconds, timestamp: new Date().toISOString() });
+    throw new HttpError('RATE_LIMITED', 'Too many submissions, please try again later', {
+      details: { retryAfterSeconds: result.retryAfterSeconds },
+      headers: { 'Retry-After': String(result.retryAfterSeconds) }
+    });
+  }
+}
+
+function store(context: PagesContext): KeyValueStore {
+  return resolveStore(context.env, 'RATE_LIMITS');
+}
+
+/**
+ * Counts the request against its client IP (`CF-Connecting-IP`), rejecting with a 429 when over the limit
+ */
+export async function limitByIp(context: PagesContext): Promise<void> {
+  const ip = context.request.headers.get('CF-Connecting-IP') || 'unknown';
+  rejectIfLimited(await new SlidingWindowRateLimiter(store(context), IP_RULE).hit(`ip:${ip}`), 'ip');
+}
+
+/**
+ * Counts the request against a hash of the normalized email, rejecting with a 429 when over the limit
+ */
+export async function limitByEmail(context: PagesContext, email: string): Promise<void> {
+  const key = `email:${await hashEmail(email)}`;
+  rejectIfLimited(await new SlidingWindowRateLimiter(store(context), EMAIL_RULE).hit(key), 'email');
+}
+
+/**
+ * Drops the counter kept for an email hash (erasure requests). Per-IP counters hold no email.
+ */
+export async function forgetEmailLimit(context: PagesContext, emailHash: string): Promise<void> {
+  await new SlidingWindowRateLimiter(store(context), EMAIL_RULE).reset(`email:${emailHash}`);
+}
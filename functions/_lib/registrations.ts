@@ -0,0 +1,164 @@
+// Server-side record of known registrations, used for idempotency and duplicate detection.
+// Emails are stored hashed; only the UID they were registered under is kept. The address itself is kept
+// only while a double opt-in confirmation is pending, for the `confirmation` event.
+
+import type { PreferencesData } from '../../src/utils/submissionSchema';
+import { hashEmail } from './hash';
+import type { KeyValueStore } from './storage';
+
+export interface RegistrationRecord {
+  uid: string;
+  createdAt: string;
+  /** Null while a double opt-in confirmation is pending; absent on records from before double opt-in */
+  confirmedAt?: string | null;
+  emailHash?: string;
+  /** The address, while `confirmedAt` is null; dropped on confirmation */
+  pendingEmail?: string;
+  /** Latest settings from signup or the preference center; absent on records from before the preference center */
+  preferences?: PreferencesData;
+  /** Deliveries are paused until this instant; null or in the past when they are not */
+  pausedUntil?: string | null;
+  /** Null while subscribed; absent on records from before resubscribe links, whose status is unknown */
+  unsubscribedAt?: string | null;
+}
+
+export interface SuspectedBotRecord {
+  uid: string;
+  reasons: string[];
+  createdAt: string;
+  /** Registration payload as it would have been forwarded, with the email replaced by its hash */
+  payload: Record<string, unknown>;
+}
+
+export interface RegistrationOutcome {
+  uid: string;
+  duplicate: boolean;
+  /** Double opt-in: the subscriber still has to click the link in the confirmation email */
+  confirmationRequired?: boolean;
+}
+
+/**
+ * The address to put in a signed request's payload. The index only keeps one while double opt-in is
+ * pending; otherwise it is null and the destinations match the subscriber by UID.
+ */
+export function storedEmail(record: RegistrationRecord | null): string | null {
+  return record?.pendingEmail ?? null;
+}
+
+const IDEMPOTENCY_TTL_SECONDS = 24 * 60 * 60;
+const SUSPECTED_BOT_TTL_SECONDS = 30 * 24 * 60 * 60;
+const IDEMPOTENCY_KEY_PATTERN = /^[A-Za-z0-9_-]{8,128}$/;
+
+/**
+ * Reads the client-generated idempotency key from the `Idempotency-Key` header or the request body
+ */
+export function readIdempotencyKey(request: Request, body: { idempotencyKey?: unknown }): string | null {
+  const key = request.headers.get('Idempotency-Key') ?? body.idempotencyKey;
+  return typeof key === 'string' && IDEMPOTENCY_KEY_PATTERN.test(key) ? key : null;
+}
+
+export class RegistrationIndex {
+  constructor(private readonly store: KeyValueStore) {}
+
+  /**
+   * Outcome previously returned for this idempotency key, if the request is a retry
+   */
+  async findByIdempotencyKey(key: string): Promise<RegistrationOutcome | null> {
+    return this.store.get<RegistrationOutcome>(`idem:${key}`);
+  }
+
+  async findByEmail(email: string): Promise<RegistrationRecord | null> {
+    return this.store.get<RegistrationRecord>(`email:${await hashEmail(email)}`);
+  }
+
+  async findByUid(uid: string): Promise<RegistrationRecord | null> {
+    return this.store.get<RegistrationRecord>(`uid:${uid}`);
+  }
+
+  /**
+   * Indexes a new registration by email hash and by UID. Unconfirmed registrations
+   * (double opt-in) are stored with `confirmedAt: null` and the address until they confirm.
+   */
+  async rememberEmail(email: string, uid: string, confirmed = true, preferences?: PreferencesData): Promise<void> {
+    const createdAt = new Date().toISOString();
+    const emailHash = await hashEmail(email);
+    const record: RegistrationRecord = {
+      uid,
+      createdAt,
+      confirmedAt: confirmed ? createdAt : null,
+      emailHash,
+      ...(confirmed ? {} : { pendingEmail: email }),
+      preferences,
+      unsubscribedAt: null
+    };
+    await this.save(record);
+  }
+
+  async markConfirmed(record: RegistrationRecord, confirmedAt: string = new Date().toISOString()): Promise<RegistrationRecord> {
+    const confirmed: RegistrationRecord = { ...record, confirmedAt, pendingEmail: undefined };
+    await this.save(confirmed);
+    return confirmed;
+  }
+
+  /**
+   * Keeps the address of a pending record from before addresses were kept, once it signs up again
+   */
+  async savePendingEmail(record: RegistrationRecord, email: string): Promise<RegistrationRecord> {
+    const updated: RegistrationRecord = { ...record, pendingEmail: email };
+    await this.save(updated);
+    return updated;
+  }
+
+  async savePreferences(record: RegistrationRecord, preferences: PreferencesData): Promise<RegistrationRecord> {
+    const updated: RegistrationRecord = { ...record, preferences };
+    await this.save(updated);
+    return updated;
+  }
+
+  async savePause(record: RegistrationRecord, pausedUntil: string | null): Promise<RegistrationRecord> {
+    const updated: RegistrationRecord = { ...record, pausedUntil };
+    await this.save(updated);
+    return updated;
+  }
+
+  /**
+   * Records an unsubscribe (null: subscribed again). The record is kept so a resubscribe link can restore it.
+   */
+  async saveUnsubscribed(record: RegistrationRecord, unsubscribedAt: string | null): Promise<RegistrationRecord> {
+    const updated: RegistrationRecord = { ...record, unsubscribedAt };
+    await this.save(updated);
+    return updated;
+  }
+
+  private async save(record: RegistrationRecord): Promise<void> {
+    await this.store.put(`uid:${record.uid}`, record);
+    if (record.emailHash) await this.store.put(`email:${record.emailHash}`, record);
+  }
+
+  /**
+   * Drops a subscriber from the index (erasure requests). Idempotency entries expire on their own.
+   */
+  async forget(record: RegistrationRecord): Promise<void> {
+    await this.store.delete(`uid:${record.uid}`);
+    if (record.emailHash) await this.store.delete(`email:${record.emailHash}`);
+  }
+
+  async rememberOutcome(key: string, outcome: RegistrationOutcome): Promise<void> {
+    await this.store.put(`idem:${key}`, outcome, { ttlSeconds: IDEMPOTENCY_TTL_SECONDS });
+  }
+
+  /**
+   * Keeps a suspected bot signup for review. Its email is not indexed, so a real
+   * signup with the same address later is not treated as a duplicate.
+   */
+  async rememberSuspectedBot(uid: string, reasons: string[], payload: Record<string, unknown>): Promise<void> {
+    const { email, ...rest } = payload;
+    const record: SuspectedBotRecord = {
+      uid,
+      reasons,
+      createdAt: new Date().toISOString(),
+      payload: { ...rest, email_hash: typeof email === 'string' ? await hashEmail(email) : null }
+    };
+    await this.store.put(`bot:${uid}`, record, { ttlSeconds: SUSPECTED_BOT_TTL_SECONDS });
+  }
+}
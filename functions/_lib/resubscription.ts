@@ -0,0 +1,103 @@
+// Coming back after unsubscribing: the unsubscribe keeps the subscriber's record, and the signed link
+// from the goodbye email (/resubscribe?token=...) restores the same UID and preferences in one click.
+// Signing up again through the form restores the same UID too (see handleRegistration).
+
+import type { PreferencesData } from '../../src/utils/submissionSchema';
+import { queueEvent } from './delivery';
+import { currentVersion } from './eventSchemas';
+import { HttpError, json } from './http';
+import { mintLink, requireLinkClaims, type SignedLink } from './links';
+import { RegistrationIndex, type RegistrationRecord } from './registrations';
+import { resolveStore } from './storage';
+import type { PagesContext } from './types';
+
+/** How the subscriber came back: the signed link, or the signup form with the same email */
+export type ResubscribeSource = 'link' | 'signup_form';
+
+/**
+ * Resubscribe link for the goodbye email. Null when the subscriber is not in the index, since there would
+ * be nothing to restore, or when links are not configured.
+ */
+export async function resubscribeLink(context: PagesContext, record: RegistrationRecord | null): Promise<SignedLink | null> {
+  return record && context.env.TOKEN_SIGNING_SECRET ? mintLink(context, 'resubscribe', record.uid) : null;
+}
+
+export function buildResubscribePayload(
+  record: RegistrationRecord,
+  resubscribedAt: string,
+  source: ResubscribeSource,
+  email: string | null,
+  preferencesUrl: string | null
+): Record<string, unknown> {
+  return {
+    uid: record.uid,
+    action: 'resubscribe',
+    source,
+    email,
+    originally_registered_at: record.createdAt,
+    unsubscribed_at: record.unsubscribedAt ?? null,
+    resubscribed_at: resubscribedAt,
+    preferences: record.preferences ?? null,
+    ...(preferencesUrl ? { preferences_url: preferencesUrl } : {}),
+
+    // Submission metadata
+    submission_timestamp: new Date().toISOString(),
+    form_version: currentVersion('resubscribe')
+  };
+}
+
+/**
+ * Clears the unsubscribe on `record` and emits a `resubscribe` event under its original UID. A signup form
+ * resubscribe brings the address and preferences it was submitted with.
+ */
+export async function resubscribe(
+  context: PagesContext,
+  registrations: RegistrationIndex,
+  record: RegistrationRecord,
+  source: ResubscribeSource,
+  submitted?: { email: string; preferences: PreferencesData }
+): Promise<RegistrationRecord> {
+  const resubscribedAt = new Date().toISOString();
+  const restored: RegistrationRecord = submitted ? { ...record, preferences: submitted.preferences } : record;
+  const preferencesLink = context.env.TOKEN_SIGNING_SECRET ? await mintLink(context, 'preferences', record.uid) : null;
+  const items = await queueEvent(context, 'resubscribe', buildResubscribePayload(restored, resubscribedAt, source, submitted?.email ?? null, preferencesLink?.url ?? null));
+  const updated = await registrations.saveUnsubscribed(restored, null);
+
+  console.log('Subscriber resubscribed:', { uid: record.uid, source, outbox_ids: items.map(item => item.id), timestamp: resubscribedAt });
+  return updated;
+}
+
+// The subscriber a resubscribe link was minted for
+async function requireResubscribeRecord(context: PagesContext, token: string): Promise<{ registrations: RegistrationIndex; record: RegistrationRecord }> {
+  const { uid } = await requireLinkClaims(context, token, 'resubscribe');
+  const registrations = new RegistrationIndex(resolveStore(context.env, 'SUBSCRIBERS'));
+  const record = await registrations.findByUid(uid);
+  if (!record) {
+    throw new HttpError('NOT_FOUND', 'No subscription matches this link');
+  }
+  return { registrations, record };
+}
+
+/**
+ * What the /resubscribe page shows before the subscriber clicks; link scanners cannot resubscribe anyone
+ */
+export async function handleResubscribeLookup(context: PagesContext, token: string): Promise<Response> {
+  const { record } = await requireResubscribeRecord(context, token);
+  return json({ success: true, uid: record.uid, subscribed: record.unsubscribedAt === null, preferences: record.preferences ?? null });
+}
+
+/**
+ * Restores an unsubscribed subscriber under their original UID and emits a `resubscribe` event.
+ * Resubscribing while subscribed is harmless and reports `alreadySubscribed`.
+ */
+export async function handleResubscribe(context: PagesContext, token: string): Promise<Response> {
+  const { registrations, record } = await requireResubscribeRecord(context, token);
+
+  // Records from before resubscribe links do not know whether they unsubscribed, so those are always forwarded
+  if (record.unsubscribedAt === null) {
+    return json({ success: true, uid: record.uid, alreadySubscribed: true });
+  }
+
+  await resubscribe(context, registrations, record, 'link');
+  return json({ success: true, uid: record.uid, alreadySubscribed: false });
+}
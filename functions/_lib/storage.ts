@@ -0,0 +1,132 @@
+// Key-value storage used by the Pages Functions.
+// Backed by a Workers KV binding in production and by an in-memory map for local runs (MEMORY_STORAGE=true).
+
+import { HttpError } from './http';
+import type { Env } from './types';
+
+/**
+ * Minimal subset of the Workers KV namespace API that the functions rely on
+ */
+export interface KVNamespaceLike {
+  get(key: string, type: 'text'): Promise<string | null>;
+  put(key: string, value: string, options?: { expirationTtl?: number }): Promise<void>;
+  delete(key: string): Promise<void>;
+  list(options: { prefix?: string; cursor?: string; limit?: number }): Promise<{
+    keys: { name: string }[];
+    list_complete: boolean;
+    cursor?: string;
+  }>;
+}
+
+export interface PutOptions {
+  /** Seconds until the entry expires */
+  ttlSeconds?: number;
+}
+
+export interface KeyValueStore {
+  get<T>(key: string): Promise<T | null>;
+  put<T>(key: string, value: T, options?: PutOptions): Promise<void>;
+  delete(key: string): Promise<void>;
+  /** Keys under `prefix` in key order, all of them or the first `limit` */
+  list(prefix: string, limit?: number): Promise<string[]>;
+}
+
+/**
+ * JSON store on top of a KV namespace binding
+ */
+export class KVStore implements KeyValueStore {
+  constructor(private readonly namespace: KVNamespaceLike) {}
+
+  async get<T>(key: string): Promise<T | null> {
+    const raw = await this.namespace.get(key, 'text');
+    if (raw === null) return null;
+    try {
+      return JSON.parse(raw) as T;
+    } catch {
+      return null;
+    }
+  }
+
+  async put<T>(key: string, value: T, options: PutOptions = {}): Promise<void> {
+    // KV rejects TTLs below 60 seconds
+    const expirationTtl = options.ttlSeconds ? Math.max(60, Math.ceil(options.ttlSeconds)) : undefined;
+    await this.namespace.put(key, JSON.stringify(value), expirationTtl ? { expirationTtl } : undefined);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.namespace.delete(key);
+  }
+
+  async list(prefix: string, limit?: number): Promise<string[]> {
+    const names: string[] = [];
+    let cursor: string | undefined;
+    do {
+      // KV returns at most 1000 keys per page
+      const page = await this.namespace.list({ prefix, cursor, limit: limit ? Math.min(limit - names.length, 1000) : undefined });
+      names.push(...page.keys.map(key => key.name));
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor && (!limit || names.length < limit));
+    return names;
+  }
+}
+
+/**
+ * In-memory stand-in for local development. Data lives as long as the isolate does.
+ */
+export class MemoryStore implements KeyValueStore {
+  private readonly entries = new Map<string, { value: string; expiresAt: number | null }>();
+
+  async get<T>(key: string): Promise<T | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    return JSON.parse(entry.value) as T;
+  }
+
+  async put<T>(key: string, value: T, options: PutOptions = {}): Promise<void> {
+    const expiresAt = options.ttlSeconds ? Date.now() + options.ttlSeconds * 1000 : null;
+    this.entries.set(key, { value: JSON.stringify(value), expiresAt });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async list(prefix: string, limit?: number): Promise<string[]> {
+    const now = Date.now();
+    const keys = Array.from(this.entries.entries())
+      .filter(([key, entry]) => key.startsWith(prefix) && (entry.expiresAt === null || entry.expiresAt > now))
+      .map(([key]) => key)
+      .sort();
+    return limit ? keys.slice(0, limit) : keys;
+  }
+}
+
+/** The KV namespace bindings the functions use */
+export type StoreBinding = 'OUTBOX' | 'SUBSCRIBERS' | 'RATE_LIMITS' | 'PRIVACY_REQUESTS';
+
+const memoryStores = new Map<string, MemoryStore>();
+
+/**
+ * Returns a store for the given binding. An unbound one is an error, since anything kept in memory is lost
+ * with the isolate; local runs opt into a per-isolate memory store with `MEMORY_STORAGE=true`.
+ */
+export function resolveStore(env: Env, name: StoreBinding): KeyValueStore {
+  const binding = env[name];
+  if (binding) return new KVStore(binding);
+  if (env.MEMORY_STORAGE !== 'true') {
+    console.error(`${name} KV binding not configured`);
+    throw new HttpError('NOT_CONFIGURED', `${name} KV binding is not configured`);
+  }
+
+  let store = memoryStores.get(name);
+  if (!store) {
+    console.warn(`${name} KV binding not configured, using in-memory storage`);
+    store = new MemoryStore();
+    memoryStores.set(name, store);
+  }
+  return store;
+}
@@ -0,0 +1,714 @@
+// Submission handling shared by the register, unsubscribe, pause, frequency and feedback routes
+// (and the legacy /api/submit-form shim)
+
+import { toApiFieldErrors, validationErrorCode } from '../../src/utils/apiErrors';
+import { DEFAULT_DAY_START, localDateIn, resumeDateFor, zonedTimeToUtc } from '../../src/utils/pauseSchedule';
+import { findPlace, type Place } from '../../src/utils/placeResolver';
+import { generateUID } from '../../src/utils/uidGenerator';
+import {
+  parseFeedback,
+  parseFrequencyChange,
+  parsePause,
+  parsePreferences,
+  parseRegistration,
+  parseUnsubscribe,
+  type FeedbackData,
+  type FrequencyChangeData,
+  type PauseData,
+  type PreferencesData,
+  type RegistrationData,
+  type SchemaResult,
+  type UnsubscribeData
+} from '../../src/utils/submissionSchema';
+import { assessSubmission, challengeVerifier, readBotSignals } from './botDefense';
+import { confirmationLink, doubleOptInEnabled } from './confirmation';
+import { isRouted, queueEvent } from './delivery';
+import { currentVersion } from './eventSchemas';
+import { requestGeo, type RequestGeo } from './geo';
+import { HttpError, isRecord, json } from './http';
+import { mintLink, requireLinkClaims, type SignedLink } from './links';
+import { limitByEmail, limitByIp } from './rateLimit';
+import { resubscribe, resubscribeLink } from './resubscription';
+import { RegistrationIndex, readIdempotencyKey, storedEmail, type RegistrationOutcome, type RegistrationRecord } from './registrations';
+import { resolveStore } from './storage';
+import { tokenSecret } from './tokens';
+import type { PagesContext } from './types';
+
+/**
+ * Request body posted by the site's forms
+ */
+export interface SubmissionEnvelope {
+  formData: unknown;
+  variantName: string;
+  visitorData: Record<string, unknown>;
+  idempotencyKey?: unknown;
+  /** Bot defense signals stamped by the signup forms (see botDefense.ts) */
+  botCheck?: unknown;
+}
+
+/**
+ * Normalizes the parsed request body into a submission envelope
+ */
+export function readEnvelope(body: unknown): SubmissionEnvelope {
+  const record = isRecord(body) ? body : {};
+  return {
+    formData: record.formData,
+    variantName: typeof record.variantName === 'string' ? record.variantName.slice(0, 50) : 'unknown',
+    visitorData: isRecord(record.visitorData) ? record.visitorData : {},
+    idempotencyKey: record.idempotencyKey,
+    botCheck: record.botCheck
+  };
+}
+
+/**
+ * Unwraps a schema result read from `formData`, rejecting invalid input with a 400 that lists the
+ * fields (`formData.<field>`) and why each was rejected
+ */
+export function validated<T>(result: SchemaResult<T>): T {
+  if (!result.success) {
+    const fields = toApiFieldErrors(result.errors, 'formData');
+    const message = fields.length === 1 ? fields[0].message : 'One or more fields are invalid';
+    throw new HttpError(validationErrorCode(fields), message, { fields });
+  }
+  return result.data;
+}
+
+/**
+ * Service pages identify the subscriber with a signed link token. The token's UID replaces
+ * anything the client sent as `uid`, and the form's email is then ignored; without a token the
+ * request falls back to the email.
+ */
+async function withLinkIdentity(context: PagesContext, formData: unknown, action: 'unsubscribe' | 'feedback'): Promise<unknown> {
+  if (!isRecord(formData)) return formData;
+  const { token, ...fields } = formData;
+  if (typeof token === 'string' && token) {
+    delete fields.uid;
+    return { ...fields, uid: (await requireLinkClaims(context, token, action)).uid };
+  }
+  // Pages cached from before signed links post the raw `?uid=`, which is no longer trusted
+  if (typeof fields.uid === 'string' && fields.uid) {
+    throw new HttpError('INVALID_TOKEN', 'This link is no longer valid. Use the link from a recent email, or enter your email address to get a new one', {
+      details: { reason: 'invalid' }
+    });
+  }
+  delete fields.uid;
+  return fields;
+}
+
+/**
+ * Re-reads a picked birth place from the gazetteer so the forwarded coordinates and timezone are
+ * ours, not the client's. Ids the index no longer knows are dropped and the free text is kept.
+ */
+function withGazetteerPlace(formData: RegistrationData): { formData: RegistrationData; place: Place | null } {
+  if (!formData.birthPlaceId) return { formData, place: null };
+
+  const place = findPlace(formData.birthPlaceId);
+  if (!place) {
+    console.warn('Unknown birth place id dropped:', { birthPlaceId: formData.birthPlaceId });
+    return { formData: { ...formData, birthPlaceId: null, birthLatitude: null, birthLongitude: null, birthTimezone: null }, place: null };
+  }
+  return {
+    formData: { ...formData, birthLatitude: place.latitude, birthLongitude: place.longitude, birthTimezone: place.timezone },
+    place
+  };
+}
+
+function pickPreferences({ fullName, practices, lifeFocus, dayStartTime, timeZone }: PreferencesData): PreferencesData {
+  return { fullName, practices, lifeFocus, dayStartTime, timeZone };
+}
+
+function serviceUid(action: string, uid: string | null): string {
+  // Use provided UID or generate a simple one
+  return uid || `${action.toUpperCase()}${Date.now().toString().slice(-6)}`;
+}
+
+export function buildRegistrationPayload(
+  formData: RegistrationData,
+  uid: string,
+  envelope: SubmissionEnvelope,
+  geo: RequestGeo
+): Record<string, unknown> {
+  const { variantName, visitorData } = envelope;
+  return {
+    // Form data (validated fields only)
+    ...formData,
+
+    // Variant identification
+    variant: variantName,
+    ab_test_variant: variantName,
+
+    // A/B Testing data
+    tagline_variant: visitorData.tagline_variant || null,
+
+    // UTM and tracking parameters at top level - always included
+    utm_source: visitorData.utm_source || null,
+    utm_medium: visitorData.utm_medium || null,
+    utm_campaign: visitorData.utm_campaign || null,
+    utm_term: visitorData.utm_term || null,
+    utm_content: visitorData.utm_content || null,
+
+    // Click tracking parameters at top level
+    fbclid: visitorData.fbclid || null,
+    ttclid: visitorData.ttclid || null,
+    gclid: visitorData.gclid || null,
+
+    // Page and session data at top level
+    page_url: visitorData.page_url,
+    page_title: visitorData.page_title,
+    referrer: visitorData.referrer,
+    user_agent: visitorData.user_agent,
+    language: visitorData.language,
+    screen_resolution: visitorData.screen_resolution,
+    viewport_size: visitorData.viewport_size,
+    session_id: visitorData.session_id,
+    timezone: visitorData.timezone,
+
+    // Location from Cloudflare request metadata (server-side, never from the client)
+    ...geo,
+
+    // Generated UID
+    uid: uid,
+
+    // Complete visitor data object (for backup/analysis), with the location fields filled in server-side
+    visitor_data: { ...visitorData, ip_address: geo.ip_address, country: geo.country, region: geo.region, city: geo.city },
+
+    // Submission metadata
+    submission_timestamp: new Date().toISOString(),
+    form_version: currentVersion('registration')
+  };
+}
+
+export function buildUnsubscribePayload(formData: UnsubscribeData, uid: string, envelope: SubmissionEnvelope): Record<string, unknown> {
+  const { variantName, visitorData } = envelope;
+  return {
+    // Basic form data
+    email: formData.email,
+    uid: uid,
+    action: 'unsubscribe',
+
+    // Unsubscribe-specific data
+    reasons_tags: formData.reasons,
+    other_comment: formData.otherComment,
+
+    // UTM tracking data
+    utm_source: formData.utm_source || visitorData.utm_source || null,
+    utm_medium: formData.utm_medium || visitorData.utm_medium || null,
+    utm_campaign: formData.utm_campaign || visitorData.utm_campaign || null,
+
+    // Metadata
+    reasons_count: formData.reasons.length,
+    has_comment: !!(formData.otherComment),
+
+    // Variant identification
+    variant: variantName,
+    ab_test_variant: variantName,
+
+    // Submission metadata
+    submission_timestamp: new Date().toISOString(),
+    form_version: currentVersion('unsubscribe'),
+
+    // Visitor data (minimal for service pages)
+    session_id: visitorData.session_id || null,
+    user_agent: visitorData.user_agent || null,
+    timezone: visitorData.timezone || null
+  };
+}
+
+export type UnsubscribeRequestAction = 'unsubscribe' | 'pause' | 'frequency_change';
+
+export function buildUnsubscribeVerificationPayload(
+  email: string,
+  uid: string | null,
+  requestedAction: UnsubscribeRequestAction,
+  link: SignedLink | null,
+  envelope: SubmissionEnvelope
+): Record<string, unknown> {
+  const { variantName, visitorData } = envelope;
+  return {
+    email: email,
+    uid: uid,
+    action: 'unsubscribe_verification',
+    requested_action: requestedAction,
+    unsubscribe_url: link?.url ?? null,
+    expires_at: link?.expiresAt ?? null,
+
+    // Variant identification
+    variant: variantName,
+    ab_test_variant: variantName,
+
+    // Submission metadata
+    submission_timestamp: new Date().toISOString(),
+    form_version: currentVersion('unsubscribe_verification'),
+
+    // Visitor data (minimal for service pages)
+    session_id: visitorData.session_id || null,
+    user_agent: visitorData.user_agent || null,
+    timezone: visitorData.timezone || null
+  };
+}
+
+export function buildFrequencyChangePayload(formData: FrequencyChangeData, uid: string, envelope: SubmissionEnvelope): Record<string, unknown> {
+  const { variantName, visitorData } = envelope;
+  return {
+    // Basic form data
+    email: formData.email,
+    uid: uid,
+    action: 'frequency_change',
+
+    // Offer data: everything the page offered and what the subscriber took instead of leaving
+    offered_options: formData.offered,
+    accepted_option: formData.frequency,
+    reasons_tags: formData.reasons,
+
+    // Variant identification
+    variant: variantName,
+    ab_test_variant: variantName,
+
+    // Submission metadata
+    submission_timestamp: new Date().toISOString(),
+    form_version: currentVersion('frequency_change'),
+
+    // Visitor data (minimal for service pages)
+    session_id: visitorData.session_id || null,
+    user_agent: visitorData.user_agent || null,
+    timezone: visitorData.timezone || null
+  };
+}
+
+export function buildFeedbackPayload(formData: FeedbackData, uid: string, envelope: SubmissionEnvelope): Record<string, unknown> {
+  const { variantName, visitorData } = envelope;
+  return {
+    // Basic form data
+    email: formData.email,
+    uid: uid,
+    action: 'feedback',
+
+    // Feedback-specific data
+    likes_tags: formData.likes,
+    dislikes_tags: formData.dislikes,
+    like_other_comment: formData.likeOtherComment,
+    dislike_other_comment: formData.dislikeOtherComment,
+
+    // Metadata
+    likes_count: formData.likes.length,
+    dislikes_count: formData.dislikes.length,
+
+    // Variant identification
+    variant: variantName,
+    ab_test_variant: variantName,
+
+    // Submission metadata
+    submission_timestamp: new Date().toISOString(),
+    form_version: currentVersion('feedback'),
+
+    // Visitor data (minimal for service pages)
+    session_id: visitorData.session_id || null,
+    user_agent: visitorData.user_agent || null,
+    timezone: visitorData.timezone || null
+  };
+}
+
+export function buildPreferencesPayload(
+  formData: PreferencesData,
+  uid: string,
+  previous: PreferencesData | null,
+  envelope: SubmissionEnvelope
+): Record<string, unknown> {
+  const { variantName, visitorData } = envelope;
+  const fields = Object.keys(formData) as (keyof PreferencesData)[];
+  // Preferences saved before the full name was kept with them have none
+  const before = previous && { ...previous, fullName: previous.fullName ?? '' };
+  return {
+    uid: uid,
+    action: 'preferences_update',
+
+    // Preference data, named as in registration payloads
+    ...formData,
+
+    // Metadata
+    changed_fields: before
+      ? fields.filter(field => JSON.stringify(formData[field]) !== JSON.stringify(before[field]))
+      : fields,
+
+    // Variant identification
+    variant: variantName,
+    ab_test_variant: variantName,
+
+    // Submission metadata
+    submission_timestamp: new Date().toISOString(),
+    form_version: currentVersion('preferences_update'),
+
+    // Visitor data (minimal for service pages)
+    session_id: visitorData.session_id || null,
+    user_agent: visitorData.user_agent || null,
+    timezone: visitorData.timezone || null
+  };
+}
+
+/**
+ * When a paused subscription resumes: the morning of the resume date, at the subscriber's own day start time
+ */
+export interface PauseSchedule {
+  resumeDate: string;
+  resumeTime: string;
+  timeZone: string;
+  /** The same moment in UTC, for the email pipeline's scheduler */
+  resumeAt: string;
+}
+
+/**
+ * Schedules a pause in the time zone and day start time the subscriber signed up with (or last saved
+ * in the preference center), falling back to the browser's time zone and the signup default
+ */
+export function schedulePause(formData: PauseData, preferences: PreferencesData | null, now: Date = new Date()): PauseSchedule {
+  const timeZone = preferences?.timeZone || formData.timeZone || 'UTC';
+  const resumeTime = preferences?.dayStartTime || DEFAULT_DAY_START;
+  const resumeDate = resumeDateFor(formData.duration, localDateIn(timeZone, now), formData.resumeDate);
+  return { resumeDate, resumeTime, timeZone, resumeAt: zonedTimeToUtc(resumeDate, resumeTime, timeZone).toISOString() };
+}
+
+export function buildPausePayload(
+  formData: PauseData,
+  uid: string,
+  schedule: PauseSchedule,
+  unpauseUrl: string | null,
+  envelope: SubmissionEnvelope
+): Record<string, unknown> {
+  const { variantName, visitorData } = envelope;
+  return {
+    // Basic form data
+    email: formData.email,
+    uid: uid,
+    action: 'pause',
+
+    // Pause-specific data
+    pause_duration: formData.duration,
+    resume_date: schedule.resumeDate,
+    resume_time: schedule.resumeTime,
+    resume_timezone: schedule.timeZone,
+    resume_at: schedule.resumeAt,
+    unpause_url: unpauseUrl,
+    reasons_tags: formData.reasons,
+
+    // Variant identification
+    variant: variantName,
+    ab_test_variant: variantName,
+
+    // Submission metadata
+    submission_timestamp: new Date().toISOString(),
+    form_version: currentVersion('pause'),
+
+    // Visitor data (minimal for service pages)
+    session_id: visitorData.session_id || null,
+    user_agent: visitorData.user_agent || null,
+    timezone: visitorData.timezone || null
+  };
+}
+
+export function buildUnpausePayload(uid: string, pausedUntil: string | null, resumedAt: string): Record<string, unknown> {
+  return {
+    uid: uid,
+    action: 'unpause',
+    paused_until: pausedUntil,
+    resumed_at: resumedAt,
+
+    // Submission metadata
+    submission_timestamp: new Date().toISOString(),
+    form_version: currentVersion('unpause')
+  };
+}
+
+/**
+ * Registration payload with the links for the welcome email: the confirmation link in double opt-in mode,
+ * and the signed service links when they are configured
+ */
+async function signupPayload(
+  context: PagesContext,
+  formData: RegistrationData,
+  uid: string,
+  envelope: SubmissionEnvelope,
+  confirmationRequired: boolean
+): Promise<Record<string, unknown>> {
+  const payload = buildRegistrationPayload(formData, uid, envelope, requestGeo(context));
+  if (confirmationRequired) {
+    const confirmation = await confirmationLink(context, uid);
+    Object.assign(payload, {
+      confirmation_required: true,
+      confirmation_token: confirmation.token,
+      confirmation_url: confirmation.url
+    });
+  }
+  if (context.env.TOKEN_SIGNING_SECRET) {
+    // Signed service links for the welcome email; later emails mint fresh ones via /api/links
+    const [unsubscribe, feedback, preferences] = await Promise.all([
+      mintLink(context, 'unsubscribe', uid),
+      mintLink(context, 'feedback', uid),
+      mintLink(context, 'preferences', uid)
+    ]);
+    Object.assign(payload, {
+      unsubscribe_url: unsubscribe.url,
+      list_unsubscribe_url: unsubscribe.oneClickUrl,
+      feedback_url: feedback.url,
+      preferences_url: preferences.url
+    });
+  }
+  return payload;
+}
+
+function outcomeResponse(outcome: RegistrationOutcome, replayed: boolean): Response {
+  return json({
+    success: true,
+    message: outcome.duplicate ? 'Email already registered' : 'Form submitted successfully',
+    uid: outcome.uid,
+    duplicate: outcome.duplicate,
+    confirmationRequired: !!outcome.confirmationRequired
+  }, 200, replayed ? { 'Idempotent-Replayed': 'true' } : {});
+}
+
+/**
+ * Registers a subscriber. Idempotent per client key; a known email gets its original UID back, and one that
+ * had unsubscribed is resubscribed under it.
+ * In double opt-in mode the forwarded payload carries a confirmation link and the subscriber stays pending;
+ * signing up again while pending sends a fresh link.
+ */
+export async function handleRegistration(context: PagesContext, envelope: SubmissionEnvelope): Promise<Response> {
+  const { request, env } = context;
+  const doubleOptIn = doubleOptInEnabled(env);
+  await limitByIp(context);
+  const { formData, place } = withGazetteerPlace(validated(parseRegistration(envelope.formData)));
+
+  const registrations = new RegistrationIndex(resolveStore(env, 'SUBSCRIBERS'));
+
+  const verdict = await assessSubmission(
+    readBotSignals(envelope.botCheck),
+    challengeVerifier(env),
+    request.headers.get('CF-Connecting-IP')
+  );
+  if (verdict.suspected) {
+    // Looks like a normal signup to the client, but is only kept for review
+    const uid = generateUID(formData.birthLocation, place?.countryCode);
+    const payload = { ...buildRegistrationPayload(formData, uid, envelope, requestGeo(context)), suspected_bot: true, bot_reasons: verdict.reasons };
+    await registrations.rememberSuspectedBot(uid, verdict.reasons, payload);
+    console.log('Suspected bot registration held back:', { uid, reasons: verdict.reasons, variant: envelope.variantName, timestamp: new Date().toISOString() });
+    return outcomeResponse({ uid, duplicate: false, confirmationRequired: doubleOptIn }, false);
+  }
+  const idempotencyKey = readIdempotencyKey(request, envelope);
+
+  if (idempotencyKey) {
+    const previous = await registrations.findByIdempotencyKey(idempotencyKey);
+    if (previous) {
+      console.log('Idempotent registration replayed:', { uid: previous.uid, timestamp: new Date().toISOString() });
+      return outcomeResponse(previous, true);
+    }
+  }
+
+  await limitByEmail(context, formData.email);
+
+  const existing = await registrations.findByEmail(formData.email);
+  if (existing) {
+    let record = existing;
+    // Deployments with only the legacy Zaps have no resubscribe route: the comeback goes out as a registration under the original UID
+    const resubscribeAsRegistration = !!record.unsubscribedAt && !isRouted(env, 'resubscribe');
+    if (record.unsubscribedAt && !resubscribeAsRegistration) {
+      // Signing up again after unsubscribing restores the original UID with the preferences just submitted
+      record = await resubscribe(context, registrations, record, 'signup_form', { email: formData.email, preferences: pickPreferences(formData) });
+    }
+    const confirmationRequired = record.confirmedAt === null && doubleOptIn;
+    if (confirmationRequired || resubscribeAsRegistration) {
+      // Pending subscribers get a fresh confirmation link, since the first may have expired
+      const items = await queueEvent(context, 'registration', await signupPayload(context, formData, record.uid, envelope, confirmationRequired));
+      if (resubscribeAsRegistration) record = await registrations.saveUnsubscribed({ ...record, preferences: pickPreferences(formData) }, null);
+      if (confirmationRequired && !record.pendingEmail) record = await registrations.savePendingEmail(record, formData.email);
+      console.log(resubscribeAsRegistration ? 'Subscriber resubscribed through the registration route:' : 'Confirmation link resent:', { uid: record.uid, outbox_ids: items.map(item => item.id), timestamp: new Date().toISOString() });
+    }
+
+    const outcome: RegistrationOutcome = { uid: record.uid, duplicate: !existing.unsubscribedAt, confirmationRequired: record.confirmedAt === null };
+    if (idempotencyKey) await registrations.rememberOutcome(idempotencyKey, outcome);
+    if (outcome.duplicate) {
+      console.log('Duplicate registration detected:', { uid: record.uid, variant: envelope.variantName, timestamp: new Date().toISOString() });
+    }
+    return outcomeResponse(outcome, false);
+  }
+
+  // Generate UID based on birth location
+  const uid = generateUID(formData.birthLocation, place?.countryCode);
+  const items = await queueEvent(context, 'registration', await signupPayload(context, formData, uid, envelope, doubleOptIn));
+
+  const outcome: RegistrationOutcome = { uid, duplicate: false, confirmationRequired: doubleOptIn };
+  await registrations.rememberEmail(formData.email, uid, !doubleOptIn, pickPreferences(formData));
+  if (idempotencyKey) await registrations.rememberOutcome(idempotencyKey, outcome);
+
+  console.log('Registration accepted:', { variant: envelope.variantName, uid, double_opt_in: doubleOptIn, outbox_ids: items.map(item => item.id), timestamp: new Date().toISOString() });
+  return outcomeResponse(outcome, false);
+}
+
+/**
+ * Answers an unsubscribe, pause or frequency change asked for by email alone: nothing changes, the
+ * address gets a signed unsubscribe link to make the change from. The answer is the same whether or not
+ * the email is subscribed; emails the site has no record of go out with a null UID and link, for the
+ * email pipeline to find in the CRM.
+ */
+async function sendUnsubscribeLink(
+  context: PagesContext,
+  email: string,
+  requestedAction: UnsubscribeRequestAction,
+  envelope: SubmissionEnvelope
+): Promise<Response> {
+  // Fails before any lookup, so a misconfigured deployment answers the same for every email
+  tokenSecret(context.env);
+  await limitByEmail(context, email);
+
+  const record = await new RegistrationIndex(resolveStore(context.env, 'SUBSCRIBERS')).findByEmail(email);
+  const link = record ? await mintLink(context, 'unsubscribe', record.uid) : null;
+  const payload = buildUnsubscribeVerificationPayload(email, record?.uid ?? null, requestedAction, link, envelope);
+  const items = await queueEvent(context, 'unsubscribe_verification', payload);
+
+  console.log('Unsubscribe link requested:', { requested_action: requestedAction, uid: record?.uid ?? null, outbox_ids: items.map(item => item.id), timestamp: new Date().toISOString() });
+  return json({ success: true, message: 'If this email is subscribed, a link to finish your request is on its way to it', linkSent: true }, 202);
+}
+
+/**
+ * Unsubscribes from the /unsubscribe page. Only requests from a signed link act; by email alone, the
+ * subscriber is sent one. Known subscribers keep their record, marked unsubscribed, and the payload
+ * carries a resubscribe link for the goodbye email.
+ */
+export async function handleUnsubscribe(context: PagesContext, envelope: SubmissionEnvelope): Promise<Response> {
+  const { env } = context;
+  await limitByIp(context);
+  const formData = validated(parseUnsubscribe(await withLinkIdentity(context, envelope.formData, 'unsubscribe')));
+  if (formData.uid === null) return sendUnsubscribeLink(context, formData.email, 'unsubscribe', envelope);
+
+  const { uid } = formData;
+  const registrations = new RegistrationIndex(resolveStore(env, 'SUBSCRIBERS'));
+  const record = await registrations.findByUid(uid);
+
+  const payload = buildUnsubscribePayload({ ...formData, email: storedEmail(record) }, uid, envelope);
+  const resubscribe = await resubscribeLink(context, record);
+  if (resubscribe) payload.resubscribe_url = resubscribe.url;
+  const items = await queueEvent(context, 'unsubscribe', payload);
+  if (record) await registrations.saveUnsubscribed(record, new Date().toISOString());
+
+  console.log('Unsubscribe accepted:', { uid, outbox_ids: items.map(item => item.id), timestamp: new Date().toISOString() });
+  return json({
+    success: true,
+    message: 'Form submitted successfully',
+    uid,
+    resubscribeUrl: resubscribe?.url ?? null
+  });
+}
+
+/**
+ * Switches a subscriber who was about to leave over email volume to a lighter schedule. Like
+ * unsubscribing, a request by email alone only sends the signed link.
+ */
+export async function handleFrequencyChange(context: PagesContext, envelope: SubmissionEnvelope): Promise<Response> {
+  await limitByIp(context);
+  const formData = validated(parseFrequencyChange(await withLinkIdentity(context, envelope.formData, 'unsubscribe')));
+  if (formData.uid === null) return sendUnsubscribeLink(context, formData.email, 'frequency_change', envelope);
+
+  const { uid } = formData;
+  const record = await new RegistrationIndex(resolveStore(context.env, 'SUBSCRIBERS')).findByUid(uid);
+  const items = await queueEvent(context, 'frequency_change', buildFrequencyChangePayload({ ...formData, email: storedEmail(record) }, uid, envelope));
+
+  console.log('Frequency change accepted:', { uid, frequency: formData.frequency, outbox_ids: items.map(item => item.id), timestamp: new Date().toISOString() });
+  return json({ success: true, message: 'Frequency updated', uid, frequency: formData.frequency });
+}
+
+/**
+ * Pauses deliveries instead of unsubscribing, and answers with the schedule and an "unpause now" link.
+ * Like unsubscribing, a pause by email alone only sends the signed link.
+ */
+export async function handlePause(context: PagesContext, envelope: SubmissionEnvelope): Promise<Response> {
+  const { env } = context;
+  await limitByIp(context);
+  const formData = validated(parsePause(await withLinkIdentity(context, envelope.formData, 'unsubscribe')));
+  if (formData.uid === null) return sendUnsubscribeLink(context, formData.email, 'pause', envelope);
+
+  const { uid } = formData;
+  const registrations = new RegistrationIndex(resolveStore(env, 'SUBSCRIBERS'));
+  const record = await registrations.findByUid(uid);
+
+  const schedule = schedulePause(formData, record?.preferences ?? null);
+  const unpause = await mintLink(context, 'unpause', uid);
+  const items = await queueEvent(context, 'pause', buildPausePayload({ ...formData, email: storedEmail(record) }, uid, schedule, unpause.url, envelope));
+  if (record) await registrations.savePause(record, schedule.resumeAt);
+
+  console.log('Pause accepted:', { uid, resume_at: schedule.resumeAt, outbox_ids: items.map(item => item.id), timestamp: new Date().toISOString() });
+  return json({
+    success: true,
+    message: 'Emails paused',
+    uid,
+    pause: schedule,
+    unpauseUrl: unpause.url
+  });
+}
+
+/**
+ * Ends a pause early from its "unpause now" link. Unpausing a subscription that is not paused is
+ * harmless and reports `alreadyActive`.
+ */
+export async function handleUnpause(context: PagesContext, token: string): Promise<Response> {
+  const { uid } = await requireLinkClaims(context, token, 'unpause');
+  const registrations = new RegistrationIndex(resolveStore(context.env, 'SUBSCRIBERS'));
+  const record = await registrations.findByUid(uid);
+  const resumedAt = new Date().toISOString();
+
+  // Subscribers from before the index have no stored pause, so their unpause is always forwarded
+  const pausedUntil = record?.pausedUntil ?? null;
+  if (record && (!pausedUntil || pausedUntil <= resumedAt)) {
+    return json({ success: true, uid, alreadyActive: true });
+  }
+
+  const items = await queueEvent(context, 'unpause', buildUnpausePayload(uid, pausedUntil, resumedAt));
+  if (record) await registrations.savePause(record, null);
+
+  console.log('Pause ended early:', { uid, outbox_ids: items.map(item => item.id), timestamp: resumedAt });
+  return json({ success: true, uid, alreadyActive: false });
+}
+
+export async function handleFeedback(context: PagesContext, envelope: SubmissionEnvelope): Promise<Response> {
+  await limitByIp(context);
+  const parsed = validated(parseFeedback(await withLinkIdentity(context, envelope.formData, 'feedback')));
+  const formData = parsed.uid === null
+    ? parsed
+    : { ...parsed, email: storedEmail(await new RegistrationIndex(resolveStore(context.env, 'SUBSCRIBERS')).findByUid(parsed.uid)) };
+  const uid = serviceUid('feedback', formData.uid);
+  const items = await queueEvent(context, 'feedback', buildFeedbackPayload(formData, uid, envelope));
+
+  console.log('Feedback accepted:', { uid, outbox_ids: items.map(item => item.id), timestamp: new Date().toISOString() });
+  return json({ success: true, message: 'Form submitted successfully', uid });
+}
+
+// The subscriber a preference center link was minted for
+async function requirePreferencesSubscriber(context: PagesContext, token: string): Promise<{ registrations: RegistrationIndex; record: RegistrationRecord }> {
+  const { uid } = await requireLinkClaims(context, token, 'preferences');
+  const registrations = new RegistrationIndex(resolveStore(context.env, 'SUBSCRIBERS'));
+  const record = await registrations.findByUid(uid);
+  if (!record) {
+    throw new HttpError('NOT_FOUND', 'No subscription matches this link');
+  }
+  return { registrations, record };
+}
+
+/**
+ * Current settings for the preference center; null for subscribers from before it, whose page starts from the defaults
+ */
+export async function handlePreferencesLookup(context: PagesContext, token: string): Promise<Response> {
+  const { record } = await requirePreferencesSubscriber(context, token);
+  return json({ success: true, uid: record.uid, preferences: record.preferences ?? null });
+}
+
+/**
+ * Saves the preference center form. Only reachable through a signed link; there is no email fallback.
+ */
+export async function handlePreferencesUpdate(context: PagesContext, envelope: SubmissionEnvelope): Promise<Response> {
+  await limitByIp(context);
+  const token = isRecord(envelope.formData) && typeof envelope.formData.token === 'string' ? envelope.formData.token : '';
+  const { registrations, record } = await requirePreferencesSubscriber(context, token);
+  const formData = validated(parsePreferences(envelope.formData));
+  const items = await queueEvent(context, 'preferences_update', buildPreferencesPayload(formData, record.uid, record.preferences ?? null, envelope));
+  await registrations.savePreferences(record, formData);
+
+  console.log('Preferences updated:', { uid: record.uid, outbox_ids: items.map(item => item.id), timestamp: new Date().toISOString() });
+  return json({ success: true, message: 'Preferences saved', uid: record.uid, preferences: formData });
+}
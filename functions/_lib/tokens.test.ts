@@ -0,0 +1,65 @@
+import { describe, expect, it, vi } from 'vitest';
+import { signToken, tokenSecret, verifyToken } from './tokens';
+import type { Env } from './types';
+
+const SECRET = 'test-secret';
+const NOW = Date.UTC(2026, 0, 1);
+const DAY_SECONDS = 24 * 60 * 60;
+
+describe('signed tokens', () => {
+  it('verifies a token for the action it was signed for', async () => {
+    const token = await signToken(SECRET, 'unsubscribe', 'US20481937756203', DAY_SECONDS, NOW);
+    expect(await verifyToken(SECRET, token, 'unsubscribe', NOW)).toEqual({
+      valid: true,
+      claims: { action: 'unsubscribe', uid: 'US20481937756203', exp: NOW / 1000 + DAY_SECONDS }
+    });
+  });
+
+  it('carries the record a token is bound to', async () => {
+    const token = await signToken(SECRET, 'privacy', '', DAY_SECONDS, NOW, 'pr_123');
+    const result = await verifyToken(SECRET, token, 'privacy', NOW);
+    expect(result.valid && result.claims.ref).toBe('pr_123');
+  });
+
+  it('rejects a token signed for another action', async () => {
+    const token = await signToken(SECRET, 'feedback', 'US20481937756203', DAY_SECONDS, NOW);
+    expect(await verifyToken(SECRET, token, 'unsubscribe', NOW)).toEqual({ valid: false, reason: 'invalid' });
+  });
+
+  it('rejects a token signed with another secret', async () => {
+    const token = await signToken('other-secret', 'unsubscribe', 'US20481937756203', DAY_SECONDS, NOW);
+    expect(await verifyToken(SECRET, token, 'unsubscribe', NOW)).toEqual({ valid: false, reason: 'invalid' });
+  });
+
+  it('rejects claims changed after signing', async () => {
+    const token = await signToken(SECRET, 'unsubscribe', 'US20481937756203', DAY_SECONDS, NOW);
+    const [, signature] = token.split('.');
+    const forged = btoa(JSON.stringify({ action: 'unsubscribe', uid: 'DE20000000000001', exp: NOW / 1000 + DAY_SECONDS }))
+      .replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+    expect(await verifyToken(SECRET, `${forged}.${signature}`, 'unsubscribe', NOW)).toEqual({ valid: false, reason: 'invalid' });
+  });
+
+  it('expires once its lifetime has passed', async () => {
+    const token = await signToken(SECRET, 'confirm', 'US20481937756203', DAY_SECONDS, NOW);
+    expect((await verifyToken(SECRET, token, 'confirm', NOW + DAY_SECONDS * 1000 - 1)).valid).toBe(true);
+    expect(await verifyToken(SECRET, token, 'confirm', NOW + DAY_SECONDS * 1000)).toEqual({ valid: false, reason: 'expired' });
+  });
+
+  it('reports tokens that are not two dot-separated parts as malformed', async () => {
+    for (const token of ['', 'abc', 'a.b.c', '.signature']) {
+      expect(await verifyToken(SECRET, token, 'unsubscribe', NOW)).toEqual({ valid: false, reason: 'malformed' });
+    }
+  });
+});
+
+describe('tokenSecret', () => {
+  it('returns the configured secret', () => {
+    expect(tokenSecret({ TOKEN_SIGNING_SECRET: SECRET } as Env)).toBe(SECRET);
+  });
+
+  it('throws NOT_CONFIGURED without one', () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(() => tokenSecret({} as Env)).toThrow(expect.objectContaining({ code: 'NOT_CONFIGURED' }));
+    consoleError.mockRestore();
+  });
+});
@@ -0,0 +1,97 @@
+// Signed, expiring tokens for links sent to subscribers.
+// Format: `<base64url claims JSON>.<base64url HMAC-SHA256 of the first part>`, keyed by TOKEN_SIGNING_SECRET.
+
+import { timingSafeEqual } from './auth';
+import { HttpError } from './http';
+import type { Env } from './types';
+
+export const TOKEN_ACTIONS = ['confirm', 'unsubscribe', 'feedback', 'preferences', 'privacy', 'unpause', 'resubscribe'] as const;
+
+export type TokenAction = typeof TOKEN_ACTIONS[number];
+
+export interface TokenClaims {
+  action: TokenAction;
+  uid: string;
+  /** Expiry, Unix time in seconds */
+  exp: number;
+  /** Record the token is bound to, e.g. the privacy request it verifies */
+  ref?: string;
+}
+
+export type TokenResult =
+  | { valid: true; claims: TokenClaims }
+  | { valid: false; reason: 'malformed' | 'invalid' | 'expired' };
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+}
+
+async function hmac(secret: string, message: string): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return toBase64Url(new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(message))));
+}
+
+export function isTokenAction(value: unknown): value is TokenAction {
+  return TOKEN_ACTIONS.includes(value as TokenAction);
+}
+
+function isClaims(value: unknown): value is TokenClaims {
+  const claims = value as TokenClaims;
+  return !!claims && typeof claims.action === 'string' && typeof claims.uid === 'string' && typeof claims.exp === 'number'
+    && (claims.ref === undefined || typeof claims.ref === 'string');
+}
+
+/**
+ * The token signing secret, or a 500 when the deployment has none
+ */
+export function tokenSecret(env: Env): string {
+  if (!env.TOKEN_SIGNING_SECRET) {
+    console.error('TOKEN_SIGNING_SECRET not configured');
+    throw new HttpError('NOT_CONFIGURED', 'TOKEN_SIGNING_SECRET is not set');
+  }
+  return env.TOKEN_SIGNING_SECRET;
+}
+
+export async function signToken(
+  secret: string,
+  action: TokenAction,
+  uid: string,
+  ttlSeconds: number,
+  now: number = Date.now(),
+  ref?: string
+): Promise<string> {
+  const claims: TokenClaims = { action, uid, exp: Math.floor(now / 1000) + ttlSeconds, ...(ref ? { ref } : {}) };
+  const body = toBase64Url(encoder.encode(JSON.stringify(claims)));
+  return `${body}.${await hmac(secret, body)}`;
+}
+
+/**
+ * Checks the signature, expiry and that the token was issued for `action`
+ */
+export async function verifyToken(secret: string, token: string, action: TokenAction, now: number = Date.now()): Promise<TokenResult> {
+  const [body, signature, ...rest] = token.split('.');
+  if (!body || !signature || rest.length > 0) return { valid: false, reason: 'malformed' };
+
+  if (!timingSafeEqual(signature, await hmac(secret, body))) return { valid: false, reason: 'invalid' };
+
+  let claims: unknown;
+  try {
+    claims = JSON.parse(decoder.decode(fromBase64Url(body)));
+  } catch {
+    return { valid: false, reason: 'malformed' };
+  }
+  if (!isClaims(claims) || claims.action !== action) return { valid: false, reason: 'invalid' };
+  if (claims.exp * 1000 <= now) return { valid: false, reason: 'expired' };
+
+  return { valid: true, claims };
+}
@@ -0,0 +1,72 @@
+// Shared types for the Cloudflare Pages Functions
+
+import type { KVNamespaceLike } from './storage';
+
+/**
+ * Environment variables, secrets and bindings available to every function
+ */
+export interface Env {
+  VITE_PUBLIC_ZAPIER_WEBHOOK_URL?: string;
+  VITE_PUBLIC_ZAPIER_UNSUBSCRIBE_URL?: string;
+  VITE_PUBLIC_ZAPIER_FEEDBACK_URL?: string;
+  OUTBOX?: KVNamespaceLike;
+  OUTBOX_ADMIN_TOKEN?: string;
+  SUBSCRIBERS?: KVNamespaceLike;
+  RATE_LIMITS?: KVNamespaceLike;
+  /** Cross-origin callers allowed to use the API, comma-separated; `*.` wildcards match subdomains */
+  ALLOWED_ORIGINS?: string;
+  /** Extra delivery sinks as a JSON array (see functions/_lib/destinations/index.ts) */
+  DELIVERY_DESTINATIONS?: string;
+  /** HMAC secret for signing outbound webhooks (see docs/webhook-signatures.md) */
+  WEBHOOK_SIGNING_SECRET?: string;
+  /** Previous signing secret, kept only while consumers rotate over */
+  WEBHOOK_SIGNING_SECRET_PREVIOUS?: string;
+  /** HMAC secret for signed subscriber links (confirmation, unsubscribe, ...) */
+  TOKEN_SIGNING_SECRET?: string;
+  /** Bearer token for POST /api/links, used by the email pipeline to mint signed links */
+  LINKS_API_TOKEN?: string;
+  /** Set to `true` to require email confirmation before a registration counts */
+  DOUBLE_OPT_IN?: string;
+  /** Turnstile secret; when set, signups must carry a valid challenge token */
+  TURNSTILE_SECRET_KEY?: string;
+  /** Set to `fake` to use the local challenge verifier (development only) */
+  CHALLENGE_VERIFIER?: string;
+  /** Mock `request.cf` for local runs: `true` for the default mock, or a JSON object used as is */
+  CF_MOCK?: string;
+  /** Countries / regions whose visitor IPs are not forwarded in full (see functions/_lib/geo.ts) */
+  IP_PRIVACY_REGIONS?: string;
+  /** `truncate` (default) or `omit`: what happens to IPs from IP_PRIVACY_REGIONS */
+  IP_PRIVACY_MODE?: string;
+  /** Webhook that receives data subject requests (privacy_verification / privacy_request events) */
+  PRIVACY_WEBHOOK_URL?: string;
+  /** Bearer token for /api/privacy/requests, used by operators to track and close data subject requests */
+  PRIVACY_ADMIN_TOKEN?: string;
+  /** Audit log of data subject requests (see functions/_lib/privacyRequests.ts) */
+  PRIVACY_REQUESTS?: KVNamespaceLike;
+  /** Set to `true` to keep data in memory when a KV binding is missing (development only) */
+  MEMORY_STORAGE?: string;
+}
+
+/**
+ * Per-request data shared between middleware and route handlers
+ */
+export interface RequestData {
+  requestId: string;
+  /** Parsed JSON body, set by the API middleware for requests that carry one */
+  body?: unknown;
+  [key: string]: unknown;
+}
+
+/**
+ * The subset of the Pages Functions event context the functions use
+ */
+export interface PagesContext<E = Env> {
+  request: Request;
+  env: E;
+  params: Record<string, string | string[]>;
+  data: RequestData;
+  next(input?: Request | string, init?: RequestInit): Promise<Response>;
+  waitUntil(promise: Promise<unknown>): void;
+}
+
+export type PagesHandler<E = Env> = (context: PagesContext<E>) => Response | Promise<Response>;
@@ -0,0 +1,66 @@
+// Experiment assignment at the edge: the landing page HTML leaves with the assignment cookies of the
+// `assignAtEdge` experiments already set and the arms written into the page, so ABTestRouter renders on first paint.
+
+import {
+  EXPERIMENTS,
+  EXPERIMENT_GLOBAL,
+  EXPERIMENT_KEYS,
+  assignmentCookie,
+  findArm,
+  isRunning,
+  pickArm,
+  readCookie,
+  type ExperimentDefinition
+} from '../../src/utils/experiments';
+import type { PagesContext } from './types';
+
+/**
+ * Writes the assignments into the page ahead of the app's script
+ */
+export function injectAssignments(html: string, assignments: Record<string, string>): string {
+  const script = `<script>window.${EXPERIMENT_GLOBAL}=${JSON.stringify(assignments)};</script>`;
+  return html.includes('</head>') ? html.replace('</head>', `${script}</head>`) : `${script}${html}`;
+}
+
+/**
+ * Serves the landing page with the visitor's arms: the ones in their cookies, or new ones that the
+ * response sets. Anything other than an HTML page, or no running edge experiment, passes through untouched.
+ */
+export async function handleLandingPage(context: PagesContext): Promise<Response> {
+  const { request } = context;
+  const response = await context.next();
+  if (!response.ok || !(response.headers.get('Content-Type') ?? '').includes('text/html')) {
+    return response;
+  }
+
+  const now = new Date();
+  const cookies = request.headers.get('Cookie');
+  const assignments: Record<string, string> = {};
+  const newCookies: string[] = [];
+  for (const key of EXPERIMENT_KEYS) {
+    const definition: ExperimentDefinition<unknown> = EXPERIMENTS[key];
+    const { persistence } = definition;
+    if (persistence.kind !== 'cookie' || !persistence.assignAtEdge || !isRunning(definition, now)) continue;
+
+    const existing = findArm(definition, readCookie(cookies, persistence.name));
+    const armId = existing?.id ?? pickArm(definition).id;
+    assignments[key] = armId;
+    if (!existing) newCookies.push(assignmentCookie(persistence.name, armId, persistence.days, now));
+  }
+  if (Object.keys(assignments).length === 0) return response;
+
+  const headers = new Headers(response.headers);
+  // The page now differs per visitor: no shared caching, and no revalidation against the static file
+  headers.set('Cache-Control', 'private, no-cache');
+  headers.append('Vary', 'Cookie');
+  headers.delete('ETag');
+  headers.delete('Last-Modified');
+  headers.delete('Content-Length');
+  for (const cookie of newCookies) headers.append('Set-Cookie', cookie);
+
+  return new Response(injectAssignments(await response.text(), assignments), {
+    status: response.status,
+    statusText: response.statusText,
+    headers
+  });
+}
@@ -0,0 +1,120 @@
+// Signing and verification for outbound webhook payloads.
+// This file has no imports so webhook consumers can copy it as-is (Web Crypto: Workers, Node 18+, browsers).
+// Scheme documented in docs/webhook-signatures.md.
+
+export const SIGNATURE_VERSION = 'v1';
+export const SIGNATURE_HEADER = 'X-Astropal-Signature';
+export const TIMESTAMP_HEADER = 'X-Astropal-Timestamp';
+export const EVENT_ID_HEADER = 'X-Astropal-Event-Id';
+export const DEFAULT_TOLERANCE_SECONDS = 5 * 60;
+
+export interface SignOptions {
+  /** Raw request body, exactly as sent */
+  body: string;
+  eventId: string;
+  /** Active signing secrets. During rotation pass both the new and the old one. */
+  secrets: string[];
+  /** Unix time in seconds; defaults to now */
+  timestamp?: number;
+}
+
+export interface VerifyOptions {
+  body: string;
+  headers: Headers | Record<string, string | null | undefined>;
+  /** Secrets the consumer accepts; a match against any of them is enough */
+  secrets: string[];
+  toleranceSeconds?: number;
+  /** Unix time in seconds; defaults to now */
+  now?: number;
+  /** Return true when the event ID was already processed, to reject replays */
+  isReplay?: (eventId: string) => boolean | Promise<boolean>;
+}
+
+export type VerifyResult =
+  | { valid: true; eventId: string; timestamp: number }
+  | { valid: false; reason: 'missing_headers' | 'timestamp_out_of_range' | 'signature_mismatch' | 'replayed' };
+
+const encoder = new TextEncoder();
+
+async function hmacHex(secret: string, message: string): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message));
+  return Array.from(new Uint8Array(signature), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+function readHeader(headers: VerifyOptions['headers'], name: string): string | null {
+  if (headers instanceof Headers) return headers.get(name);
+  const match = Object.keys(headers).find(key => key.toLowerCase() === name.toLowerCase());
+  return match ? headers[match] ?? null : null;
+}
+
+/**
+ * The string that gets signed: `<timestamp>.<eventId>.<body>`
+ */
+export function signedContent(timestamp: number, eventId: string, body: string): string {
+  return `${timestamp}.${eventId}.${body}`;
+}
+
+/**
+ * Builds the signature headers for a payload. The signature header carries one
+ * `v1=<hex>` entry per secret, comma-separated.
+ */
+export async function signWebhookPayload(options: SignOptions): Promise<Record<string, string>> {
+  const timestamp = options.timestamp ?? Math.floor(Date.now() / 1000);
+  const content = signedContent(timestamp, options.eventId, options.body);
+  const signatures = await Promise.all(options.secrets.map(secret => hmacHex(secret, content)));
+
+  return {
+    [SIGNATURE_HEADER]: signatures.map(signature => `${SIGNATURE_VERSION}=${signature}`).join(','),
+    [TIMESTAMP_HEADER]: String(timestamp),
+    [EVENT_ID_HEADER]: options.eventId
+  };
+}
+
+/**
+ * Verifies a received webhook: signature against any accepted secret, timestamp
+ * within the tolerance window, and (optionally) that the event ID is new.
+ */
+export async function verifyWebhookSignature(options: VerifyOptions): Promise<VerifyResult> {
+  const signatureHeader = readHeader(options.headers, SIGNATURE_HEADER);
+  const timestampHeader = readHeader(options.headers, TIMESTAMP_HEADER);
+  const eventId = readHeader(options.headers, EVENT_ID_HEADER);
+  if (!signatureHeader || !timestampHeader || !eventId) {
+    return { valid: false, reason: 'missing_headers' };
+  }
+
+  const timestamp = Number(timestampHeader);
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  const tolerance = options.toleranceSeconds ?? DEFAULT_TOLERANCE_SECONDS;
+  if (!Number.isInteger(timestamp) || Math.abs(now - timestamp) > tolerance) {
+    return { valid: false, reason: 'timestamp_out_of_range' };
+  }
+
+  const provided = signatureHeader
+    .split(',')
+    .map(part => part.trim().split('='))
+    .filter(([version, value]) => version === SIGNATURE_VERSION && !!value)
+    .map(([, value]) => value);
+
+  const content = signedContent(timestamp, eventId, options.body);
+  const expected = await Promise.all(options.secrets.filter(Boolean).map(secret => hmacHex(secret, content)));
+  const matched = expected.some(signature => provided.some(candidate => timingSafeEqual(candidate, signature)));
+  if (!matched) {
+    return { valid: false, reason: 'signature_mismatch' };
+  }
+
+  if (options.isReplay && await options.isReplay(eventId)) {
+    return { valid: false, reason: 'replayed' };
+  }
+
+  return { valid: true, eventId, timestamp };
+}
@@ -0,0 +1,102 @@
+// Middleware shared by every function under /api: error handling, logging, CORS and JSON parsing.
+// Runs in array order; each step hands off to the next with `context.next()`.
+
+import { isOriginAllowed, parseAllowedOrigins } from '../_lib/cors';
+import { errorResponse, HttpError } from '../_lib/http';
+import type { PagesContext, PagesHandler } from '../_lib/types';
+
+const corsHeaders: Record<string, string> = {
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Idempotency-Key, Authorization',
+  'Access-Control-Expose-Headers': 'Retry-After, Idempotent-Replayed',
+  'Access-Control-Max-Age': '86400',
+};
+
+const SAFE_METHODS = ['GET', 'HEAD'];
+
+const BODY_METHODS = ['POST', 'PUT', 'PATCH'];
+const FORM_CONTENT_TYPES = ['application/x-www-form-urlencoded', 'multipart/form-data'];
+
+// Turn thrown errors into the JSON error envelope instead of the platform's HTML 500 page.
+// Unexpected errors are logged in full but only reported as INTERNAL_ERROR with the request id.
+const errorHandling: PagesHandler = async (context) => {
+  const { requestId } = context.data;
+  try {
+    return await context.next();
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return error.toResponse(requestId);
+    }
+    console.error('Unhandled function error:', {
+      requestId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return errorResponse('INTERNAL_ERROR', 'Something went wrong, please try again', {}, requestId);
+  }
+};
+
+const logging: PagesHandler = async (context) => {
+  const started = Date.now();
+  const url = new URL(context.request.url);
+  context.data.requestId = context.request.headers.get('CF-Ray') || crypto.randomUUID();
+
+  const response = await context.next();
+  console.log('API request:', {
+    requestId: context.data.requestId,
+    method: context.request.method,
+    path: url.pathname,
+    status: response.status,
+    duration_ms: Date.now() - started
+  });
+  return response;
+};
+
+// Echo the Origin back only when it is allowed; requests without an Origin (same-origin GETs,
+// server-to-server calls) pass through untouched
+const cors: PagesHandler = async (context) => {
+  const { request, env } = context;
+  const origin = request.headers.get('Origin');
+  const allowed = !origin || isOriginAllowed(origin, request.url, parseAllowedOrigins(env.ALLOWED_ORIGINS));
+
+  if (!allowed && (request.method === 'OPTIONS' || !SAFE_METHODS.includes(request.method))) {
+    console.warn('Cross-origin request rejected:', { requestId: context.data.requestId, origin, method: request.method });
+    return errorResponse('ORIGIN_NOT_ALLOWED', 'This origin may not call the API', { headers: { 'Vary': 'Origin' } }, context.data.requestId);
+  }
+
+  const headers: Record<string, string> = origin && allowed
+    ? { ...corsHeaders, 'Access-Control-Allow-Origin': origin }
+    : {};
+
+  if (request.method === 'OPTIONS') {
+    return new Response(null, { status: 204, headers: { ...headers, 'Vary': 'Origin' } });
+  }
+
+  const response = await context.next();
+  const withCors = new Response(response.body, response);
+  for (const [name, value] of Object.entries(headers)) {
+    withCors.headers.set(name, value);
+  }
+  withCors.headers.append('Vary', 'Origin');
+  return withCors;
+};
+
+// Parse JSON bodies once so handlers read `context.data.body`; form posts are left to the handler
+const jsonBody: PagesHandler = async (context: PagesContext) => {
+  const { request } = context;
+  const contentType = request.headers.get('Content-Type') || '';
+
+  if (BODY_METHODS.includes(request.method) && !FORM_CONTENT_TYPES.some(type => contentType.includes(type))) {
+    const text = await request.text();
+    if (text.trim()) {
+      try {
+        context.data.body = JSON.parse(text);
+      } catch {
+        throw new HttpError('INVALID_BODY', 'Request body must be valid JSON');
+      }
+    }
+  }
+
+  return context.next();
+};
+
+export const onRequest: PagesHandler[] = [logging, cors, errorHandling, jsonBody];
@@ -0,0 +1,9 @@
+// Cloudflare Pages Function for double opt-in confirmation links
+
+import { handleConfirmation } from '../_lib/confirmation';
+import type { PagesHandler } from '../_lib/types';
+
+export const onRequestPost: PagesHandler = (context) => {
+  const body = (context.data.body ?? {}) as { token?: unknown };
+  return handleConfirmation(context, typeof body.token === 'string' ? body.token : '');
+};
@@ -0,0 +1,7 @@
+// Cloudflare Pages Function for feedback submissions from the /feedback page
+
+import { handleFeedback, readEnvelope } from '../_lib/submissions';
+import type { PagesHandler } from '../_lib/types';
+
+export const onRequestPost: PagesHandler = (context) =>
+  handleFeedback(context, readEnvelope(context.data.body));
@@ -0,0 +1,7 @@
+// Cloudflare Pages Function for switching to fewer emails from the /unsubscribe page
+
+import { handleFrequencyChange, readEnvelope } from '../_lib/submissions';
+import type { PagesHandler } from '../_lib/types';
+
+export const onRequestPost: PagesHandler = (context) =>
+  handleFrequencyChange(context, readEnvelope(context.data.body));
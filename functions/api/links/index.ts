@@ -0,0 +1,41 @@
+// Cloudflare Pages Function for minting signed subscriber links (unsubscribe, feedback, ...)
+// Called by the email pipeline; protected by the LINKS_API_TOKEN secret (sent as a Bearer token)
+
+import { validateUID } from '../../../src/utils/uidGenerator';
+import { requireBearerToken } from '../../_lib/auth';
+import { HttpError, json } from '../../_lib/http';
+import { mintLink } from '../../_lib/links';
+import { isTokenAction, type TokenAction } from '../../_lib/tokens';
+import type { PagesHandler } from '../../_lib/types';
+
+interface MintRequest {
+  uid?: unknown;
+  actions?: unknown;
+}
+
+const DEFAULT_ACTIONS: TokenAction[] = ['unsubscribe', 'feedback', 'preferences'];
+
+// Privacy links verify one data request and are only minted by /api/privacy/request
+function isMintableAction(value: unknown): value is TokenAction {
+  return isTokenAction(value) && value !== 'privacy';
+}
+
+export const onRequestPost: PagesHandler = async (context) => {
+  const { request, env } = context;
+
+  requireBearerToken(request, env.LINKS_API_TOKEN, 'LINKS_API_TOKEN');
+
+  const body = (context.data.body ?? {}) as MintRequest;
+  if (typeof body.uid !== 'string' || !validateUID(body.uid)) {
+    throw new HttpError('VALIDATION_FAILED', 'A valid uid is required', { fields: [{ path: 'uid', code: 'invalid_format', message: 'A valid uid is required' }] });
+  }
+  const actions = body.actions === undefined ? DEFAULT_ACTIONS : body.actions;
+  if (!Array.isArray(actions) || actions.length === 0 || !actions.every(isMintableAction)) {
+    throw new HttpError('VALIDATION_FAILED', 'actions must be a list of link actions', { fields: [{ path: 'actions', code: 'invalid_format', message: 'actions must be a list of link actions' }] });
+  }
+
+  const uid = body.uid;
+  const links = await Promise.all(actions.map(async action => [action, await mintLink(context, action, uid)] as const));
+
+  return json({ success: true, uid, links: Object.fromEntries(links) });
+};
@@ -0,0 +1,26 @@
+// Cloudflare Pages Function that checks a signed link before a page shows its form
+
+import { HttpError, json } from '../../_lib/http';
+import { requireLinkClaims } from '../../_lib/links';
+import { isTokenAction } from '../../_lib/tokens';
+import type { PagesHandler } from '../../_lib/types';
+
+interface VerifyRequest {
+  token?: unknown;
+  action?: unknown;
+}
+
+export const onRequestPost: PagesHandler = async (context) => {
+  const body = (context.data.body ?? {}) as VerifyRequest;
+  if (!isTokenAction(body.action)) {
+    throw new HttpError('VALIDATION_FAILED', 'Unknown link action', { fields: [{ path: 'action', code: 'invalid_format', message: 'Unknown link action' }] });
+  }
+
+  const claims = await requireLinkClaims(context, typeof body.token === 'string' ? body.token : '', body.action);
+  return json({
+    valid: true,
+    uid: claims.uid,
+    action: claims.action,
+    expiresAt: new Date(claims.exp * 1000).toISOString()
+  });
+};
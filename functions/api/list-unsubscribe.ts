@@ -0,0 +1,60 @@
+// Cloudflare Pages Function for RFC 8058 one-click unsubscribe
+// Mail clients POST `List-Unsubscribe=One-Click` (form-encoded) to the URL from the List-Unsubscribe
+// header, which carries a signed unsubscribe token. There is no page and no reasons form.
+
+import { queueEvent } from '../_lib/delivery';
+import { HttpError, json } from '../_lib/http';
+import { requireLinkClaims } from '../_lib/links';
+import { RegistrationIndex, storedEmail } from '../_lib/registrations';
+import { resubscribeLink } from '../_lib/resubscription';
+import { resolveStore } from '../_lib/storage';
+import { buildUnsubscribePayload } from '../_lib/submissions';
+import type { PagesHandler } from '../_lib/types';
+
+const ONE_CLICK_VALUE = 'One-Click';
+
+async function isOneClickRequest(request: Request): Promise<boolean> {
+  try {
+    const form = await request.formData();
+    return form.get('List-Unsubscribe') === ONE_CLICK_VALUE;
+  } catch {
+    return false;
+  }
+}
+
+export const onRequestPost: PagesHandler = async (context) => {
+  const { request, env } = context;
+  const token = new URL(request.url).searchParams.get('token') || '';
+
+  if (!await isOneClickRequest(request)) {
+    throw new HttpError('INVALID_BODY', 'Expected List-Unsubscribe=One-Click');
+  }
+
+  const { uid } = await requireLinkClaims(context, token, 'unsubscribe');
+  const registrations = new RegistrationIndex(resolveStore(env, 'SUBSCRIBERS'));
+  const record = await registrations.findByUid(uid);
+
+  // Mail clients may POST more than once; only the first unsubscribe is forwarded
+  if (record?.unsubscribedAt) {
+    console.log('One-click unsubscribe repeated:', { uid, unsubscribed_at: record.unsubscribedAt, timestamp: new Date().toISOString() });
+    return json({ success: true, message: 'Unsubscribed', uid, alreadyUnsubscribed: true });
+  }
+
+  // Same shape as a page unsubscribe from a signed link, so existing Zaps handle it unchanged
+  const payload = buildUnsubscribePayload({
+    email: storedEmail(record),
+    uid,
+    reasons: ['One-Click Unsubscribe'],
+    otherComment: '',
+    utm_source: null,
+    utm_medium: null,
+    utm_campaign: null
+  }, uid, { formData: null, variantName: 'list-unsubscribe', visitorData: {} });
+  const resubscribe = await resubscribeLink(context, record);
+  if (resubscribe) payload.resubscribe_url = resubscribe.url;
+  const items = await queueEvent(context, 'unsubscribe', payload);
+  if (record) await registrations.saveUnsubscribed(record, new Date().toISOString());
+
+  console.log('One-click unsubscribe accepted:', { uid, outbox_ids: items.map(item => item.id), timestamp: new Date().toISOString() });
+  return json({ success: true, message: 'Unsubscribed', uid, alreadyUnsubscribed: false });
+};
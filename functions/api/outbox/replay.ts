@@ -0,0 +1,37 @@
+// Cloudflare Pages Function for resending dead-lettered webhook deliveries, a batch per call
+// Protected by the OUTBOX_ADMIN_TOKEN secret (sent as a Bearer token)
+
+import { requireBearerToken } from '../../_lib/auth';
+import { createOutbox } from '../../_lib/delivery';
+import { json } from '../../_lib/http';
+import type { PagesHandler } from '../../_lib/types';
+
+interface ReplayRequest {
+  ids?: unknown;
+}
+
+export const onRequestPost: PagesHandler = async (context) => {
+  const { request, env } = context;
+
+  requireBearerToken(request, env.OUTBOX_ADMIN_TOKEN, 'OUTBOX_ADMIN_TOKEN');
+
+  const body = (context.data.body ?? {}) as ReplayRequest;
+  const ids = Array.isArray(body.ids) ? body.ids.filter((id): id is string => typeof id === 'string') : undefined;
+
+  const outbox = createOutbox(env);
+  const results = await outbox.replayDeadLetters(ids);
+  const delivered = results.filter(item => item.status === 'delivered').length;
+
+  console.log('Outbox replay finished:', {
+    replayed: results.length,
+    delivered,
+    timestamp: new Date().toISOString()
+  });
+
+  return json({
+    success: true,
+    replayed: results.length,
+    delivered,
+    items: results.map(({ id, event, status, attempts, lastError }) => ({ id, event, status, attempts, lastError }))
+  });
+};
@@ -0,0 +1,7 @@
+// Cloudflare Pages Function for pausing deliveries from the /unsubscribe page
+
+import { handlePause, readEnvelope } from '../_lib/submissions';
+import type { PagesHandler } from '../_lib/types';
+
+export const onRequestPost: PagesHandler = (context) =>
+  handlePause(context, readEnvelope(context.data.body));
@@ -0,0 +1,27 @@
+// Cloudflare Pages Function for birth location suggestions
+// GET /api/places?q=<text>[&limit=<1-10>] searches the bundled gazetteer (src/utils/gazetteer.ts).
+
+import { resolvePlace } from '../../src/utils/placeResolver';
+import { json } from '../_lib/http';
+import type { PagesHandler } from '../_lib/types';
+
+const MIN_QUERY_LENGTH = 2;
+const MAX_QUERY_LENGTH = 100;
+const DEFAULT_LIMIT = 5;
+const MAX_LIMIT = 10;
+
+// The index only changes with a deploy, so browsers and the edge may cache answers for a day
+const CACHE_HEADERS = { 'Cache-Control': 'public, max-age=86400' };
+
+export const onRequestGet: PagesHandler = async (context) => {
+  const params = new URL(context.request.url).searchParams;
+  const query = (params.get('q') || '').trim().slice(0, MAX_QUERY_LENGTH);
+  const requested = Number.parseInt(params.get('limit') || '', 10);
+  const limit = Number.isNaN(requested) ? DEFAULT_LIMIT : Math.min(Math.max(requested, 1), MAX_LIMIT);
+
+  if (query.length < MIN_QUERY_LENGTH) {
+    return json({ query, places: [] }, 200, CACHE_HEADERS);
+  }
+
+  return json({ query, places: resolvePlace(query, limit) }, 200, CACHE_HEADERS);
+};
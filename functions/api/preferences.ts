@@ -0,0 +1,11 @@
+// Cloudflare Pages Function for the /preferences page (preference center)
+// GET ?token= loads the subscriber's current settings; POST saves them as a preferences_update event.
+
+import { handlePreferencesLookup, handlePreferencesUpdate, readEnvelope } from '../_lib/submissions';
+import type { PagesHandler } from '../_lib/types';
+
+export const onRequestGet: PagesHandler = (context) =>
+  handlePreferencesLookup(context, new URL(context.request.url).searchParams.get('token') ?? '');
+
+export const onRequestPost: PagesHandler = (context) =>
+  handlePreferencesUpdate(context, readEnvelope(context.data.body));
@@ -0,0 +1,11 @@
+// Cloudflare Pages Function for data subject requests from the /privacy/request page
+// POST opens an export or erase request and emails its verification link;
+// GET ?token= reads the request behind a link without verifying it.
+
+import { handlePrivacyLookup, handlePrivacyRequest } from '../../_lib/privacyRequests';
+import type { PagesHandler } from '../../_lib/types';
+
+export const onRequestPost: PagesHandler = (context) => handlePrivacyRequest(context);
+
+export const onRequestGet: PagesHandler = (context) =>
+  handlePrivacyLookup(context, new URL(context.request.url).searchParams.get('token') ?? '');
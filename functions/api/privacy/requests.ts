@@ -0,0 +1,59 @@
+// Cloudflare Pages Function for tracking data subject requests
+// Protected by the PRIVACY_ADMIN_TOKEN secret (sent as a Bearer token)
+// GET lists the log (?status= filters it); POST { id, status, note } closes a request as completed or rejected.
+
+import { canTransition, isPrivacyRequestStatus } from '../../../src/utils/privacyLifecycle';
+import { requireBearerToken } from '../../_lib/auth';
+import { HttpError, json } from '../../_lib/http';
+import { privacyRequestLog } from '../../_lib/privacyRequests';
+import type { PagesHandler } from '../../_lib/types';
+
+interface UpdateRequest {
+  id?: unknown;
+  status?: unknown;
+  note?: unknown;
+}
+
+export const onRequestGet: PagesHandler = async (context) => {
+  const { request, env } = context;
+
+  requireBearerToken(request, env.PRIVACY_ADMIN_TOKEN, 'PRIVACY_ADMIN_TOKEN');
+
+  const status = new URL(request.url).searchParams.get('status') || undefined;
+  if (status !== undefined && !isPrivacyRequestStatus(status)) {
+    throw new HttpError('VALIDATION_FAILED', 'Unknown request status', { fields: [{ path: 'status', code: 'invalid_format', message: 'Unknown request status' }] });
+  }
+
+  const requests = await privacyRequestLog(env).list(status);
+  return json({ success: true, count: requests.length, requests });
+};
+
+export const onRequestPost: PagesHandler = async (context) => {
+  const { request, env } = context;
+
+  requireBearerToken(request, env.PRIVACY_ADMIN_TOKEN, 'PRIVACY_ADMIN_TOKEN');
+
+  const body = (context.data.body ?? {}) as UpdateRequest;
+  if (body.status !== 'completed' && body.status !== 'rejected') {
+    throw new HttpError('VALIDATION_FAILED', 'Requests can only be closed as completed or rejected', {
+      fields: [{ path: 'status', code: 'invalid_format', message: 'Use completed or rejected' }]
+    });
+  }
+
+  const log = privacyRequestLog(env);
+  const record = typeof body.id === 'string' ? await log.find(body.id) : null;
+  if (!record) {
+    throw new HttpError('NOT_FOUND', 'No privacy request with this id');
+  }
+  if (!canTransition(record.status, body.status)) {
+    throw new HttpError('VALIDATION_FAILED', `A ${record.status} request cannot be marked ${body.status}`, {
+      fields: [{ path: 'status', code: 'invalid_format', message: `A ${record.status} request cannot be marked ${body.status}` }]
+    });
+  }
+
+  const note = typeof body.note === 'string' ? body.note.trim().slice(0, 500) : '';
+  const updated = await log.transition(record, body.status, 'admin', note || undefined);
+
+  console.log('Privacy request closed:', { id: updated.id, type: updated.type, status: updated.status, timestamp: updated.updatedAt });
+  return json({ success: true, request: updated });
+};
@@ -0,0 +1,9 @@
+// Cloudflare Pages Function that verifies a data subject request from its emailed link
+
+import { handlePrivacyVerification } from '../../_lib/privacyRequests';
+import type { PagesHandler } from '../../_lib/types';
+
+export const onRequestPost: PagesHandler = (context) => {
+  const body = (context.data.body ?? {}) as { token?: unknown };
+  return handlePrivacyVerification(context, typeof body.token === 'string' ? body.token : '');
+};
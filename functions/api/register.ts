@@ -0,0 +1,7 @@
+// Cloudflare Pages Function for signup form submissions
+
+import { handleRegistration, readEnvelope } from '../_lib/submissions';
+import type { PagesHandler } from '../_lib/types';
+
+export const onRequestPost: PagesHandler = (context) =>
+  handleRegistration(context, readEnvelope(context.data.body));
@@ -0,0 +1,13 @@
+// Cloudflare Pages Function for the /resubscribe page (resubscribe links from goodbye emails)
+// GET ?token= reads the subscription behind the link; POST restores it as a resubscribe event.
+
+import { handleResubscribe, handleResubscribeLookup } from '../_lib/resubscription';
+import type { PagesHandler } from '../_lib/types';
+
+export const onRequestGet: PagesHandler = (context) =>
+  handleResubscribeLookup(context, new URL(context.request.url).searchParams.get('token') ?? '');
+
+export const onRequestPost: PagesHandler = (context) => {
+  const body = (context.data.body ?? {}) as { token?: unknown };
+  return handleResubscribe(context, typeof body.token === 'string' ? body.token : '');
+};
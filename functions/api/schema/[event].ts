@@ -0,0 +1,32 @@
+// Cloudflare Pages Function publishing the JSON Schema of an outbound event payload
+// GET /api/schema/<event>[?version=<form_version>]; the current version unless one is asked for.
+
+import { findEventSchema, toJsonSchema } from '../../_lib/eventSchemas';
+import { HttpError, json } from '../../_lib/http';
+import type { PagesHandler } from '../../_lib/types';
+
+// Schemas only change with a deploy
+const CACHE_HEADERS = { 'Cache-Control': 'public, max-age=3600' };
+
+export const onRequestGet: PagesHandler = async (context) => {
+  const event = String(context.params.event);
+  const schema = findEventSchema(event);
+  if (!schema) {
+    throw new HttpError('NOT_FOUND', `No payload schema for ${event} events`);
+  }
+
+  const url = new URL(context.request.url);
+  const requested = url.searchParams.get('version');
+  const version = requested
+    ? schema.versions.find(candidate => candidate.version === requested)
+    : schema.versions[schema.versions.length - 1];
+  if (!version) {
+    throw new HttpError('NOT_FOUND', `No version ${requested} of the ${event} payload schema`);
+  }
+
+  const id = new URL(`/api/schema/${event}?version=${version.version}`, url.origin).toString();
+  return json(toJsonSchema(schema, version, id), 200, {
+    ...CACHE_HEADERS,
+    'Content-Type': 'application/schema+json'
+  });
+};
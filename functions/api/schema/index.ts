@@ -0,0 +1,21 @@
+// Cloudflare Pages Function listing the outbound event payload schemas and their versions
+
+import { listEventSchemas } from '../../_lib/eventSchemas';
+import { json } from '../../_lib/http';
+import type { PagesHandler } from '../../_lib/types';
+
+export const onRequestGet: PagesHandler = async (context) => {
+  const origin = new URL(context.request.url).origin;
+  return json({
+    events: listEventSchemas().map(schema => ({
+      event: schema.event,
+      description: schema.description,
+      currentVersion: schema.versions[schema.versions.length - 1].version,
+      versions: schema.versions.map(({ version, summary }) => ({
+        version,
+        summary,
+        url: `${origin}/api/schema/${schema.event}?version=${version}`
+      }))
+    }))
+  }, 200, { 'Cache-Control': 'public, max-age=3600' });
+};
@@ -0,0 +1,9 @@
+// Cloudflare Pages Function for the "unpause now" links of paused subscriptions
+
+import { handleUnpause } from '../_lib/submissions';
+import type { PagesHandler } from '../_lib/types';
+
+export const onRequestPost: PagesHandler = (context) => {
+  const body = (context.data.body ?? {}) as { token?: unknown };
+  return handleUnpause(context, typeof body.token === 'string' ? body.token : '');
+};
@@ -0,0 +1,7 @@
+// Cloudflare Pages Function for unsubscribe requests from the /unsubscribe page
+
+import { handleUnsubscribe, readEnvelope } from '../_lib/submissions';
+import type { PagesHandler } from '../_lib/types';
+
+export const onRequestPost: PagesHandler = (context) =>
+  handleUnsubscribe(context, readEnvelope(context.data.body));
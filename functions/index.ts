@@ -0,0 +1,7 @@
+// Cloudflare Pages Function for the landing page (`/`)
+// Assigns the edge experiments (the A/B page variant) before the HTML is sent; see functions/_lib/variantAssignment.ts
+
+import type { PagesHandler } from './_lib/types';
+import { handleLandingPage } from './_lib/variantAssignment';
+
+export const onRequestGet: PagesHandler = (context) => handleLandingPage(context);
@@ -1,10 +1,15 @@
 import React from 'react';
 import { Routes, Route } from 'react-router-dom';
 import NotFound from './components/NotFound';
+import Preferences from './components/Preferences';
 import Privacy from './components/Privacy';
+import PrivacyRequest from './components/PrivacyRequest';
 import Terms from './components/Terms';
 import Unsubscribe from './components/Unsubscribe';
+import Unpause from './components/Unpause';
+import Resubscribe from './components/Resubscribe';
 import Feedback from './components/Feedback';
+import Confirm from './components/Confirm';
 import Variant0 from './components/variants/Variant0';
 import Variant1 from './components/variants/Variant1';
 import Variant2 from './components/variants/Variant2';
@@ -24,9 +29,14 @@ const App: React.FC = () => {
         
         {/* Static pages */}
         <Route path="/privacy" element={<Privacy />} />
+        <Route path="/privacy/request" element={<PrivacyRequest />} />
         <Route path="/terms" element={<Terms />} />
         <Route path="/unsubscribe" element={<Unsubscribe />} />
+        <Route path="/unpause" element={<Unpause />} />
+        <Route path="/resubscribe" element={<Resubscribe />} />
         <Route path="/feedback" element={<Feedback />} />
+        <Route path="/confirm" element={<Confirm />} />
+        <Route path="/preferences" element={<Preferences />} />
         
         {/* 404 */}
         <Route path="*" element={<NotFound />} />
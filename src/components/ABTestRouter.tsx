@@ -1,10 +1,10 @@
-import React, { useEffect, useState } from 'react';
-import { getUserVariant, type VariantType } from '../utils/abTesting';
+import React, { useEffect } from 'react';
 import { loadTrackingScripts } from '../utils/trackingLoader';
 import Variant0 from './variants/Variant0';
 import Variant1 from './variants/Variant1';
 import Variant2 from './variants/Variant2';
 import { useLogger } from '../hooks/useLogger';
+import { useExperiment } from '../hooks/useExperiment';
 
 // Type declaration for Clarity
 declare global {
@@ -14,43 +14,26 @@ declare global {
 }
 
 const ABTestRouter: React.FC = () => {
-  const [variant, setVariant] = useState<VariantType | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
+  // Assigned at the edge with the page (functions/index.ts), so the variant renders on first paint
+  const { value: variant } = useExperiment('landing_page');
   const { logInfo } = useLogger('ABTestRouter');
 
   useEffect(() => {
-    // Client-side only variant assignment to avoid hydration issues
-    const assignedVariant = getUserVariant();
-    setVariant(assignedVariant);
-    setIsLoading(false);
-    logInfo('variant_assigned', { variant: assignedVariant });
-
     // Load tracking scripts for main pages
     loadTrackingScripts();
+  }, []);
+
+  useEffect(() => {
+    logInfo('variant_assigned', { variant });
 
     // Track with Clarity if available (after loading)
-    setTimeout(() => {
+    const timer = setTimeout(() => {
       if (typeof window !== 'undefined' && window.clarity) {
-        window.clarity('set', 'ab_variant', assignedVariant);
+        window.clarity('set', 'ab_variant', variant);
       }
     }, 1000);
-  }, []);
-
-  // Loading state
-  if (isLoading) {
-    return (
-      <div className="min-h-screen bg-black flex items-center justify-center">
-        <div className="flex items-center space-x-3">
-          <img 
-            src="/Astropal_Logo.png" 
-            alt="Astropal Logo" 
-            className="w-8 h-8 animate-pulse"
-          />
-          <span className="font-mono text-white text-lg">ASTROPAL</span>
-        </div>
-      </div>
-    );
-  }
+    return () => clearTimeout(timer);
+  }, [logInfo, variant]);
 
   // Render the assigned variant
   switch (variant) {
@@ -0,0 +1,78 @@
+import { useEffect, useRef } from 'react';
+import { CHALLENGE_SITE_KEY } from '../hooks/useBotDefense';
+
+const SCRIPT_URL = 'https://challenges.cloudflare.com/turnstile/v0/api.js?render=explicit';
+
+let scriptPromise: Promise<void> | null = null;
+
+function loadTurnstile(): Promise<void> {
+  if (window.turnstile) return Promise.resolve();
+  if (!scriptPromise) {
+    scriptPromise = new Promise((resolve, reject) => {
+      const script = document.createElement('script');
+      script.src = SCRIPT_URL;
+      script.async = true;
+      script.onload = () => resolve();
+      script.onerror = () => {
+        scriptPromise = null;
+        reject(new Error('Failed to load challenge script'));
+      };
+      document.head.appendChild(script);
+    });
+  }
+  return scriptPromise;
+}
+
+interface ChallengeWidgetProps {
+  onToken: (token: string | null) => void;
+  // The script could not load; the form then submits without a token
+  onUnavailable: () => void;
+  // Changing it resets the widget for a fresh token
+  resetKey: number;
+  className?: string;
+}
+
+export default function ChallengeWidget({ onToken, onUnavailable, resetKey, className }: ChallengeWidgetProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const widgetIdRef = useRef<string | null>(null);
+  const onTokenRef = useRef(onToken);
+  onTokenRef.current = onToken;
+  const onUnavailableRef = useRef(onUnavailable);
+  onUnavailableRef.current = onUnavailable;
+
+  useEffect(() => {
+    if (!CHALLENGE_SITE_KEY) return;
+    let cancelled = false;
+
+    loadTurnstile()
+      .then(() => {
+        if (cancelled || !containerRef.current) return;
+        if (!window.turnstile) throw new Error('Challenge script loaded without its API');
+        widgetIdRef.current = window.turnstile.render(containerRef.current, {
+          sitekey: CHALLENGE_SITE_KEY as string,
+          theme: 'dark',
+          action: 'signup',
+          callback: token => onTokenRef.current(token),
+          'expired-callback': () => onTokenRef.current(null),
+          'error-callback': () => onTokenRef.current(null)
+        });
+      })
+      .catch(error => {
+        console.warn('Challenge widget unavailable:', error);
+        if (!cancelled) onUnavailableRef.current();
+      });
+
+    return () => {
+      cancelled = true;
+      if (widgetIdRef.current && window.turnstile) window.turnstile.remove(widgetIdRef.current);
+      widgetIdRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (resetKey > 0 && widgetIdRef.current && window.turnstile) window.turnstile.reset(widgetIdRef.current);
+  }, [resetKey]);
+
+  if (!CHALLENGE_SITE_KEY) return null;
+  return <div ref={containerRef} className={className} />;
+}
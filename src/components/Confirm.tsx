@@ -0,0 +1,131 @@
+import React, { useState, useEffect } from 'react';
+import { CheckCircle, XCircle, Clock, ArrowLeft } from 'lucide-react';
+import { useSearchParams } from 'react-router-dom';
+import TrackingFreeLayout from './TrackingFreeLayout';
+
+type ConfirmState = 'loading' | 'confirmed' | 'already_confirmed' | 'expired' | 'invalid' | 'error';
+
+const Confirm: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const [state, setState] = useState<ConfirmState>('loading');
+
+  // Redeem the token from the confirmation email as soon as the page opens
+  useEffect(() => {
+    const token = searchParams.get('token');
+    if (!token) {
+      setState('invalid');
+      return;
+    }
+
+    let cancelled = false;
+    const confirm = async () => {
+      try {
+        const response = await fetch('/api/confirm', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ token })
+        });
+        const result = await response.json().catch(() => ({}));
+        if (cancelled) return;
+
+        if (response.ok) {
+          setState(result.alreadyConfirmed ? 'already_confirmed' : 'confirmed');
+        } else if (result.reason === 'expired') {
+          setState('expired');
+        } else if (response.status === 400 || response.status === 404) {
+          setState('invalid');
+        } else {
+          setState('error');
+        }
+      } catch {
+        if (!cancelled) setState('error');
+      }
+    };
+
+    confirm();
+    return () => {
+      cancelled = true;
+    };
+  }, [searchParams]);
+
+  const content: Record<Exclude<ConfirmState, 'loading'>, { icon: React.ReactNode; title: string; message: string }> = {
+    confirmed: {
+      icon: <CheckCircle className="w-16 h-16 text-green-400" />,
+      title: 'Subscription Confirmed',
+      message: 'Thank you for confirming your email. Your personalized daily insights will start arriving tomorrow morning.'
+    },
+    already_confirmed: {
+      icon: <CheckCircle className="w-16 h-16 text-green-400" />,
+      title: 'Already Confirmed',
+      message: 'Your subscription is already active - there is nothing more to do.'
+    },
+    expired: {
+      icon: <Clock className="w-16 h-16 text-yellow-400" />,
+      title: 'Link Expired',
+      message: 'This confirmation link has expired. Contact support@astropal.io and we will send you a new one.'
+    },
+    invalid: {
+      icon: <XCircle className="w-16 h-16 text-red-400" />,
+      title: 'Invalid Link',
+      message: 'This confirmation link is not valid. Please use the link exactly as it appears in your email.'
+    },
+    error: {
+      icon: <XCircle className="w-16 h-16 text-red-400" />,
+      title: 'Something Went Wrong',
+      message: 'We could not confirm your subscription right now. Please try the link again in a few minutes.'
+    }
+  };
+
+  return (
+    <TrackingFreeLayout title="Confirm Subscription - Astropal">
+      <div className="bg-black text-white min-h-screen">
+        {/* Navigation */}
+        <nav className="fixed top-0 left-0 right-0 z-50 flex items-center justify-between p-6">
+          <div className="flex items-center space-x-2">
+            <img
+              src="/Astropal_Logo.png"
+              alt="Astropal Logo"
+              className="w-8 h-8"
+            />
+            <span className="font-mono text-base">ASTROPAL</span>
+          </div>
+          <a
+            href="/"
+            className="flex items-center space-x-2 text-gray-400 hover:text-white transition-colors"
+          >
+            <ArrowLeft size={16} />
+            <span className="text-sm">Back to Home</span>
+          </a>
+        </nav>
+
+        <div className="pt-24 pb-16 px-6">
+          <div className="max-w-2xl mx-auto text-center space-y-6">
+            {state === 'loading' ? (
+              <>
+                <div className="flex justify-center">
+                  <div className="w-12 h-12 border-2 border-gray-700 border-t-white rounded-full animate-spin" />
+                </div>
+                <p className="text-gray-400">Confirming your subscription...</p>
+              </>
+            ) : (
+              <>
+                <div className="flex justify-center">
+                  {content[state].icon}
+                </div>
+                <h1 className="text-3xl md:text-4xl font-light">{content[state].title}</h1>
+                <p className="text-gray-400">{content[state].message}</p>
+                <p className="text-xs text-gray-500">
+                  Questions? Contact <a href="mailto:support@astropal.io" className="text-gray-400 hover:text-white transition-colors">support@astropal.io</a>
+                </p>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </TrackingFreeLayout>
+  );
+};
+
+export default Confirm;
@@ -5,9 +5,13 @@ import { useLogger } from '../hooks/useLogger';
 interface EnhancedConfirmationProps {
   userEmail: string;
   variant?: string;
+  // Email was already registered - show a welcome-back message instead of a fresh signup
+  duplicate?: boolean;
+  // Double opt-in is on and the subscription still has to be confirmed from the inbox
+  pendingConfirmation?: boolean;
 }
 
-const EnhancedConfirmation: React.FC<EnhancedConfirmationProps> = ({ userEmail, variant = 'default' }) => {
+const EnhancedConfirmation: React.FC<EnhancedConfirmationProps> = ({ userEmail, variant = 'default', duplicate = false, pendingConfirmation = false }) => {
   const [copiedEmail, setCopiedEmail] = useState(false);
   const [showInstructions, setShowInstructions] = useState(false);
   const { logUserAction } = useLogger('EnhancedConfirmation');
@@ -118,9 +122,17 @@ const EnhancedConfirmation: React.FC<EnhancedConfirmationProps> = ({ userEmail,
           alt="Astropal Logo" 
           className="w-24 h-24 mx-auto mb-8"
         />
-        <h2 className={styles.heading}>Welcome to your cosmic journey!</h2>
+        <h2 className={styles.heading}>
+          {pendingConfirmation
+            ? 'Check your inbox to confirm'
+            : duplicate ? 'You\'re already on the list!' : 'Welcome to your cosmic journey!'}
+        </h2>
         <p className="text-gray-400 text-xl mb-8">
-          Your personalized daily insights are being prepared
+          {pendingConfirmation
+            ? 'We sent a confirmation link to the address below - click it to start your daily insights'
+            : duplicate
+              ? 'This email is already subscribed - your daily insights will keep arriving as before'
+              : 'Your personalized daily insights are being prepared'}
         </p>
         <div className="bg-gray-900/50 border border-gray-800 rounded-lg p-6 inline-flex items-center space-x-4 mb-12">
           <Mail className="w-6 h-6 text-gray-400" />
@@ -133,8 +145,12 @@ const EnhancedConfirmation: React.FC<EnhancedConfirmationProps> = ({ userEmail,
           <div className={styles.stepCircle}>
             <span className={styles.stepNum}>1</span>
           </div>
-          <h3 className="text-xl font-medium">Check your email</h3>
-          <p className="text-gray-400">Your first cosmic insights are on the way</p>
+          <h3 className="text-xl font-medium">{pendingConfirmation ? 'Confirm your email' : 'Check your email'}</h3>
+          <p className="text-gray-400">
+            {pendingConfirmation
+              ? 'Open the confirmation email and click the link within 7 days'
+              : 'Your first cosmic insights are on the way'}
+          </p>
         </div>
         <div className="space-y-4">
           <div className={styles.stepCircle}>
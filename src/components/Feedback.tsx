@@ -1,7 +1,9 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { Send, CheckCircle, ArrowLeft } from 'lucide-react';
-import { useSearchParams } from 'react-router-dom';
 import TrackingFreeLayout from './TrackingFreeLayout';
+import LinkStatusNotice from './LinkStatusNotice';
+import { useLinkToken } from '../hooks/useLinkToken';
+import { rateLimitMessage, readRetryAfter } from '../utils/visitorTracking';
 
 interface FeedbackData {
   email: string;
@@ -9,7 +11,6 @@ interface FeedbackData {
   dislikes: string[];
   likeOtherComment: string;
   dislikeOtherComment: string;
-  uid?: string;
 }
 
 const Feedback: React.FC = () => {
@@ -20,7 +21,8 @@ const Feedback: React.FC = () => {
     likeOtherComment: '',
     dislikeOtherComment: ''
   });
-  const [uid, setUid] = useState<string | null>(null);
+  const link = useLinkToken('feedback');
+  const uid = link.uid;
   const [isSubmitted, setIsSubmitted] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
@@ -51,18 +53,6 @@ const Feedback: React.FC = () => {
     'Other'
   ];
 
-  const [searchParams] = useSearchParams();
-  
-  // Extract UID from URL parameters using React Router
-  useEffect(() => {
-    const uidParam = searchParams.get('uid');
-    
-    if (uidParam) {
-      setUid(uidParam);
-      setFormData(prev => ({ ...prev, uid: uidParam }));
-    }
-  }, [searchParams]);
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
@@ -92,7 +82,7 @@ const Feedback: React.FC = () => {
 
     try {
       // Submit feedback with tags
-      const response = await fetch('/api/submit-form', {
+      const response = await fetch('/api/feedback', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -100,8 +90,8 @@ const Feedback: React.FC = () => {
         body: JSON.stringify({
           formData: { 
             ...formData, 
-            email: uid ? 'feedback-by-uid' : formData.email,
-            uid: uid,
+            email: link.token ? 'feedback-by-uid' : formData.email,
+            token: link.token,
             action: 'feedback',
             likes_json: JSON.stringify(formData.likes),
             dislikes_json: JSON.stringify(formData.dislikes)
@@ -117,6 +107,11 @@ const Feedback: React.FC = () => {
         })
       });
 
+      if (response.status === 429) {
+        setError(rateLimitMessage(readRetryAfter(response)));
+        return;
+      }
+
       if (!response.ok) {
         throw new Error('Failed to submit feedback');
       }
@@ -168,7 +163,13 @@ const Feedback: React.FC = () => {
 
         <div className="pt-24 pb-16 px-6">
           <div className="max-w-2xl mx-auto">
-            {isSubmitted ? (
+            {link.state === 'checking' ? (
+              <div className="flex justify-center py-24">
+                <div className="w-12 h-12 border-2 border-gray-700 border-t-white rounded-full animate-spin" />
+              </div>
+            ) : link.state === 'expired' || link.state === 'invalid' || link.state === 'error' ? (
+              <LinkStatusNotice state={link.state} onUseEmail={link.continueWithEmail} />
+            ) : isSubmitted ? (
               // Success State - Confirmation Window
               <div className="text-center space-y-6">
                 <div className="flex justify-center">
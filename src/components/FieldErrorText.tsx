@@ -0,0 +1,12 @@
+interface FieldErrorTextProps {
+  message?: string;
+  className?: string;
+}
+
+/**
+ * Inline error under a form field; renders nothing while the field is valid
+ */
+export default function FieldErrorText({ message, className = 'mt-1 text-xs text-amber-400' }: FieldErrorTextProps) {
+  if (!message) return null;
+  return <p role="alert" className={className}>{message}</p>;
+}
@@ -0,0 +1,22 @@
+interface HoneypotFieldProps {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+// Off-screen field that people never see or reach by keyboard; bots that fill every input do
+export default function HoneypotField({ value, onChange }: HoneypotFieldProps) {
+  return (
+    <div aria-hidden="true" style={{ position: 'absolute', left: '-10000px', top: 'auto', width: '1px', height: '1px', overflow: 'hidden' }}>
+      <label htmlFor="company_website">Company website</label>
+      <input
+        type="text"
+        id="company_website"
+        name="company_website"
+        tabIndex={-1}
+        autoComplete="off"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import React from 'react';
+import { XCircle, Clock } from 'lucide-react';
+import type { LinkState } from '../hooks/useLinkToken';
+
+interface LinkStatusNoticeProps {
+  state: Extract<LinkState, 'expired' | 'invalid' | 'error'>;
+  onUseEmail: () => void;
+}
+
+const messages: Record<LinkStatusNoticeProps['state'], { title: string; message: string }> = {
+  expired: {
+    title: 'This Link Has Expired',
+    message: 'For your security, email links only work for a limited time. Use the link from a more recent email, or continue with your email address.'
+  },
+  invalid: {
+    title: 'This Link Is Not Valid',
+    message: 'The link may have been cut off or changed. Copy it exactly as it appears in your email, or continue with your email address.'
+  },
+  error: {
+    title: 'We Could Not Check This Link',
+    message: 'Something went wrong on our side. Please try again in a few minutes, or continue with your email address.'
+  }
+};
+
+// Shown instead of a service page's form when its ?token= link does not check out
+const LinkStatusNotice: React.FC<LinkStatusNoticeProps> = ({ state, onUseEmail }) => (
+  <div className="text-center space-y-6">
+    <div className="flex justify-center">
+      {state === 'expired'
+        ? <Clock className="w-16 h-16 text-yellow-400" />
+        : <XCircle className="w-16 h-16 text-red-400" />}
+    </div>
+    <h1 className="text-3xl md:text-4xl font-light">{messages[state].title}</h1>
+    <p className="text-gray-400 max-w-lg mx-auto">{messages[state].message}</p>
+    <button
+      type="button"
+      onClick={onUseEmail}
+      className="px-8 py-3 bg-white text-black hover:bg-gray-200 transition-colors font-medium"
+    >
+      CONTINUE WITH EMAIL
+    </button>
+    <p className="text-xs text-gray-500">
+      Questions? Contact <a href="mailto:support@astropal.io" className="text-gray-400 hover:text-white transition-colors">support@astropal.io</a>
+    </p>
+  </div>
+);
+
+export default LinkStatusNotice;
@@ -0,0 +1,142 @@
+import { useEffect, useId, useRef, useState, type KeyboardEvent } from 'react';
+import { searchPlaces, type PlaceSuggestion } from '../utils/placeSearch';
+
+const SEARCH_DELAY_MS = 200;
+const MIN_QUERY_LENGTH = 2;
+
+interface PlaceComboboxProps {
+  value: string;
+  /** Typed text; the previously picked place no longer applies */
+  onChange: (text: string) => void;
+  /** Picked suggestion, or null once the text is edited again */
+  onSelect: (place: PlaceSuggestion | null) => void;
+  label: string;
+  inputClassName: string;
+  placeholder?: string;
+  required?: boolean;
+  /** Marks the input invalid for assistive technology while an error is shown for it */
+  invalid?: boolean;
+}
+
+/**
+ * Birth location input with suggestions, following the WAI-ARIA combobox pattern:
+ * arrow keys move through the list, Enter picks, Escape closes, and the result count is announced
+ */
+export default function PlaceCombobox({ value, onChange, onSelect, label, inputClassName, placeholder, required, invalid }: PlaceComboboxProps) {
+  const listId = useId();
+  const [suggestions, setSuggestions] = useState<PlaceSuggestion[]>([]);
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [query, setQuery] = useState('');
+  const requestRef = useRef<AbortController | null>(null);
+
+  // Look up suggestions shortly after typing stops; a newer query cancels the one in flight
+  useEffect(() => {
+    if (query.trim().length < MIN_QUERY_LENGTH) {
+      setSuggestions([]);
+      return;
+    }
+    const timer = window.setTimeout(async () => {
+      requestRef.current?.abort();
+      const controller = new AbortController();
+      requestRef.current = controller;
+      const places = await searchPlaces(query.trim(), controller.signal);
+      if (controller.signal.aborted) return;
+      setSuggestions(places);
+      setActiveIndex(-1);
+      setOpen(true);
+    }, SEARCH_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [query]);
+
+  useEffect(() => () => requestRef.current?.abort(), []);
+
+  const handleInput = (text: string) => {
+    onChange(text);
+    onSelect(null);
+    setQuery(text);
+  };
+
+  const pick = (place: PlaceSuggestion) => {
+    onChange(place.label);
+    onSelect(place);
+    setOpen(false);
+    setSuggestions([]);
+    setActiveIndex(-1);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' && suggestions.length > 0) {
+      e.preventDefault();
+      setOpen(true);
+      setActiveIndex(index => (index + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp' && suggestions.length > 0) {
+      e.preventDefault();
+      setOpen(true);
+      setActiveIndex(index => (index <= 0 ? suggestions.length - 1 : index - 1));
+    } else if (e.key === 'Enter' && open && activeIndex >= 0) {
+      e.preventDefault();
+      pick(suggestions[activeIndex]);
+    } else if (e.key === 'Escape' && open) {
+      e.preventDefault();
+      setOpen(false);
+      setActiveIndex(-1);
+    }
+  };
+
+  const expanded = open && suggestions.length > 0;
+  const optionId = (index: number) => `${listId}-option-${index}`;
+
+  return (
+    <div className="relative">
+      <input
+        type="text"
+        role="combobox"
+        aria-label={label}
+        aria-autocomplete="list"
+        aria-expanded={expanded}
+        aria-controls={listId}
+        aria-activedescendant={expanded && activeIndex >= 0 ? optionId(activeIndex) : undefined}
+        aria-invalid={invalid || undefined}
+        autoComplete="off"
+        value={value}
+        onChange={(e) => handleInput(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onFocus={() => suggestions.length > 0 && setOpen(true)}
+        onBlur={() => setOpen(false)}
+        className={inputClassName}
+        placeholder={placeholder}
+        required={required}
+      />
+      <ul
+        id={listId}
+        role="listbox"
+        aria-label={`${label} suggestions`}
+        hidden={!expanded}
+        className="absolute z-20 mt-1 w-full max-h-60 overflow-auto rounded-md border border-gray-700 bg-gray-900 shadow-lg"
+      >
+        {suggestions.map((place, index) => (
+          <li
+            key={place.id}
+            id={optionId(index)}
+            role="option"
+            aria-selected={index === activeIndex}
+            // Keep focus in the input so the blur handler does not close the list before the click lands
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => pick(place)}
+            onMouseEnter={() => setActiveIndex(index)}
+            className={`cursor-pointer px-3 py-2 text-sm ${index === activeIndex ? 'bg-purple-600/30 text-white' : 'text-gray-300'}`}
+          >
+            <span>{place.name}</span>
+            <span className="block text-xs text-gray-500">{place.label}</span>
+          </li>
+        ))}
+      </ul>
+      <span className="sr-only" role="status" aria-live="polite">
+        {open && query.trim().length >= MIN_QUERY_LENGTH
+          ? `${suggestions.length} ${suggestions.length === 1 ? 'suggestion' : 'suggestions'} available`
+          : ''}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,345 @@
+import React, { useState, useEffect } from 'react';
+import { CheckCircle, XCircle, Clock, ArrowLeft } from 'lucide-react';
+import { useSearchParams } from 'react-router-dom';
+import TrackingFreeLayout from './TrackingFreeLayout';
+import FieldErrorText from './FieldErrorText';
+import { parseApiError } from '../utils/apiErrors';
+import { LIFE_FOCUS_OPTIONS, PRACTICE_OPTIONS, TIME_ZONE_OPTIONS } from '../utils/formOptions';
+import { fieldErrorMap, type FieldErrors } from '../utils/formValidation';
+import { MAX_SELECTIONS, parsePreferences, type PreferencesData } from '../utils/submissionSchema';
+import { rateLimitMessage, readRetryAfter } from '../utils/visitorTracking';
+
+type PageState = 'loading' | 'ready' | 'saved' | 'expired' | 'invalid' | 'error';
+
+const detectedTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// Subscribers from before the preference center have nothing stored; start them from the signup defaults
+const defaultPreferences: PreferencesData = {
+  fullName: '',
+  practices: [],
+  lifeFocus: [],
+  dayStartTime: '07:00',
+  timeZone: detectedTimeZone
+};
+
+const notices: Record<'expired' | 'invalid' | 'error', { icon: React.ReactNode; title: string; message: string }> = {
+  expired: {
+    icon: <Clock className="w-16 h-16 text-yellow-400" />,
+    title: 'This Link Has Expired',
+    message: 'For your security, email links only work for a limited time. Use the preferences link from a more recent email.'
+  },
+  invalid: {
+    icon: <XCircle className="w-16 h-16 text-red-400" />,
+    title: 'This Link Is Not Valid',
+    message: 'The link may have been cut off or changed. Copy it exactly as it appears in your email.'
+  },
+  error: {
+    icon: <XCircle className="w-16 h-16 text-red-400" />,
+    title: 'We Could Not Load Your Preferences',
+    message: 'Something went wrong on our side. Please try the link again in a few minutes.'
+  }
+};
+
+const Preferences: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const [state, setState] = useState<PageState>('loading');
+  const [formData, setFormData] = useState<PreferencesData>(defaultPreferences);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  // Load the stored settings; the link is the only way in, so there is no email fallback
+  useEffect(() => {
+    if (!token) {
+      setState('invalid');
+      return;
+    }
+
+    let cancelled = false;
+    setState('loading');
+    const load = async () => {
+      try {
+        const response = await fetch(`/api/preferences?token=${encodeURIComponent(token)}`);
+        const result = await response.json().catch(() => ({}));
+        if (cancelled) return;
+
+        if (response.ok) {
+          setFormData(result.preferences ? { ...defaultPreferences, ...result.preferences } : defaultPreferences);
+          setState('ready');
+        } else if (result.reason === 'expired') {
+          setState('expired');
+        } else if (response.status === 400 || response.status === 404) {
+          setState('invalid');
+        } else {
+          setState('error');
+        }
+      } catch {
+        if (!cancelled) setState('error');
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  const updateField = <K extends keyof PreferencesData>(field: K, value: PreferencesData[K]) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    setFieldErrors(prev => ({ ...prev, [field]: undefined }));
+  };
+
+  const toggle = (field: 'practices' | 'lifeFocus', option: string) => {
+    const current = formData[field];
+    updateField(field, current.includes(option) ? current.filter(item => item !== option) : [...current, option]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    // The name is only kept while Numerology needs it
+    const needsFullName = formData.practices.includes('Numerology');
+    const parsed = parsePreferences(needsFullName ? formData : { ...formData, fullName: '' });
+    if (!parsed.success) {
+      setFieldErrors(fieldErrorMap(parsed.errors));
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await fetch('/api/preferences', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          formData: { ...parsed.data, token },
+          variantName: 'preferences',
+          visitorData: {
+            timestamp: new Date().toISOString(),
+            action: 'preferences_update',
+            user_agent: navigator.userAgent,
+            timezone: detectedTimeZone
+          }
+        })
+      });
+
+      if (response.status === 429) {
+        setError(rateLimitMessage(readRetryAfter(response)));
+        return;
+      }
+
+      if (!response.ok) {
+        const result = await response.json().catch(() => null);
+        const body = parseApiError(response.status, result);
+        if (body.code === 'INVALID_TOKEN' || body.code === 'NOT_FOUND') {
+          setState(result?.reason === 'expired' ? 'expired' : 'invalid');
+          return;
+        }
+        const errors = fieldErrorMap((body.fields ?? []).map(({ path, message }) => ({ field: path.replace(/^formData\./, ''), message })));
+        if (Object.keys(errors).length > 0) {
+          setFieldErrors(errors);
+          return;
+        }
+        throw new Error(body.message);
+      }
+
+      setState('saved');
+    } catch {
+      setError('We could not save your preferences right now. Please try again or contact support@astropal.io');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderOptions = (field: 'practices' | 'lifeFocus', options: string[]) => (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+      {options.map(option => {
+        const checked = formData[field].includes(option);
+        return (
+          <button
+            key={option}
+            type="button"
+            aria-pressed={checked}
+            onClick={() => toggle(field, option)}
+            disabled={isSaving || (!checked && formData[field].length >= MAX_SELECTIONS)}
+            className={`p-3 text-sm text-left border rounded-lg transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${
+              checked
+                ? 'bg-purple-600/30 text-white border-purple-400'
+                : 'bg-transparent text-gray-300 border-gray-800 hover:border-gray-600 hover:bg-gray-900'
+            }`}
+          >
+            {option}
+          </button>
+        );
+      })}
+    </div>
+  );
+
+  return (
+    <TrackingFreeLayout title="Email Preferences - Astropal">
+      <div className="bg-black text-white min-h-screen">
+        {/* Navigation */}
+        <nav className="fixed top-0 left-0 right-0 z-50 flex items-center justify-between p-6">
+          <div className="flex items-center space-x-2">
+            <img
+              src="/Astropal_Logo.png"
+              alt="Astropal Logo"
+              className="w-8 h-8"
+            />
+            <span className="font-mono text-base">ASTROPAL</span>
+          </div>
+          <a
+            href="/"
+            className="flex items-center space-x-2 text-gray-400 hover:text-white transition-colors"
+          >
+            <ArrowLeft size={16} />
+            <span className="text-sm">Back to Home</span>
+          </a>
+        </nav>
+
+        <div className="pt-24 pb-16 px-6">
+          <div className="max-w-2xl mx-auto">
+            {state === 'loading' ? (
+              <div className="flex justify-center py-24">
+                <div className="w-12 h-12 border-2 border-gray-700 border-t-white rounded-full animate-spin" />
+              </div>
+            ) : state === 'expired' || state === 'invalid' || state === 'error' ? (
+              <div className="text-center space-y-6">
+                <div className="flex justify-center">
+                  {notices[state].icon}
+                </div>
+                <h1 className="text-3xl md:text-4xl font-light">{notices[state].title}</h1>
+                <p className="text-gray-400 max-w-lg mx-auto">{notices[state].message}</p>
+                <p className="text-xs text-gray-500">
+                  Questions? Contact <a href="mailto:support@astropal.io" className="text-gray-400 hover:text-white transition-colors">support@astropal.io</a>
+                </p>
+              </div>
+            ) : state === 'saved' ? (
+              <div className="text-center space-y-6">
+                <div className="flex justify-center">
+                  <CheckCircle className="w-16 h-16 text-green-400" />
+                </div>
+                <h1 className="text-3xl md:text-4xl font-light">Preferences Saved</h1>
+                <p className="text-gray-400">Your next cosmic insights will follow your new settings. Changes can take up to 24 hours to apply.</p>
+                <button
+                  type="button"
+                  onClick={() => setState('ready')}
+                  className="px-8 py-3 border border-gray-700 text-white hover:border-white transition-colors font-medium"
+                >
+                  EDIT AGAIN
+                </button>
+              </div>
+            ) : (
+              // Preferences Form
+              <>
+                <div className="text-center mb-12">
+                  <h1 className="text-3xl md:text-4xl font-light mb-4">Your Cosmic Preferences</h1>
+                  <p className="text-gray-400 max-w-lg mx-auto">
+                    Choose what your daily insights focus on and when they arrive.
+                  </p>
+                </div>
+
+                <form onSubmit={handleSubmit} className="space-y-10" noValidate>
+                  <div className="grid sm:grid-cols-2 gap-6">
+                    <div>
+                      <label htmlFor="preferences-time-zone" className="block text-xs text-gray-400 mb-2">TIME ZONE</label>
+                      <select
+                        id="preferences-time-zone"
+                        value={formData.timeZone}
+                        aria-invalid={!!fieldErrors.timeZone}
+                        onChange={(e) => updateField('timeZone', e.target.value)}
+                        className="w-full bg-transparent border-b border-gray-800 pb-2 text-white focus:border-white focus:outline-none text-sm appearance-none [color-scheme:dark]"
+                        disabled={isSaving}
+                      >
+                        <option value={detectedTimeZone} className="bg-gray-900">Auto-detected</option>
+                        {/* Keep a stored zone selectable even when it is not one of the listed ones */}
+                        {formData.timeZone !== detectedTimeZone && !TIME_ZONE_OPTIONS.some(option => option.value === formData.timeZone) && (
+                          <option value={formData.timeZone} className="bg-gray-900">{formData.timeZone || 'Not set'}</option>
+                        )}
+                        {TIME_ZONE_OPTIONS.map(option => (
+                          <option key={option.value} value={option.value} className="bg-gray-900">{option.label}</option>
+                        ))}
+                      </select>
+                      <FieldErrorText message={fieldErrors.timeZone} />
+                    </div>
+
+                    <div>
+                      <label htmlFor="preferences-day-start" className="block text-xs text-gray-400 mb-2">DAY START TIME</label>
+                      <input
+                        id="preferences-day-start"
+                        type="time"
+                        value={formData.dayStartTime}
+                        aria-invalid={!!fieldErrors.dayStartTime}
+                        onChange={(e) => updateField('dayStartTime', e.target.value)}
+                        className="w-full bg-transparent border-b border-gray-800 pb-2 text-white focus:border-white focus:outline-none text-sm [color-scheme:dark]"
+                        disabled={isSaving}
+                      />
+                      <FieldErrorText message={fieldErrors.dayStartTime} />
+                    </div>
+                  </div>
+
+                  <div>
+                    <div className="flex items-center justify-between mb-4">
+                      <h2 className="text-xs text-gray-400">COSMIC PRACTICES</h2>
+                      <p className="text-xs text-gray-600">Select up to {MAX_SELECTIONS} ({formData.practices.length}/{MAX_SELECTIONS})</p>
+                    </div>
+                    {renderOptions('practices', PRACTICE_OPTIONS)}
+                    <FieldErrorText message={fieldErrors.practices} className="mt-2 text-xs text-amber-400" />
+                  </div>
+
+                  {formData.practices.includes('Numerology') && (
+                    <div>
+                      <label htmlFor="preferences-full-name" className="block text-xs text-gray-400 mb-2">FULL NAME</label>
+                      <input
+                        id="preferences-full-name"
+                        type="text"
+                        value={formData.fullName}
+                        aria-invalid={!!fieldErrors.fullName}
+                        onChange={(e) => updateField('fullName', e.target.value)}
+                        className="w-full bg-transparent border-b border-gray-800 pb-2 text-white focus:border-white focus:outline-none text-sm"
+                        placeholder="Your complete legal name, for accurate Numerology"
+                        disabled={isSaving}
+                        required
+                      />
+                      <FieldErrorText message={fieldErrors.fullName} />
+                    </div>
+                  )}
+
+                  <div>
+                    <div className="flex items-center justify-between mb-4">
+                      <h2 className="text-xs text-gray-400">LIFE FOCUS</h2>
+                      <p className="text-xs text-gray-600">Select up to {MAX_SELECTIONS} ({formData.lifeFocus.length}/{MAX_SELECTIONS})</p>
+                    </div>
+                    {renderOptions('lifeFocus', LIFE_FOCUS_OPTIONS)}
+                    <FieldErrorText message={fieldErrors.lifeFocus} className="mt-2 text-xs text-amber-400" />
+                  </div>
+
+                  {error && (
+                    <div className="bg-red-900/30 border border-red-800 rounded-lg p-4">
+                      <p className="text-red-400 text-sm">{error}</p>
+                    </div>
+                  )}
+
+                  <div className="text-center">
+                    <button
+                      type="submit"
+                      disabled={isSaving}
+                      className="px-8 py-3 bg-white text-black hover:bg-gray-200 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isSaving ? 'SAVING...' : 'SAVE PREFERENCES'}
+                    </button>
+                  </div>
+                </form>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </TrackingFreeLayout>
+  );
+};
+
+export default Preferences;
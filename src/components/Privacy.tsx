@@ -64,6 +64,13 @@ const Privacy: React.FC = () => {
                 <li>Modify delivery preferences and content types</li>
                 <li>GDPR and CCPA rights for eligible residents</li>
               </ul>
+              <p className="mt-4">
+                To export or delete your data,{' '}
+                <a href="/privacy/request" className="text-gray-400 hover:text-white transition-colors underline">
+                  submit a privacy request
+                </a>
+                . We verify every request by email before acting on it.
+              </p>
             </section>
 
             <section>
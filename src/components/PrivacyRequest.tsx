@@ -0,0 +1,374 @@
+import React, { useState, useEffect } from 'react';
+import { Mail, CheckCircle, ArrowLeft, Download, Trash2, ShieldCheck } from 'lucide-react';
+import { useSearchParams } from 'react-router-dom';
+import TrackingFreeLayout from './TrackingFreeLayout';
+import LinkStatusNotice from './LinkStatusNotice';
+import FieldErrorText from './FieldErrorText';
+import { parseApiError } from '../utils/apiErrors';
+import type { PrivacyRequestStatus, PrivacyRequestType } from '../utils/privacyLifecycle';
+import { rateLimitMessage, readRetryAfter } from '../utils/visitorTracking';
+
+interface PrivacyRequestSummary {
+  id: string;
+  type: PrivacyRequestType;
+  status: PrivacyRequestStatus;
+  createdAt: string;
+}
+
+// Without a token the page opens a request; with one it verifies the request the link was sent for
+type PageState =
+  | 'form' | 'sent'
+  | 'checking' | 'ready' | 'verifying' | 'verified' | 'already_verified'
+  | 'expired' | 'invalid' | 'error';
+
+const requestTypes: { type: PrivacyRequestType; icon: React.ReactNode; title: string; description: string }[] = [
+  {
+    type: 'export',
+    icon: <Download className="w-5 h-5" />,
+    title: 'Export my data',
+    description: 'Receive a copy of the personal data we hold about you in a portable format.'
+  },
+  {
+    type: 'erase',
+    icon: <Trash2 className="w-5 h-5" />,
+    title: 'Delete my data',
+    description: 'Unsubscribe you and permanently delete your personal data. This cannot be undone.'
+  }
+];
+
+// Request the link from the emailed verification message points at, without verifying it
+async function lookupRequest(token: string): Promise<{ state: PageState; request?: PrivacyRequestSummary }> {
+  try {
+    const response = await fetch(`/api/privacy/request?token=${encodeURIComponent(token)}`);
+    const result = await response.json().catch(() => ({}));
+    if (response.ok && result.request) {
+      const request = result.request as PrivacyRequestSummary;
+      const open = request.status === 'awaiting_verification' || request.status === 'verified';
+      return { state: open ? 'ready' : 'already_verified', request };
+    }
+    if (result.reason === 'expired') return { state: 'expired' };
+    if (response.status === 400 || response.status === 404) return { state: 'invalid' };
+    return { state: 'error' };
+  } catch {
+    return { state: 'error' };
+  }
+}
+
+const PrivacyRequest: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const [state, setState] = useState<PageState>(token ? 'checking' : 'form');
+  const [request, setRequest] = useState<PrivacyRequestSummary | null>(null);
+  const [email, setEmail] = useState('');
+  const [type, setType] = useState<PrivacyRequestType | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  // Read the request behind the link; verifying it waits for the subscriber's click
+  useEffect(() => {
+    setRequest(null);
+    setError('');
+    if (!token) {
+      setState('form');
+      return;
+    }
+
+    let cancelled = false;
+    setState('checking');
+    lookupRequest(token).then(result => {
+      if (cancelled) return;
+      setState(result.state);
+      setRequest(result.request ?? null);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setFieldErrors({});
+
+    if (!email) {
+      setFieldErrors({ email: 'Please enter your email address' });
+      return;
+    }
+    if (!type) {
+      setFieldErrors({ type: 'Please choose what you would like us to do' });
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/privacy/request', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ formData: { email, type } })
+      });
+
+      if (response.status === 429) {
+        setError(rateLimitMessage(readRetryAfter(response)));
+        return;
+      }
+
+      if (!response.ok) {
+        const body = parseApiError(response.status, await response.json().catch(() => null));
+        const fields = Object.fromEntries((body.fields ?? []).map(({ path, message }) => [path.replace(/^formData\./, ''), message]));
+        if (Object.keys(fields).length > 0) {
+          setFieldErrors(fields);
+          return;
+        }
+        throw new Error(body.message);
+      }
+
+      setState('sent');
+    } catch {
+      setError('We could not send your request right now. Please try again or contact support@astropal.io');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleVerify = async () => {
+    if (!token) return;
+    setError('');
+    setState('verifying');
+    try {
+      const response = await fetch('/api/privacy/verify', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ token })
+      });
+      const result = await response.json().catch(() => ({}));
+
+      if (response.ok) {
+        setRequest(result.request ?? request);
+        setState(result.alreadyVerified ? 'already_verified' : 'verified');
+      } else if (result.reason === 'expired') {
+        setState('expired');
+      } else if (response.status === 400 || response.status === 404) {
+        setState('invalid');
+      } else {
+        setState('ready');
+        setError('We could not verify your request right now. Please try again in a few minutes.');
+      }
+    } catch {
+      setState('ready');
+      setError('We could not verify your request right now. Please try again in a few minutes.');
+    }
+  };
+
+  const startOver = () => setSearchParams({});
+
+  const isErase = request?.type === 'erase';
+
+  return (
+    <TrackingFreeLayout title="Privacy Request - Astropal">
+      <div className="bg-black text-white min-h-screen">
+        {/* Navigation */}
+        <nav className="fixed top-0 left-0 right-0 z-50 flex items-center justify-between p-6">
+          <div className="flex items-center space-x-2">
+            <img
+              src="/Astropal_Logo.png"
+              alt="Astropal Logo"
+              className="w-8 h-8"
+            />
+            <span className="font-mono text-base">ASTROPAL</span>
+          </div>
+          <a
+            href="/privacy"
+            className="flex items-center space-x-2 text-gray-400 hover:text-white transition-colors"
+          >
+            <ArrowLeft size={16} />
+            <span className="text-sm">Back to Privacy Policy</span>
+          </a>
+        </nav>
+
+        <div className="pt-24 pb-16 px-6">
+          <div className="max-w-2xl mx-auto">
+            {state === 'checking' || state === 'verifying' ? (
+              <div className="flex flex-col items-center py-24 space-y-6">
+                <div className="w-12 h-12 border-2 border-gray-700 border-t-white rounded-full animate-spin" />
+                {state === 'verifying' && <p className="text-gray-400">Verifying your request...</p>}
+              </div>
+            ) : state === 'expired' || state === 'invalid' || state === 'error' ? (
+              <LinkStatusNotice state={state} onUseEmail={startOver} />
+            ) : state === 'sent' ? (
+              <div className="text-center space-y-6">
+                <div className="flex justify-center">
+                  <Mail className="w-16 h-16 text-green-400" />
+                </div>
+                <h1 className="text-3xl md:text-4xl font-light">Check Your Inbox</h1>
+                <div className="space-y-4 text-gray-400">
+                  <p>If {email} is subscribed to Astropal, we have sent it a link to verify your request.</p>
+                  <p>The link works for 24 hours. Nothing happens to your data until you open it and confirm.</p>
+                </div>
+                <p className="text-xs text-gray-500">
+                  Questions? Contact <a href="mailto:support@astropal.io" className="text-gray-400 hover:text-white transition-colors">support@astropal.io</a>
+                </p>
+              </div>
+            ) : state === 'verified' || state === 'already_verified' ? (
+              <div className="text-center space-y-6">
+                <div className="flex justify-center">
+                  <CheckCircle className="w-16 h-16 text-green-400" />
+                </div>
+                <h1 className="text-3xl md:text-4xl font-light">
+                  {state === 'verified' ? 'Request Verified' : 'Already Verified'}
+                </h1>
+                <div className="space-y-4 text-gray-400">
+                  {request?.status === 'rejected' ? (
+                    <p>This request was closed without changes. Contact support@astropal.io if you believe this is a mistake.</p>
+                  ) : request?.status === 'completed' ? (
+                    <p>This request has been completed. Check your inbox for our confirmation.</p>
+                  ) : isErase ? (
+                    <p>We are deleting your personal data. You will not receive any more emails from us, and we will confirm by email once every copy is gone.</p>
+                  ) : (
+                    <p>We are preparing a copy of your data and will email it to you once it is ready.</p>
+                  )}
+                  <p>Requests are completed within 30 days, usually much sooner.</p>
+                </div>
+                {request && (
+                  <p className="text-xs text-gray-500">Reference: {request.id}</p>
+                )}
+                <p className="text-xs text-gray-500">
+                  Questions? Contact <a href="mailto:support@astropal.io" className="text-gray-400 hover:text-white transition-colors">support@astropal.io</a>
+                </p>
+              </div>
+            ) : state === 'ready' && request ? (
+              <div className="text-center space-y-6">
+                <div className="flex justify-center">
+                  <ShieldCheck className="w-16 h-16 text-white" />
+                </div>
+                <h1 className="text-3xl md:text-4xl font-light">
+                  {isErase ? 'Confirm Data Deletion' : 'Confirm Data Export'}
+                </h1>
+                <p className="text-gray-400 max-w-lg mx-auto">
+                  {isErase
+                    ? 'Confirm that you want us to delete the personal data we hold about you.'
+                    : 'Confirm that you want a copy of the personal data we hold about you.'}
+                </p>
+                {isErase && (
+                  <div className="bg-red-900/30 border border-red-800 rounded-lg p-4 text-left">
+                    <p className="text-red-400 text-sm">
+                      Deleting your data also ends your subscription. Your profile and birth chart details cannot be recovered afterwards.
+                    </p>
+                  </div>
+                )}
+                {error && (
+                  <div className="bg-red-900/30 border border-red-800 rounded-lg p-4">
+                    <p className="text-red-400 text-sm">{error}</p>
+                  </div>
+                )}
+                <button
+                  type="button"
+                  onClick={handleVerify}
+                  className={`px-8 py-3 transition-colors font-medium ${
+                    isErase ? 'bg-red-600 hover:bg-red-700 text-white' : 'bg-white text-black hover:bg-gray-200'
+                  }`}
+                >
+                  {isErase ? 'DELETE MY DATA' : 'EXPORT MY DATA'}
+                </button>
+                <p className="text-xs text-gray-500">Reference: {request.id}</p>
+              </div>
+            ) : (
+              // Request Form
+              <>
+                <div className="text-center mb-12">
+                  <h1 className="text-3xl md:text-4xl font-light mb-4">Your Data, Your Choice</h1>
+                  <p className="text-gray-400 max-w-lg mx-auto">
+                    Ask for a copy of your data or for its deletion. We will email you a link to verify that the request comes from you.
+                  </p>
+                </div>
+
+                <form onSubmit={handleSubmit} className="space-y-8" noValidate>
+                  <div>
+                    <label htmlFor="privacy-email" className="flex items-center text-xs text-gray-400 mb-2">
+                      <Mail className="w-4 h-4 mr-2" />
+                      EMAIL ADDRESS *
+                    </label>
+                    <input
+                      id="privacy-email"
+                      type="email"
+                      value={email}
+                      onChange={(e) => {
+                        setEmail(e.target.value);
+                        setFieldErrors(prev => ({ ...prev, email: '' }));
+                      }}
+                      className="w-full bg-transparent border-b border-gray-800 pb-2 text-white focus:border-white focus:outline-none text-lg"
+                      placeholder="your.email@example.com"
+                      aria-invalid={!!fieldErrors.email || undefined}
+                      required
+                      disabled={isLoading}
+                    />
+                    <FieldErrorText message={fieldErrors.email} />
+                  </div>
+
+                  <div>
+                    <label className="flex items-center text-xs text-gray-400 mb-4">
+                      WHAT WOULD YOU LIKE US TO DO? *
+                    </label>
+                    <div className="grid md:grid-cols-2 gap-3" role="radiogroup" aria-invalid={!!fieldErrors.type || undefined}>
+                      {requestTypes.map(option => (
+                        <button
+                          key={option.type}
+                          type="button"
+                          role="radio"
+                          aria-checked={type === option.type}
+                          onClick={() => {
+                            setType(option.type);
+                            setFieldErrors(prev => ({ ...prev, type: '' }));
+                          }}
+                          className={`p-4 text-left border rounded-lg transition-all duration-200 ${
+                            type === option.type
+                              ? option.type === 'erase' ? 'bg-red-600/20 border-red-500' : 'bg-white/10 border-white'
+                              : 'bg-transparent border-gray-800 hover:border-gray-600 hover:bg-gray-900'
+                          }`}
+                          disabled={isLoading}
+                        >
+                          <span className="flex items-center space-x-2 text-white font-medium">
+                            {option.icon}
+                            <span>{option.title}</span>
+                          </span>
+                          <span className="block mt-2 text-sm text-gray-400">{option.description}</span>
+                        </button>
+                      ))}
+                    </div>
+                    <FieldErrorText message={fieldErrors.type} />
+                  </div>
+
+                  {error && (
+                    <div className="bg-red-900/30 border border-red-800 rounded-lg p-4">
+                      <p className="text-red-400 text-sm">{error}</p>
+                    </div>
+                  )}
+
+                  <div className="text-center">
+                    <button
+                      type="submit"
+                      disabled={isLoading}
+                      className="px-8 py-3 bg-white text-black hover:bg-gray-200 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isLoading ? 'SENDING...' : 'SEND VERIFICATION LINK'}
+                    </button>
+                    <p className="text-xs text-gray-500 mt-3">
+                      Prefer email? Write to{' '}
+                      <a href="mailto:support@astropal.io" className="text-gray-400 hover:text-white transition-colors">support@astropal.io</a>
+                    </p>
+                  </div>
+                </form>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </TrackingFreeLayout>
+  );
+};
+
+export default PrivacyRequest;
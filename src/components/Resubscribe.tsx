@@ -0,0 +1,197 @@
+import React, { useState, useEffect } from 'react';
+import { CheckCircle, XCircle, Clock, ArrowLeft, Sparkles } from 'lucide-react';
+import { useSearchParams } from 'react-router-dom';
+import TrackingFreeLayout from './TrackingFreeLayout';
+import type { PreferencesData } from '../utils/submissionSchema';
+
+type PageState = 'loading' | 'ready' | 'resubscribing' | 'resubscribed' | 'already_subscribed' | 'expired' | 'invalid' | 'error';
+
+const notices: Record<'expired' | 'invalid' | 'error', { icon: React.ReactNode; title: string; message: string }> = {
+  expired: {
+    icon: <Clock className="w-16 h-16 text-yellow-400" />,
+    title: 'This Link Has Expired',
+    message: 'Resubscribe links work for a year. Contact support@astropal.io and we will restore your subscription for you.'
+  },
+  invalid: {
+    icon: <XCircle className="w-16 h-16 text-red-400" />,
+    title: 'This Link Is Not Valid',
+    message: 'The link may have been cut off or changed. Copy it exactly as it appears in your email.'
+  },
+  error: {
+    icon: <XCircle className="w-16 h-16 text-red-400" />,
+    title: 'We Could Not Check This Link',
+    message: 'Something went wrong on our side. Please try the link again in a few minutes.'
+  }
+};
+
+const Resubscribe: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const [state, setState] = useState<PageState>('loading');
+  const [preferences, setPreferences] = useState<PreferencesData | null>(null);
+  const [error, setError] = useState('');
+
+  // Read the subscription behind the link; resubscribing waits for the subscriber's click
+  useEffect(() => {
+    if (!token) {
+      setState('invalid');
+      return;
+    }
+
+    let cancelled = false;
+    setState('loading');
+    const load = async () => {
+      try {
+        const response = await fetch(`/api/resubscribe?token=${encodeURIComponent(token)}`);
+        const result = await response.json().catch(() => ({}));
+        if (cancelled) return;
+
+        if (response.ok) {
+          setPreferences(result.preferences ?? null);
+          setState(result.subscribed ? 'already_subscribed' : 'ready');
+        } else if (result.reason === 'expired') {
+          setState('expired');
+        } else if (response.status === 400 || response.status === 404) {
+          setState('invalid');
+        } else {
+          setState('error');
+        }
+      } catch {
+        if (!cancelled) setState('error');
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  const handleResubscribe = async () => {
+    if (!token) return;
+    setError('');
+    setState('resubscribing');
+    try {
+      const response = await fetch('/api/resubscribe', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ token })
+      });
+      const result = await response.json().catch(() => ({}));
+
+      if (response.ok) {
+        setState(result.alreadySubscribed ? 'already_subscribed' : 'resubscribed');
+      } else if (result.reason === 'expired') {
+        setState('expired');
+      } else if (response.status === 400 || response.status === 404) {
+        setState('invalid');
+      } else {
+        setState('ready');
+        setError('We could not restore your subscription right now. Please try again in a few minutes.');
+      }
+    } catch {
+      setState('ready');
+      setError('We could not restore your subscription right now. Please try again in a few minutes.');
+    }
+  };
+
+  const focus = preferences ? [...preferences.practices, ...preferences.lifeFocus] : [];
+
+  return (
+    <TrackingFreeLayout title="Resubscribe - Astropal">
+      <div className="bg-black text-white min-h-screen">
+        {/* Navigation */}
+        <nav className="fixed top-0 left-0 right-0 z-50 flex items-center justify-between p-6">
+          <div className="flex items-center space-x-2">
+            <img
+              src="/Astropal_Logo.png"
+              alt="Astropal Logo"
+              className="w-8 h-8"
+            />
+            <span className="font-mono text-base">ASTROPAL</span>
+          </div>
+          <a
+            href="/"
+            className="flex items-center space-x-2 text-gray-400 hover:text-white transition-colors"
+          >
+            <ArrowLeft size={16} />
+            <span className="text-sm">Back to Home</span>
+          </a>
+        </nav>
+
+        <div className="pt-24 pb-16 px-6">
+          <div className="max-w-2xl mx-auto text-center space-y-6">
+            {state === 'loading' || state === 'resubscribing' ? (
+              <div className="flex flex-col items-center py-24 space-y-6">
+                <div className="w-12 h-12 border-2 border-gray-700 border-t-white rounded-full animate-spin" />
+                {state === 'resubscribing' && <p className="text-gray-400">Restoring your subscription...</p>}
+              </div>
+            ) : state === 'expired' || state === 'invalid' || state === 'error' ? (
+              <>
+                <div className="flex justify-center">
+                  {notices[state].icon}
+                </div>
+                <h1 className="text-3xl md:text-4xl font-light">{notices[state].title}</h1>
+                <p className="text-gray-400 max-w-lg mx-auto">{notices[state].message}</p>
+              </>
+            ) : state === 'resubscribed' || state === 'already_subscribed' ? (
+              <>
+                <div className="flex justify-center">
+                  <CheckCircle className="w-16 h-16 text-green-400" />
+                </div>
+                <h1 className="text-3xl md:text-4xl font-light">
+                  {state === 'resubscribed' ? 'Welcome Back' : 'Already Subscribed'}
+                </h1>
+                <p className="text-gray-400">
+                  {state === 'resubscribed'
+                    ? 'Your subscription is restored with your previous settings. Your daily insights will arrive again from your next morning.'
+                    : 'Your subscription is already active - there is nothing more to do.'}
+                </p>
+              </>
+            ) : (
+              <>
+                <div className="flex justify-center">
+                  <Sparkles className="w-16 h-16 text-white" />
+                </div>
+                <h1 className="text-3xl md:text-4xl font-light">Come Back to Astropal</h1>
+                <p className="text-gray-400 max-w-lg mx-auto">
+                  Pick up where you left off: same account, same birth chart, same preferences.
+                </p>
+                {preferences && (
+                  <div className="bg-gray-900/50 border border-gray-800 rounded-lg p-6 space-y-3 text-left">
+                    <h3 className="text-lg font-medium text-white">Your settings</h3>
+                    <ul className="text-sm text-gray-400 space-y-2">
+                      {focus.length > 0 && <li>• Focus: {focus.join(', ')}</li>}
+                      {preferences.dayStartTime && (
+                        <li>• Delivered at {preferences.dayStartTime}{preferences.timeZone ? ` (${preferences.timeZone})` : ''}</li>
+                      )}
+                    </ul>
+                  </div>
+                )}
+                {error && (
+                  <div className="bg-red-900/30 border border-red-800 rounded-lg p-4">
+                    <p className="text-red-400 text-sm">{error}</p>
+                  </div>
+                )}
+                <button
+                  type="button"
+                  onClick={handleResubscribe}
+                  className="px-8 py-3 bg-white text-black hover:bg-gray-200 transition-colors font-medium"
+                >
+                  RESUBSCRIBE
+                </button>
+              </>
+            )}
+            <p className="text-xs text-gray-500">
+              Questions? Contact <a href="mailto:support@astropal.io" className="text-gray-400 hover:text-white transition-colors">support@astropal.io</a>
+            </p>
+          </div>
+        </div>
+      </div>
+    </TrackingFreeLayout>
+  );
+};
+
+export default Resubscribe;
@@ -1,26 +1,70 @@
 import React, { useState, useEffect } from 'react';
-import { Mail, CheckCircle, ArrowLeft } from 'lucide-react';
+import { Mail, CheckCircle, ArrowLeft, PauseCircle } from 'lucide-react';
 import { useSearchParams } from 'react-router-dom';
 import TrackingFreeLayout from './TrackingFreeLayout';
+import LinkStatusNotice from './LinkStatusNotice';
+import { useLinkToken } from '../hooks/useLinkToken';
+import { parseApiError } from '../utils/apiErrors';
+import { FREQUENCY_OFFERS, frequencyOffersFor, type FrequencyOption } from '../utils/frequencyOffers';
+import { MAX_PAUSE_DAYS, addDays, localDateIn, type PauseDuration } from '../utils/pauseSchedule';
+import { parseFrequencyChange, parsePause } from '../utils/submissionSchema';
+import { rateLimitMessage, readRetryAfter } from '../utils/visitorTracking';
 
 interface UnsubscribeData {
   email: string;
-  uid?: string;
   reasons: string[];
   otherComment: string;
 }
 
+// As returned by /api/pause: the resume time is the subscriber's own morning, in their time zone
+interface PauseSchedule {
+  resumeDate: string;
+  resumeTime: string;
+  timeZone: string;
+  resumeAt: string;
+}
+
+const detectedTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const pauseOptions: { value: PauseDuration; label: string }[] = [
+  { value: '1_week', label: '1 Week' },
+  { value: '1_month', label: '1 Month' },
+  { value: 'custom', label: 'Pick a Date' }
+];
+
+function formatResume(schedule: PauseSchedule): string {
+  return new Date(schedule.resumeAt).toLocaleString(undefined, {
+    timeZone: schedule.timeZone,
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+}
+
 const Unsubscribe: React.FC = () => {
   const [formData, setFormData] = useState<UnsubscribeData>({
     email: '',
     reasons: [],
     otherComment: ''
   });
-  const [uid, setUid] = useState<string | null>(null);
+  const link = useLinkToken('unsubscribe');
+  const uid = link.uid;
   const [utmParams, setUtmParams] = useState<Record<string, string>>({});
   const [isSubmitted, setIsSubmitted] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
+  const [pauseDuration, setPauseDuration] = useState<PauseDuration>('1_week');
+  const [resumeDate, setResumeDate] = useState('');
+  const [pause, setPause] = useState<PauseSchedule | null>(null);
+  const [frequency, setFrequency] = useState<FrequencyOption | null>(null);
+  const [frequencyChanged, setFrequencyChanged] = useState<FrequencyOption | null>(null);
+  const [unpauseUrl, setUnpauseUrl] = useState<string | null>(null);
+  const [resubscribeUrl, setResubscribeUrl] = useState<string | null>(null);
+  // Requests by email alone only get a signed link sent to the address
+  const [linkSent, setLinkSent] = useState(false);
+  const today = localDateIn(detectedTimeZone);
 
   const reasonTags = [
     'Too Frequent',
@@ -37,19 +81,11 @@ const Unsubscribe: React.FC = () => {
 
   const [searchParams] = useSearchParams();
   
-  // Extract URL parameters using React Router
+  // Capture UTM parameters using React Router
   useEffect(() => {
-    const uidParam = searchParams.get('uid');
-    
-    if (uidParam) {
-      setUid(uidParam);
-      setFormData(prev => ({ ...prev, uid: uidParam }));
-    }
-
-    // Capture UTM parameters using React Router
     const utmData: Record<string, string> = {};
     for (const [key, value] of searchParams.entries()) {
-      if (key.startsWith('utm_') || key === 'uid') {
+      if (key.startsWith('utm_')) {
         utmData[key] = value;
       }
     }
@@ -85,15 +121,15 @@ const Unsubscribe: React.FC = () => {
 
     try {
       // Submit unsubscribe request with reasons
-      const response = await fetch('/api/submit-form', {
+      const response = await fetch('/api/unsubscribe', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
           formData: { 
-            email: uid ? 'unsubscribe-by-uid' : formData.email, 
-            uid: uid,
+            email: link.token ? 'unsubscribe-by-uid' : formData.email, 
+            token: link.token,
             action: 'unsubscribe',
             reasons_json: JSON.stringify(formData.reasons),
             otherComment: formData.otherComment,
@@ -111,10 +147,21 @@ const Unsubscribe: React.FC = () => {
         })
       });
 
+      if (response.status === 429) {
+        setError(rateLimitMessage(readRetryAfter(response)));
+        return;
+      }
+
       if (!response.ok) {
         throw new Error('Failed to process unsubscribe request');
       }
 
+      const result = await response.json().catch(() => ({}));
+      if (result.linkSent) {
+        setLinkSent(true);
+        return;
+      }
+      setResubscribeUrl(result.resubscribeUrl ?? null);
       setIsSubmitted(true);
     } catch (error) {
       setError('Failed to process your request. Please try again or contact support@astropal.io');
@@ -123,6 +170,137 @@ const Unsubscribe: React.FC = () => {
     }
   };
 
+  // Offered instead of leaving when the picked reasons are about email volume
+  const frequencyOffers = frequencyOffersFor(formData.reasons);
+
+  const handleFrequencyChange = async () => {
+    setError('');
+
+    const frequencyData = {
+      email: link.token ? 'unsubscribe-by-uid' : formData.email,
+      reasons_json: JSON.stringify(formData.reasons),
+      frequency: frequency ?? ''
+    };
+    const parsed = parseFrequencyChange({ ...frequencyData, uid });
+    if (!parsed.success) {
+      setError(parsed.errors[0].message);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/frequency', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          formData: { ...frequencyData, token: link.token },
+          variantName: 'unsubscribe',
+          visitorData: {
+            timestamp: new Date().toISOString(),
+            action: 'frequency_change',
+            has_uid: !!uid,
+            user_agent: navigator.userAgent,
+            timezone: detectedTimeZone,
+            ...utmParams
+          }
+        })
+      });
+
+      if (response.status === 429) {
+        setError(rateLimitMessage(readRetryAfter(response)));
+        return;
+      }
+
+      const result = await response.json().catch(() => null);
+      if (!response.ok) {
+        const body = parseApiError(response.status, result);
+        if (body.fields?.length) {
+          setError(body.fields[0].message);
+          return;
+        }
+        throw new Error(body.message);
+      }
+
+      if (result?.linkSent) {
+        setLinkSent(true);
+        return;
+      }
+      setFrequencyChanged(parsed.data.frequency);
+    } catch {
+      setError('Failed to update your email frequency. Please try again or contact support@astropal.io');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Pausing shares the email and reasons with the unsubscribe form but is its own request
+  const handlePause = async () => {
+    setError('');
+
+    const pauseData = {
+      email: link.token ? 'unsubscribe-by-uid' : formData.email,
+      duration: pauseDuration,
+      resumeDate: pauseDuration === 'custom' ? resumeDate : '',
+      timeZone: detectedTimeZone,
+      reasons_json: JSON.stringify(formData.reasons)
+    };
+    const parsed = parsePause({ ...pauseData, uid });
+    if (!parsed.success) {
+      setError(parsed.errors[0].message);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/pause', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          formData: { ...pauseData, token: link.token },
+          variantName: 'unsubscribe',
+          visitorData: {
+            timestamp: new Date().toISOString(),
+            action: 'pause',
+            has_uid: !!uid,
+            user_agent: navigator.userAgent,
+            timezone: detectedTimeZone,
+            ...utmParams
+          }
+        })
+      });
+
+      if (response.status === 429) {
+        setError(rateLimitMessage(readRetryAfter(response)));
+        return;
+      }
+
+      const result = await response.json().catch(() => null);
+      if (!response.ok) {
+        const body = parseApiError(response.status, result);
+        if (body.fields?.length) {
+          setError(body.fields[0].message);
+          return;
+        }
+        throw new Error(body.message);
+      }
+
+      if (result?.linkSent) {
+        setLinkSent(true);
+        return;
+      }
+      setPause(result.pause);
+      setUnpauseUrl(result.unpauseUrl ?? null);
+    } catch {
+      setError('Failed to pause your emails. Please try again or contact support@astropal.io');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const toggleReason = (reason: string) => {
     setFormData(prev => {
       const currentReasons = prev.reasons;
@@ -158,7 +336,80 @@ const Unsubscribe: React.FC = () => {
 
         <div className="pt-24 pb-16 px-6">
           <div className="max-w-2xl mx-auto">
-            {isSubmitted ? (
+            {link.state === 'checking' ? (
+              <div className="flex justify-center py-24">
+                <div className="w-12 h-12 border-2 border-gray-700 border-t-white rounded-full animate-spin" />
+              </div>
+            ) : link.state === 'expired' || link.state === 'invalid' || link.state === 'error' ? (
+              <LinkStatusNotice state={link.state} onUseEmail={link.continueWithEmail} />
+            ) : linkSent ? (
+              // Link Sent State - Nothing changes until the link from the email is used
+              <div className="text-center space-y-6">
+                <div className="flex justify-center">
+                  <Mail className="w-16 h-16 text-blue-400" />
+                </div>
+                <h1 className="text-3xl md:text-4xl font-light">Check Your Email</h1>
+                <div className="space-y-4 text-gray-400">
+                  <p>If <span className="text-white">{formData.email}</span> is subscribed, we've sent it a link to finish your request.</p>
+                  <p>Open it to unsubscribe, pause or get fewer emails. Nothing changes until you use the link.</p>
+                </div>
+                <p className="text-xs text-gray-500">
+                  Questions? Contact <a href="mailto:support@astropal.io" className="text-gray-400 hover:text-white transition-colors">support@astropal.io</a>
+                </p>
+              </div>
+            ) : frequencyChanged ? (
+              // Frequency Changed State - Still subscribed, on a lighter schedule
+              <div className="text-center space-y-6">
+                <div className="flex justify-center">
+                  <CheckCircle className="w-16 h-16 text-green-400" />
+                </div>
+                <h1 className="text-3xl md:text-4xl font-light">You're Staying With Us</h1>
+                <div className="space-y-4 text-gray-400">
+                  <p>You're now on <span className="text-white">{FREQUENCY_OFFERS[frequencyChanged].label}</span>.</p>
+                  <p>{FREQUENCY_OFFERS[frequencyChanged].description}.</p>
+                  <p>It may take up to 24 hours for the change to take effect.</p>
+                </div>
+                <p className="text-xs text-gray-500">
+                  Questions? Contact <a href="mailto:support@astropal.io" className="text-gray-400 hover:text-white transition-colors">support@astropal.io</a>
+                </p>
+              </div>
+            ) : pause ? (
+              // Paused State - Confirmation with a way back
+              <div className="text-center space-y-6">
+                <div className="flex justify-center">
+                  <PauseCircle className="w-16 h-16 text-blue-400" />
+                </div>
+                <h1 className="text-3xl md:text-4xl font-light">Emails Paused</h1>
+                <div className="space-y-4 text-gray-400">
+                  <p>Enjoy your break. Your daily insights will pick up again on</p>
+                  <p className="text-xl text-white">{formatResume(pause)}</p>
+                  <p className="text-sm text-gray-500">
+                    ({pause.timeZone} time)
+                  </p>
+                </div>
+                <div className="bg-gray-900/50 border border-gray-800 rounded-lg p-6 space-y-3">
+                  <h3 className="text-lg font-medium text-white">Changed your mind?</h3>
+                  {unpauseUrl ? (
+                    <>
+                      <p className="text-sm text-gray-400">You can start receiving your insights again at any time.</p>
+                      <a
+                        href={unpauseUrl}
+                        className="inline-block px-8 py-3 bg-white text-black hover:bg-gray-200 transition-colors font-medium"
+                      >
+                        UNPAUSE NOW
+                      </a>
+                    </>
+                  ) : (
+                    <p className="text-sm text-gray-400">
+                      Your pause confirmation email has a link to unpause early - use it whenever you're ready to come back.
+                    </p>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500">
+                  Questions? Contact <a href="mailto:support@astropal.io" className="text-gray-400 hover:text-white transition-colors">support@astropal.io</a>
+                </p>
+              </div>
+            ) : isSubmitted ? (
               // Success State - Confirmation Window
               <div className="text-center space-y-6">
                 <div className="flex justify-center">
@@ -175,9 +426,20 @@ const Unsubscribe: React.FC = () => {
                   <ul className="text-sm text-gray-400 space-y-2 text-left">
                     <li>• You will not receive any more newsletters from us</li>
                     <li>• Your data remains secure and we will not share it</li>
-                    <li>• You can re-subscribe anytime by visiting our website</li>
+                    <li>• You can come back anytime by signing up again with the same email, or with the resubscribe link in your goodbye email</li>
                   </ul>
                 </div>
+                {resubscribeUrl && (
+                  <div className="space-y-3">
+                    <p className="text-sm text-gray-400">Clicked by mistake? Come back with your account and preferences as they were.</p>
+                    <a
+                      href={resubscribeUrl}
+                      className="inline-block px-8 py-3 bg-white text-black hover:bg-gray-200 transition-colors font-medium"
+                    >
+                      RESUBSCRIBE
+                    </a>
+                  </div>
+                )}
                 <p className="text-xs text-gray-500">
                   Questions? Contact <a href="mailto:support@astropal.io" className="text-gray-400 hover:text-white transition-colors">support@astropal.io</a>
                 </p>
@@ -190,7 +452,7 @@ const Unsubscribe: React.FC = () => {
                   <p className="text-gray-400 max-w-lg mx-auto">
                     {uid 
                       ? "We're sorry to see you go. Please tell us why you're unsubscribing so we can improve."
-                      : "We're sorry to see you go. Enter your email and tell us why you're unsubscribing."
+                      : "We're sorry to see you go. Enter your email and tell us why you're unsubscribing, and we'll email you a link to confirm."
                     }
                   </p>
                   {uid && (
@@ -257,6 +519,105 @@ const Unsubscribe: React.FC = () => {
                     )}
                   </div>
 
+                  {/* Fewer emails instead of unsubscribing */}
+                  {frequencyOffers.length > 0 && (
+                    <div className="bg-blue-950/40 border border-blue-700 rounded-lg p-6 space-y-4">
+                      <div>
+                        <h3 className="text-lg font-medium text-white">Would fewer emails help?</h3>
+                        <p className="text-sm text-gray-400 mt-1">
+                          Stay subscribed on a lighter schedule instead.
+                        </p>
+                      </div>
+                      <div className="space-y-3">
+                        {frequencyOffers.map(option => (
+                          <button
+                            key={option}
+                            type="button"
+                            onClick={() => setFrequency(option)}
+                            className={`w-full p-4 text-left border rounded-lg transition-all duration-200 ${
+                              frequency === option
+                                ? 'bg-white text-black border-white'
+                                : 'bg-transparent text-gray-300 border-gray-800 hover:border-gray-600 hover:bg-gray-900'
+                            }`}
+                            disabled={isLoading}
+                          >
+                            <span className="block text-sm font-medium">{FREQUENCY_OFFERS[option].label}</span>
+                            <span className={`block text-xs mt-1 ${frequency === option ? 'text-gray-700' : 'text-gray-500'}`}>
+                              {FREQUENCY_OFFERS[option].description}
+                            </span>
+                          </button>
+                        ))}
+                      </div>
+                      <div className="text-center">
+                        <button
+                          type="button"
+                          onClick={handleFrequencyChange}
+                          disabled={isLoading || !frequency}
+                          className="px-8 py-3 bg-white text-black hover:bg-gray-200 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          {isLoading ? 'PROCESSING...' : 'SWITCH AND STAY'}
+                        </button>
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Pause instead of unsubscribing */}
+                  <div
+                    className={`border rounded-lg p-6 space-y-4 transition-colors ${
+                      formData.reasons.includes('Temporary Break')
+                        ? 'bg-blue-950/40 border-blue-700'
+                        : 'bg-gray-900/50 border-gray-800'
+                    }`}
+                  >
+                    <div>
+                      <h3 className="text-lg font-medium text-white">Need a break instead?</h3>
+                      <p className="text-sm text-gray-400 mt-1">
+                        Pause your emails and they'll start again on their own, in your morning.
+                      </p>
+                    </div>
+                    <div className="grid grid-cols-3 gap-3">
+                      {pauseOptions.map(option => (
+                        <button
+                          key={option.value}
+                          type="button"
+                          onClick={() => setPauseDuration(option.value)}
+                          className={`p-3 text-sm border rounded-lg transition-all duration-200 ${
+                            pauseDuration === option.value
+                              ? 'bg-white text-black border-white'
+                              : 'bg-transparent text-gray-300 border-gray-800 hover:border-gray-600 hover:bg-gray-900'
+                          }`}
+                          disabled={isLoading}
+                        >
+                          {option.label}
+                        </button>
+                      ))}
+                    </div>
+                    {pauseDuration === 'custom' && (
+                      <div>
+                        <label className="block text-xs text-gray-400 mb-2">RESUME ON</label>
+                        <input
+                          type="date"
+                          value={resumeDate}
+                          min={addDays(today, 1)}
+                          max={addDays(today, MAX_PAUSE_DAYS)}
+                          onChange={(e) => setResumeDate(e.target.value)}
+                          className="w-full bg-transparent border-b border-gray-800 pb-2 text-white focus:border-white focus:outline-none text-lg [color-scheme:dark]"
+                          disabled={isLoading}
+                        />
+                      </div>
+                    )}
+                    <div className="text-center">
+                      <button
+                        type="button"
+                        onClick={handlePause}
+                        disabled={isLoading}
+                        className="px-8 py-3 bg-white text-black hover:bg-gray-200 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {isLoading ? 'PROCESSING...' : 'PAUSE EMAILS'}
+                      </button>
+                    </div>
+                  </div>
+
                   {error && (
                     <div className="bg-red-900/30 border border-red-800 rounded-lg p-4">
                       <p className="text-red-400 text-sm">{error}</p>
@@ -268,7 +629,7 @@ const Unsubscribe: React.FC = () => {
                     <div className="text-sm text-gray-400 space-y-2">
                       <p>• You can always adjust your email preferences instead of unsubscribing completely</p>
                       <p>• You'll miss out on personalized cosmic insights tailored just for you</p>
-                      <p>• Re-subscribing later will require filling out the full form again</p>
+                      <p>• You can come back any time from the link in your goodbye email, or by signing up again with the same address</p>
                     </div>
                   </div>
 
@@ -1,13 +1,19 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { ArrowRight, Sparkles, Moon, Sun } from 'lucide-react';
 import { FieldTooltip } from '../FieldTooltip';
-import { useTaglineVariant } from '../../hooks/useTaglineVariant';
-import { validateForm, displayValidationErrors } from '../../utils/formValidation';
+import { useExperiment } from '../../hooks/useExperiment';
+import { validateForm, fieldErrorMap, type FieldErrors } from '../../utils/formValidation';
 import type { FormData as ValidationFormData } from '../../utils/formValidation';
-import { submitFormWithTracking } from '../../utils/visitorTracking';
+import { submitFormWithTracking, createIdempotencyKey, describeSubmissionError } from '../../utils/visitorTracking';
+import { birthPlaceFields, type PlaceSuggestion } from '../../utils/placeSearch';
+import { LIFE_FOCUS_OPTIONS, PRACTICE_OPTIONS, TIME_ZONE_OPTIONS } from '../../utils/formOptions';
 import { getStableTimezone, safeLocalStorageGet, safeLocalStorageSet, safeLocalStorageRemove } from '../../utils/browserUtils';
 import EnhancedConfirmation from '../EnhancedConfirmation';
-import { getCtaVariant } from '../../utils/ctaVariants';
+import HoneypotField from '../HoneypotField';
+import PlaceCombobox from '../PlaceCombobox';
+import FieldErrorText from '../FieldErrorText';
+import ChallengeWidget from '../ChallengeWidget';
+import { useBotDefense } from '../../hooks/useBotDefense';
 import { useLogger } from '../../hooks/useLogger';
 
 interface FormData {
@@ -16,6 +22,10 @@ interface FormData {
   email: string;
   birthDate: string;
   birthLocation: string;
+  birthPlaceId: string;
+  birthLatitude: number | null;
+  birthLongitude: number | null;
+  birthTimezone: string;
   timeZone: string;
   dayStartTime: string;
   birthTime: string;
@@ -43,9 +53,9 @@ const Toggle: React.FC<{
 );
 
 const Variant0: React.FC = () => {
-  const taglineVariant = useTaglineVariant();
+  const { value: taglineVariant } = useExperiment('tagline');
   const { logUserAction, logError, logInfo } = useLogger('Variant0');
-  const cta = getCtaVariant();
+  const { value: cta } = useExperiment('cta');
 
   const [formData, setFormData] = useState<FormData>({
     fullName: '',
@@ -53,6 +63,7 @@ const Variant0: React.FC = () => {
     email: '',
     birthDate: '',
     birthLocation: '',
+    ...birthPlaceFields(null),
     timeZone: getStableTimezone(),
     dayStartTime: '07:00',
     birthTime: '',
@@ -64,6 +75,13 @@ const Variant0: React.FC = () => {
   const [showConfirmation, setShowConfirmation] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [hasSubmitted, setHasSubmitted] = useState(false);
+  const [isDuplicate, setIsDuplicate] = useState(false);
+  const [pendingConfirmation, setPendingConfirmation] = useState(false);
+  const [submitError, setSubmitError] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const botDefense = useBotDefense();
+  // One key per form fill, so a retried submit is not registered twice
+  const [idempotencyKey] = useState(createIdempotencyKey);
 
   // Memoized scroll function to prevent reloading
   const scrollToForm = useCallback(() => {
@@ -113,9 +131,15 @@ const Variant0: React.FC = () => {
 
   const updateField = (field: keyof FormData, value: string | string[]) => {
     setFormData(prev => ({ ...prev, [field]: value }));
+    setFieldErrors(prev => ({ ...prev, [field]: undefined }));
+  };
+
+  const selectBirthPlace = (place: PlaceSuggestion | null) => {
+    setFormData(prev => ({ ...prev, ...birthPlaceFields(place) }));
   };
 
   const togglePractice = (practice: string) => {
+    setFieldErrors(prev => ({ ...prev, practices: undefined }));
     setFormData(prev => ({
       ...prev,
       practices: prev.practices.includes(practice)
@@ -127,6 +151,7 @@ const Variant0: React.FC = () => {
   };
 
   const toggleLifeFocus = (focus: string) => {
+    setFieldErrors(prev => ({ ...prev, lifeFocus: undefined }));
     if (formData.lifeFocus.includes(focus)) {
       setFormData(prev => ({
         ...prev,
@@ -152,19 +177,29 @@ const Variant0: React.FC = () => {
     // Validate form using enhanced validation
     const validation = validateForm(formData as ValidationFormData);
     if (!validation.isValid) {
-      displayValidationErrors(validation.errors);
+      setFieldErrors(fieldErrorMap(validation.fieldErrors));
+      setSubmitError('Please fix the highlighted fields and try again.');
       logInfo('validation_failed', { errors: validation.errors });
       return;
     }
 
+    if (botDefense.challengePending) {
+      setSubmitError('Please wait a moment for the security check to finish.');
+      return;
+    }
+
+    setSubmitError('');
+    setFieldErrors({});
     setIsSubmitting(true);
     try {
       // Submit form with full visitor tracking
-      await submitFormWithTracking(formData as unknown as Record<string, unknown>, 'variant0');
+      const result = await submitFormWithTracking(formData as unknown as Record<string, unknown>, 'variant0', undefined, { idempotencyKey, botCheck: botDefense.botCheck });
+      setIsDuplicate(result.duplicate);
+      setPendingConfirmation(result.confirmationRequired);
       logInfo('form_submitted', { variant: 'variant0' });
 
-      // Fire Facebook Lead conversion event ONLY after successful submission
-      if (typeof window !== 'undefined' && window.fbq) {
+      // Fire Facebook Lead conversion event ONLY after successful, first-time submission
+      if (!result.duplicate && typeof window !== 'undefined' && window.fbq) {
         window.fbq('track', 'Lead', {
           content_name: 'Astropal Registration',
           content_category: 'Lead',
@@ -183,8 +218,12 @@ const Variant0: React.FC = () => {
       
     } catch (error) {
       logInfo('submission_error', { error });
-      alert('Registration failed. Please try again.');
+      const { fieldErrors: rejected, message } = describeSubmissionError(error);
+      setFieldErrors(rejected);
+      setSubmitError(message);
     } finally {
+      // The token was spent on this attempt; a retry needs a fresh one
+      botDefense.resetChallenge();
       setIsSubmitting(false);
     }
   };
@@ -290,7 +329,7 @@ const Variant0: React.FC = () => {
       <section id="form-section" className="py-16">
         <div className="max-w-6xl mx-auto px-6">
           {showConfirmation ? (
-            <EnhancedConfirmation userEmail={formData.email} variant="variant0" />
+            <EnhancedConfirmation userEmail={formData.email} variant="variant0" duplicate={isDuplicate} pendingConfirmation={pendingConfirmation} />
           ) : (
             <>
               <div className="text-center mb-12">
@@ -299,6 +338,8 @@ const Variant0: React.FC = () => {
               </div>
               
               <form onSubmit={handleSubmit} className="space-y-8 md:space-y-12">
+              
+                <HoneypotField value={botDefense.honeypot} onChange={botDefense.setHoneypot} />
                 {/* Personal Info - Responsive Grid */}
                 <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 lg:gap-6">
                   <div>
@@ -309,10 +350,12 @@ const Variant0: React.FC = () => {
                     <input
                       type="text"
                       value={formData.fullName}
+                      aria-invalid={!!fieldErrors.fullName}
                       onChange={(e) => updateField('fullName', e.target.value)}
                       className="w-full bg-transparent border-b border-gray-800 pb-2 text-white focus:border-white focus:outline-none text-sm"
                       required={formData.practices.includes('Numerology')}
                     />
+                    <FieldErrorText message={fieldErrors.fullName} />
                   </div>
 
                   <div>
@@ -323,10 +366,12 @@ const Variant0: React.FC = () => {
                     <input
                       type="text"
                       value={formData.preferredName}
+                      aria-invalid={!!fieldErrors.preferredName}
                       onChange={(e) => updateField('preferredName', e.target.value)}
                       className="w-full bg-transparent border-b border-gray-800 pb-2 text-white focus:border-white focus:outline-none text-sm"
                       required
                     />
+                    <FieldErrorText message={fieldErrors.preferredName} />
                   </div>
 
                   <div>
@@ -337,10 +382,12 @@ const Variant0: React.FC = () => {
                     <input
                       type="email"
                       value={formData.email}
+                      aria-invalid={!!fieldErrors.email}
                       onChange={(e) => updateField('email', e.target.value)}
                       className="w-full bg-transparent border-b border-gray-800 pb-2 text-white focus:border-white focus:outline-none text-sm"
                       required
                     />
+                    <FieldErrorText message={fieldErrors.email} />
                   </div>
 
                   <div>
@@ -351,11 +398,13 @@ const Variant0: React.FC = () => {
                     <input
                       type="date"
                       value={formData.birthDate}
+                      aria-invalid={!!fieldErrors.birthDate}
                       onChange={(e) => updateField('birthDate', e.target.value)}
                       max={`${new Date().getFullYear() - 18}-12-31`}
                       className="w-full bg-transparent border-b border-gray-800 pb-2 text-white focus:border-white focus:outline-none text-sm [color-scheme:dark]"
                       required
                     />
+                    <FieldErrorText message={fieldErrors.birthDate} />
                   </div>
 
                   <div>
@@ -363,14 +412,17 @@ const Variant0: React.FC = () => {
                       BIRTH LOCATION *
                       <FieldTooltip content="City, state, and country where you were born for location-based astrological calculations" />
                     </label>
-                    <input
-                      type="text"
+                    <PlaceCombobox
                       value={formData.birthLocation}
-                      onChange={(e) => updateField('birthLocation', e.target.value)}
-                      className="w-full bg-transparent border-b border-gray-800 pb-2 text-white focus:border-white focus:outline-none text-sm"
+                      invalid={!!fieldErrors.birthLocation}
+                      onChange={(text) => updateField('birthLocation', text)}
+                      onSelect={selectBirthPlace}
+                      label="Birth location"
+                      inputClassName="w-full bg-transparent border-b border-gray-800 pb-2 text-white focus:border-white focus:outline-none text-sm"
                       placeholder="City, State, Country"
                       required
                     />
+                    <FieldErrorText message={fieldErrors.birthLocation} />
                   </div>
                   
                   <div>
@@ -380,20 +432,18 @@ const Variant0: React.FC = () => {
                     </label>
                     <select
                       value={formData.timeZone}
+                      aria-invalid={!!fieldErrors.timeZone}
                       onChange={(e) => updateField('timeZone', e.target.value)}
                       className="w-full bg-transparent border-b border-gray-800 pb-2 text-white focus:border-white focus:outline-none text-sm appearance-none [color-scheme:dark]"
                     >
                       <option value={Intl.DateTimeFormat().resolvedOptions().timeZone} className="bg-gray-900">
                         Auto-detected
                       </option>
-                      <option value="America/New_York" className="bg-gray-900">Eastern</option>
-                      <option value="America/Chicago" className="bg-gray-900">Central</option>
-                      <option value="America/Denver" className="bg-gray-900">Mountain</option>
-                      <option value="America/Los_Angeles" className="bg-gray-900">Pacific</option>
-                      <option value="Europe/London" className="bg-gray-900">GMT</option>
-                      <option value="Europe/Paris" className="bg-gray-900">CET</option>
-                      <option value="Asia/Tokyo" className="bg-gray-900">JST</option>
+                      {TIME_ZONE_OPTIONS.map(option => (
+                        <option key={option.value} value={option.value} className="bg-gray-900">{option.label}</option>
+                      ))}
                     </select>
+                    <FieldErrorText message={fieldErrors.timeZone} />
                   </div>
 
                   <div>
@@ -404,9 +454,11 @@ const Variant0: React.FC = () => {
                     <input
                       type="time"
                       value={formData.dayStartTime}
+                      aria-invalid={!!fieldErrors.dayStartTime}
                       onChange={(e) => updateField('dayStartTime', e.target.value)}
                       className="w-full bg-transparent border-b border-gray-800 pb-2 text-white focus:border-white focus:outline-none text-sm [color-scheme:dark]"
                     />
+                    <FieldErrorText message={fieldErrors.dayStartTime} />
                   </div>
 
                   <div>
@@ -418,6 +470,7 @@ const Variant0: React.FC = () => {
                       <input
                         type="time"
                         value={formData.birthTime === 'unknown' ? '' : formData.birthTime}
+                        aria-invalid={!!fieldErrors.birthTime}
                         onChange={(e) => updateField('birthTime', e.target.value)}
                         className="flex-1 bg-transparent border-b border-gray-800 pb-2 text-white focus:border-white focus:outline-none text-sm [color-scheme:dark]"
                         disabled={formData.birthTime === 'unknown'}
@@ -440,6 +493,7 @@ const Variant0: React.FC = () => {
                         UNKNOWN
                       </button>
                     </div>
+                    <FieldErrorText message={fieldErrors.birthTime} />
                   </div>
 
                   <div>
@@ -449,6 +503,7 @@ const Variant0: React.FC = () => {
                     </label>
                     <select
                       value={formData.relationshipStatus}
+                      aria-invalid={!!fieldErrors.relationshipStatus}
                       onChange={(e) => updateField('relationshipStatus', e.target.value)}
                       className="w-full bg-transparent border-b border-gray-800 pb-2 text-white focus:border-white focus:outline-none text-sm appearance-none [color-scheme:dark]"
                     >
@@ -458,6 +513,7 @@ const Variant0: React.FC = () => {
                       <option value="married" className="bg-gray-900">Married</option>
                       <option value="complicated" className="bg-gray-900">It's Complicated</option>
                     </select>
+                    <FieldErrorText message={fieldErrors.relationshipStatus} />
                   </div>
                 </div>
 
@@ -470,14 +526,7 @@ const Variant0: React.FC = () => {
                     </p>
                   </div>
                 <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
-                    {[
-                      'Astrology',
-                      'Numerology', 
-                      'Daily Tarot Wisdom',
-                      'Crystal & Gemstone Guidance',
-                      'Chakra & Energy Work',
-                      'Feng Shui & Space Harmony'
-                    ].map(practice => (
+                    {PRACTICE_OPTIONS.map(practice => (
                       <Toggle
                         key={practice}
                         checked={formData.practices.includes(practice)}
@@ -487,6 +536,7 @@ const Variant0: React.FC = () => {
                       />
                     ))}
                   </div>
+                  <FieldErrorText message={fieldErrors.practices} className="mt-2 text-xs text-amber-400" />
                 </div>
 
                 {/* Life Focus - Mobile Optimized */}
@@ -498,14 +548,7 @@ const Variant0: React.FC = () => {
                     </p>
                   </div>
                   <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
-                    {[
-                      'Love & Relationships',
-                      'Career & Success',
-                      'Health & Wellness', 
-                      'Wealth & Abundance',
-                      'Personal Growth',
-                      'Family & Home'
-                    ].map(focus => (
+                    {LIFE_FOCUS_OPTIONS.map(focus => (
                       <Toggle
                         key={focus}
                         checked={formData.lifeFocus.includes(focus)}
@@ -515,10 +558,12 @@ const Variant0: React.FC = () => {
                       />
                     ))}
                   </div>
+                  <FieldErrorText message={fieldErrors.lifeFocus} className="mt-2 text-xs text-amber-400" />
                 </div>
 
             {/* Submit Button - Mobile Optimized */}
             <div className="pt-6 text-center">
+              <ChallengeWidget {...botDefense.challenge} className="flex justify-center mb-4" />
               <button
                 type="submit"
                 disabled={hasSubmitted || isSubmitting}
@@ -526,6 +571,9 @@ const Variant0: React.FC = () => {
               >
                 {isSubmitting ? 'ACTIVATING...' : hasSubmitted ? 'THANK YOU FOR SIGNING UP!' : 'ACTIVATE INTELLIGENCE SYSTEM'}
               </button>
+              {submitError && (
+                <p role="alert" className="text-sm text-amber-400 mb-3">{submitError}</p>
+              )}
               <p className="text-xs text-gray-500">
                 7-Day Free trial • No credit card required • $4.99/mo after
               </p>
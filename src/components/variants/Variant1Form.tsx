@@ -1,8 +1,15 @@
 import React, { useState, useEffect } from 'react';
 import { FieldTooltip } from '../FieldTooltip';
-import { validateForm, displayValidationErrors } from '../../utils/formValidation';
-import { submitFormWithTracking } from '../../utils/visitorTracking';
+import { validateForm, fieldErrorMap, type FieldErrors } from '../../utils/formValidation';
+import { submitFormWithTracking, createIdempotencyKey, describeSubmissionError } from '../../utils/visitorTracking';
+import { birthPlaceFields, type PlaceSuggestion } from '../../utils/placeSearch';
+import { LIFE_FOCUS_OPTIONS, PRACTICE_OPTIONS, TIME_ZONE_OPTIONS } from '../../utils/formOptions';
 import EnhancedConfirmation from '../EnhancedConfirmation';
+import HoneypotField from '../HoneypotField';
+import PlaceCombobox from '../PlaceCombobox';
+import FieldErrorText from '../FieldErrorText';
+import ChallengeWidget from '../ChallengeWidget';
+import { useBotDefense } from '../../hooks/useBotDefense';
 import { useLogger } from '../../hooks/useLogger';
 
 interface FormData {
@@ -11,6 +18,10 @@ interface FormData {
   email: string;
   birthDate: string;
   birthLocation: string;
+  birthPlaceId: string;
+  birthLatitude: number | null;
+  birthLongitude: number | null;
+  birthTimezone: string;
   timeZone: string;
   dayStartTime: string;
   birthTime: string;
@@ -62,6 +73,7 @@ export default function Variant1Form() {
     email: '',
     birthDate: '',
     birthLocation: '',
+    ...birthPlaceFields(null),
     timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
     dayStartTime: '07:00',
     birthTime: '',
@@ -73,6 +85,13 @@ export default function Variant1Form() {
   const [showConfirmation, setShowConfirmation] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [hasSubmitted, setHasSubmitted] = useState(false);
+  const [isDuplicate, setIsDuplicate] = useState(false);
+  const [pendingConfirmation, setPendingConfirmation] = useState(false);
+  const [submitError, setSubmitError] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const botDefense = useBotDefense();
+  // One key per form fill, so a retried submit is not registered twice
+  const [idempotencyKey] = useState(createIdempotencyKey);
 
   // Check for existing submission on component mount
   useEffect(() => {
@@ -102,9 +121,15 @@ export default function Variant1Form() {
 
   const updateField = (field: keyof FormData, value: string | string[]) => {
     setFormData(prev => ({ ...prev, [field]: value }));
+    setFieldErrors(prev => ({ ...prev, [field]: undefined }));
+  };
+
+  const selectBirthPlace = (place: PlaceSuggestion | null) => {
+    setFormData(prev => ({ ...prev, ...birthPlaceFields(place) }));
   };
 
   const togglePractice = (practice: string) => {
+    setFieldErrors(prev => ({ ...prev, practices: undefined }));
     setFormData(prev => ({
       ...prev,
       practices: prev.practices.includes(practice)
@@ -116,6 +141,7 @@ export default function Variant1Form() {
   };
 
   const toggleLifeFocus = (focus: string) => {
+    setFieldErrors(prev => ({ ...prev, lifeFocus: undefined }));
     if (formData.lifeFocus.includes(focus)) {
       setFormData(prev => ({
         ...prev,
@@ -151,24 +177,34 @@ export default function Variant1Form() {
     // Validate form using enhanced validation
     const validation = validateForm(formData as any);
     if (!validation.isValid) {
-      displayValidationErrors(validation.errors);
+      setFieldErrors(fieldErrorMap(validation.fieldErrors));
+      setSubmitError('Please fix the highlighted fields and try again.');
       logInfo('validation_failed', { errors: validation.errors });
       return;
     }
 
+    if (botDefense.challengePending) {
+      setSubmitError('Please wait a moment for the security check to finish.');
+      return;
+    }
+
+    setSubmitError('');
+    setFieldErrors({});
     setIsSubmitting(true);
     
     try {
       // Submit form with full visitor tracking
-      await submitFormWithTracking(formData as unknown as Record<string, unknown>, 'variant1');
+      const result = await submitFormWithTracking(formData as unknown as Record<string, unknown>, 'variant1', undefined, { idempotencyKey, botCheck: botDefense.botCheck });
+      setIsDuplicate(result.duplicate);
+      setPendingConfirmation(result.confirmationRequired);
       logInfo('form_submitted');
 
       // Store submission data in localStorage
       localStorage.setItem('astropal_variant1_submitted_email', formData.email);
       localStorage.setItem('astropal_variant1_submission_timestamp', Date.now().toString());
       
-      // Fire Facebook Lead conversion event ONLY after successful submission
-      if (typeof window !== 'undefined' && window.fbq) {
+      // Fire Facebook Lead conversion event ONLY after successful, first-time submission
+      if (!result.duplicate && typeof window !== 'undefined' && window.fbq) {
         window.fbq('track', 'Lead', {
           content_name: 'Astropal Registration',
           content_category: 'Lead',
@@ -183,8 +219,12 @@ export default function Variant1Form() {
       
     } catch (error) {
       logError(error, { phase: 'handleSubmit' });
-      alert('Registration failed. Please try again.');
+      const { fieldErrors: rejected, message } = describeSubmissionError(error);
+      setFieldErrors(rejected);
+      setSubmitError(message);
     } finally {
+      // The token was spent on this attempt; a retry needs a fresh one
+      botDefense.resetChallenge();
       setIsSubmitting(false);
     }
   };
@@ -196,6 +236,8 @@ export default function Variant1Form() {
           <EnhancedConfirmation
             userEmail={formData.email}
             variant="variant1"
+            duplicate={isDuplicate}
+            pendingConfirmation={pendingConfirmation}
           />
         </div>
       ) : (
@@ -204,6 +246,7 @@ export default function Variant1Form() {
           
           <div className="flex-1 overflow-y-auto">
             <form onSubmit={handleSubmit} className="space-y-6 pb-6">
+              <HoneypotField value={botDefense.honeypot} onChange={botDefense.setHoneypot} />
               {/* Personal Information Section */}
               <div className="bg-gradient-to-br from-gray-900/40 to-purple-900/15 backdrop-blur-sm border border-gray-700/50 rounded-xl p-6 shadow-lg">
                 <h3 className="text-sm font-bold text-white mb-4 tracking-wide border-b border-gray-700/50 pb-2">
@@ -219,11 +262,13 @@ export default function Variant1Form() {
                     <input
                       type="text"
                       value={formData.fullName}
+                      aria-invalid={!!fieldErrors.fullName}
                       onChange={(e) => updateField('fullName', e.target.value)}
                       className="w-full h-10 bg-gray-800/50 border border-gray-700/50 rounded-md px-3 py-2 text-white text-sm focus:border-purple-500 focus:ring-1 focus:ring-purple-500/20 focus:outline-none transition-all duration-300"
                       required={formData.practices.includes('Numerology')}
                       placeholder="Enter your full legal name"
                     />
+                    <FieldErrorText message={fieldErrors.fullName} />
                   </div>
                   
                   <div className="group">
@@ -234,11 +279,13 @@ export default function Variant1Form() {
                     <input
                       type="text"
                       value={formData.preferredName}
+                      aria-invalid={!!fieldErrors.preferredName}
                       onChange={(e) => updateField('preferredName', e.target.value)}
                       className="w-full h-10 bg-gray-800/50 border border-gray-700/50 rounded-md px-3 py-2 text-white text-sm focus:border-purple-500 focus:ring-1 focus:ring-purple-500/20 focus:outline-none transition-all duration-300"
                       required
                       placeholder="How should we address you?"
                     />
+                    <FieldErrorText message={fieldErrors.preferredName} />
                   </div>
                   
                   <div className="group">
@@ -249,11 +296,13 @@ export default function Variant1Form() {
                     <input
                       type="email"
                       value={formData.email}
+                      aria-invalid={!!fieldErrors.email}
                       onChange={(e) => updateField('email', e.target.value)}
                       className="w-full h-10 bg-gray-800/50 border border-gray-700/50 rounded-md px-3 py-2 text-white text-sm focus:border-purple-500 focus:ring-1 focus:ring-purple-500/20 focus:outline-none transition-all duration-300"
                       required
                       placeholder="your@email.com"
                     />
+                    <FieldErrorText message={fieldErrors.email} />
                   </div>
 
                   <div className="group">
@@ -264,11 +313,13 @@ export default function Variant1Form() {
                     <input
                       type="date"
                       value={formData.birthDate}
+                      aria-invalid={!!fieldErrors.birthDate}
                       onChange={(e) => updateField('birthDate', e.target.value)}
                       max={`${new Date().getFullYear() - 18}-12-31`}
                       className="w-full h-10 bg-gray-800/50 border border-gray-700/50 rounded-md px-3 py-2 text-white text-sm focus:border-purple-500 focus:ring-1 focus:ring-purple-500/20 focus:outline-none transition-all duration-300 [color-scheme:dark]"
                       required
                     />
+                    <FieldErrorText message={fieldErrors.birthDate} />
                   </div>
 
                   <div className="group">
@@ -280,6 +331,7 @@ export default function Variant1Form() {
                       <input
                         type="time"
                         value={formData.birthTime === 'unknown' ? '' : formData.birthTime}
+                        aria-invalid={!!fieldErrors.birthTime}
                         onChange={(e) => updateField('birthTime', e.target.value)}
                         className="flex-1 h-10 bg-gray-800/50 border border-gray-700/50 rounded-md px-3 py-2 text-white text-sm focus:border-purple-500 focus:ring-1 focus:ring-purple-500/20 focus:outline-none transition-all duration-300 [color-scheme:dark]"
                         disabled={formData.birthTime === 'unknown'}
@@ -296,6 +348,7 @@ export default function Variant1Form() {
                         Unknown
                       </button>
                     </div>
+                    <FieldErrorText message={fieldErrors.birthTime} />
                   </div>
 
                   <div className="group md:col-span-2">
@@ -303,14 +356,17 @@ export default function Variant1Form() {
                       BIRTH LOCATION *
                       <FieldTooltip content="City, state, and country where you were born for location-based astrological calculations" />
                     </label>
-                    <input
-                      type="text"
+                    <PlaceCombobox
                       value={formData.birthLocation}
-                      onChange={(e) => updateField('birthLocation', e.target.value)}
-                      className="w-full h-10 bg-gray-800/50 border border-gray-700/50 rounded-md px-3 py-2 text-white text-sm focus:border-purple-500 focus:ring-1 focus:ring-purple-500/20 focus:outline-none transition-all duration-300"
+                      invalid={!!fieldErrors.birthLocation}
+                      onChange={(text) => updateField('birthLocation', text)}
+                      onSelect={selectBirthPlace}
+                      label="Birth location"
+                      inputClassName="w-full h-10 bg-gray-800/50 border border-gray-700/50 rounded-md px-3 py-2 text-white text-sm focus:border-purple-500 focus:ring-1 focus:ring-purple-500/20 focus:outline-none transition-all duration-300"
                       placeholder="City, State, Country"
                       required
                     />
+                    <FieldErrorText message={fieldErrors.birthLocation} />
                   </div>
 
                   <div className="group">
@@ -320,20 +376,18 @@ export default function Variant1Form() {
                     </label>
                     <select
                       value={formData.timeZone}
+                      aria-invalid={!!fieldErrors.timeZone}
                       onChange={(e) => updateField('timeZone', e.target.value)}
                       className="w-full h-10 bg-gray-800/50 border border-gray-700/50 rounded-md px-3 py-2 text-white text-sm focus:border-purple-500 focus:ring-1 focus:ring-purple-500/20 focus:outline-none transition-all duration-300 appearance-none [color-scheme:dark]"
                     >
                       <option value={Intl.DateTimeFormat().resolvedOptions().timeZone} className="bg-gray-900">
                         Auto-detected
                       </option>
-                      <option value="America/New_York" className="bg-gray-900">Eastern</option>
-                      <option value="America/Chicago" className="bg-gray-900">Central</option>
-                      <option value="America/Denver" className="bg-gray-900">Mountain</option>
-                      <option value="America/Los_Angeles" className="bg-gray-900">Pacific</option>
-                      <option value="Europe/London" className="bg-gray-900">GMT</option>
-                      <option value="Europe/Paris" className="bg-gray-900">CET</option>
-                      <option value="Asia/Tokyo" className="bg-gray-900">JST</option>
+                      {TIME_ZONE_OPTIONS.map(option => (
+                        <option key={option.value} value={option.value} className="bg-gray-900">{option.label}</option>
+                      ))}
                     </select>
+                    <FieldErrorText message={fieldErrors.timeZone} />
                   </div>
 
                   <div className="group">
@@ -344,9 +398,11 @@ export default function Variant1Form() {
                     <input
                       type="time"
                       value={formData.dayStartTime}
+                      aria-invalid={!!fieldErrors.dayStartTime}
                       onChange={(e) => updateField('dayStartTime', e.target.value)}
                       className="w-full h-10 bg-gray-800/50 border border-gray-700/50 rounded-md px-3 py-2 text-white text-sm focus:border-purple-500 focus:ring-1 focus:ring-purple-500/20 focus:outline-none transition-all duration-300 [color-scheme:dark]"
                     />
+                    <FieldErrorText message={fieldErrors.dayStartTime} />
                   </div>
 
                   <div className="group">
@@ -356,6 +412,7 @@ export default function Variant1Form() {
                     </label>
                     <select
                       value={formData.relationshipStatus}
+                      aria-invalid={!!fieldErrors.relationshipStatus}
                       onChange={(e) => updateField('relationshipStatus', e.target.value)}
                       className="w-full h-10 bg-gray-800/50 border border-gray-700/50 rounded-md px-3 py-2 text-white text-sm focus:border-purple-500 focus:ring-1 focus:ring-purple-500/20 focus:outline-none transition-all duration-300 appearance-none"
                     >
@@ -365,6 +422,7 @@ export default function Variant1Form() {
                       <option value="married" className="bg-gray-900">Married</option>
                       <option value="complicated" className="bg-gray-900">It's Complicated</option>
                     </select>
+                    <FieldErrorText message={fieldErrors.relationshipStatus} />
                   </div>
                 </div>
               </div>
@@ -380,14 +438,7 @@ export default function Variant1Form() {
                   </p>
                 </div>
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                  {[
-                    'Astrology',
-                    'Numerology', 
-                    'Daily Tarot Wisdom',
-                    'Crystal & Gemstone Guidance',
-                    'Chakra & Energy Work',
-                    'Feng Shui & Space Harmony'
-                  ].map(practice => (
+                  {PRACTICE_OPTIONS.map(practice => (
                     <Toggle
                       key={practice}
                       checked={formData.practices.includes(practice)}
@@ -397,6 +448,7 @@ export default function Variant1Form() {
                     />
                   ))}
                 </div>
+                <FieldErrorText message={fieldErrors.practices} className="mt-2 text-xs text-amber-400" />
               </div>
 
               {/* Life Focus Section */}
@@ -410,14 +462,7 @@ export default function Variant1Form() {
                   </p>
                 </div>
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                  {[
-                    'Love & Relationships',
-                    'Career & Success',
-                    'Health & Wellness', 
-                    'Wealth & Abundance',
-                    'Personal Growth',
-                    'Family & Home'
-                  ].map(focus => (
+                  {LIFE_FOCUS_OPTIONS.map(focus => (
                     <Toggle
                       key={focus}
                       checked={formData.lifeFocus.includes(focus)}
@@ -427,10 +472,12 @@ export default function Variant1Form() {
                     />
                   ))}
                 </div>
+                <FieldErrorText message={fieldErrors.lifeFocus} className="mt-2 text-xs text-amber-400" />
               </div>
 
               {/* Submit Button */}
               <div className="pt-4 text-center">
+                <ChallengeWidget {...botDefense.challenge} className="flex justify-center mb-4" />
                 <button
                   type="submit"
                   disabled={isSubmitting || hasSubmitted}
@@ -441,6 +488,9 @@ export default function Variant1Form() {
                   </span>
                   <div className="absolute inset-0 bg-gradient-to-r from-white/20 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300"></div>
                 </button>
+                {submitError && (
+                  <p role="alert" className="text-sm text-amber-400 mt-3">{submitError}</p>
+                )}
                 <p className="text-xs text-gray-500 mt-3 font-light">
                   7-Day Free trial • No credit card required • $4.99/mo after
                 </p>
@@ -1,14 +1,13 @@
 import React from 'react';
 import { motion } from 'framer-motion';
 import { Star } from 'lucide-react';
-import { useTaglineVariant } from '../../hooks/useTaglineVariant';
-import { getCtaVariant } from '../../utils/ctaVariants';
+import { useExperiment } from '../../hooks/useExperiment';
 import { useLogger } from '../../hooks/useLogger';
 
 export default function Variant1Hero() {
-  const taglineVariant = useTaglineVariant();
+  const { value: taglineVariant } = useExperiment('tagline');
   const { logUserAction } = useLogger('Variant1Hero');
-  const cta = getCtaVariant();
+  const { value: cta } = useExperiment('cta');
   const scrollToForm = React.useCallback(() => {
     const el = document.getElementById('form-section');
     if (el) el.scrollIntoView({ behavior: 'smooth' });
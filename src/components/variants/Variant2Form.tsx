@@ -1,8 +1,15 @@
 import React, { useState, useEffect } from 'react';
 import { FieldTooltip } from '../FieldTooltip';
-import { validateForm, displayValidationErrors } from '../../utils/formValidation';
-import { submitFormWithTracking } from '../../utils/visitorTracking';
+import { validateForm, fieldErrorMap, type FieldErrors } from '../../utils/formValidation';
+import { submitFormWithTracking, createIdempotencyKey, describeSubmissionError } from '../../utils/visitorTracking';
+import { birthPlaceFields, type PlaceSuggestion } from '../../utils/placeSearch';
+import { LIFE_FOCUS_OPTIONS, PRACTICE_OPTIONS, TIME_ZONE_OPTIONS } from '../../utils/formOptions';
 import EnhancedConfirmation from '../EnhancedConfirmation';
+import HoneypotField from '../HoneypotField';
+import PlaceCombobox from '../PlaceCombobox';
+import FieldErrorText from '../FieldErrorText';
+import ChallengeWidget from '../ChallengeWidget';
+import { useBotDefense } from '../../hooks/useBotDefense';
 import { useLogger } from '../../hooks/useLogger';
 
 interface FormData {
@@ -11,6 +18,10 @@ interface FormData {
   email: string;
   birthDate: string;
   birthLocation: string;
+  birthPlaceId: string;
+  birthLatitude: number | null;
+  birthLongitude: number | null;
+  birthTimezone: string;
   timeZone: string;
   dayStartTime: string;
   birthTime: string;
@@ -61,6 +72,7 @@ export default function Variant2Form() {
     email: '',
     birthDate: '',
     birthLocation: '',
+    ...birthPlaceFields(null),
     timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
     dayStartTime: '07:00',
     birthTime: '',
@@ -72,6 +84,13 @@ export default function Variant2Form() {
   const [showConfirmation, setShowConfirmation] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [hasSubmitted, setHasSubmitted] = useState(false);
+  const [isDuplicate, setIsDuplicate] = useState(false);
+  const [pendingConfirmation, setPendingConfirmation] = useState(false);
+  const [submitError, setSubmitError] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const botDefense = useBotDefense();
+  // One key per form fill, so a retried submit is not registered twice
+  const [idempotencyKey] = useState(createIdempotencyKey);
 
   // Check for existing submission on component mount
   useEffect(() => {
@@ -101,9 +120,15 @@ export default function Variant2Form() {
 
   const updateField = (field: keyof FormData, value: string | string[]) => {
     setFormData(prev => ({ ...prev, [field]: value }));
+    setFieldErrors(prev => ({ ...prev, [field]: undefined }));
+  };
+
+  const selectBirthPlace = (place: PlaceSuggestion | null) => {
+    setFormData(prev => ({ ...prev, ...birthPlaceFields(place) }));
   };
 
   const togglePractice = (practice: string) => {
+    setFieldErrors(prev => ({ ...prev, practices: undefined }));
     setFormData(prev => ({
       ...prev,
       practices: prev.practices.includes(practice)
@@ -115,6 +140,7 @@ export default function Variant2Form() {
   };
 
   const toggleLifeFocus = (focus: string) => {
+    setFieldErrors(prev => ({ ...prev, lifeFocus: undefined }));
     if (formData.lifeFocus.includes(focus)) {
       setFormData(prev => ({
         ...prev,
@@ -150,24 +176,34 @@ export default function Variant2Form() {
     // Validate form using shared utility for consistency
     const validation = validateForm(formData as any);
     if (!validation.isValid) {
-      displayValidationErrors(validation.errors);
+      setFieldErrors(fieldErrorMap(validation.fieldErrors));
+      setSubmitError('Please fix the highlighted fields and try again.');
       logInfo('validation_failed', { errors: validation.errors });
       return;
     }
 
+    if (botDefense.challengePending) {
+      setSubmitError('Please wait a moment for the security check to finish.');
+      return;
+    }
+
+    setSubmitError('');
+    setFieldErrors({});
     setIsSubmitting(true);
     
     try {
       // Submit form with full visitor tracking
-      await submitFormWithTracking(formData as unknown as Record<string, unknown>, 'variant2');
+      const result = await submitFormWithTracking(formData as unknown as Record<string, unknown>, 'variant2', undefined, { idempotencyKey, botCheck: botDefense.botCheck });
+      setIsDuplicate(result.duplicate);
+      setPendingConfirmation(result.confirmationRequired);
       logInfo('form_submitted');
       
       // Store submission data in localStorage
       localStorage.setItem('astropal_variant2_submitted_email', formData.email);
       localStorage.setItem('astropal_variant2_submission_timestamp', Date.now().toString());
       
-      // Fire Facebook Lead conversion event ONLY after successful submission
-      if (typeof window !== 'undefined' && window.fbq) {
+      // Fire Facebook Lead conversion event ONLY after successful, first-time submission
+      if (!result.duplicate && typeof window !== 'undefined' && window.fbq) {
         window.fbq('track', 'Lead', {
           content_name: 'Astropal Registration',
           content_category: 'Lead',
@@ -182,8 +218,12 @@ export default function Variant2Form() {
       
     } catch (error) {
       logError(error, { phase: 'handleSubmit' });
-      alert('Registration failed. Please try again.');
+      const { fieldErrors: rejected, message } = describeSubmissionError(error);
+      setFieldErrors(rejected);
+      setSubmitError(message);
     } finally {
+      // The token was spent on this attempt; a retry needs a fresh one
+      botDefense.resetChallenge();
       setIsSubmitting(false);
     }
   };
@@ -195,11 +235,14 @@ export default function Variant2Form() {
           <EnhancedConfirmation
             userEmail={formData.email}
             variant="variant2"
+            duplicate={isDuplicate}
+            pendingConfirmation={pendingConfirmation}
           />
         </div>
       ) : (
         <>          
           <form onSubmit={handleSubmit} className="space-y-8">
+            <HoneypotField value={botDefense.honeypot} onChange={botDefense.setHoneypot} />
             {/* Main Form Card with Title */}
             <div className="bg-gray-900/30 backdrop-blur-sm border border-gray-800/50 rounded-xl p-6 md:p-8">
               {/* Form Title */}
@@ -219,10 +262,12 @@ export default function Variant2Form() {
                     <input
                       type="text"
                       value={formData.fullName}
+                      aria-invalid={!!fieldErrors.fullName}
                       onChange={(e) => updateField('fullName', e.target.value)}
                       className="w-full bg-gray-800/50 border border-gray-700 rounded-md px-3 py-2 text-white text-sm focus:border-purple-500 focus:ring-1 focus:ring-purple-500/20 focus:outline-none transition-all"
                       required={formData.practices.includes('Numerology')}
                     />
+                    <FieldErrorText message={fieldErrors.fullName} />
                   </div>
                   
                   <div className="space-y-1.5">
@@ -233,10 +278,12 @@ export default function Variant2Form() {
                     <input
                       type="text"
                       value={formData.preferredName}
+                      aria-invalid={!!fieldErrors.preferredName}
                       onChange={(e) => updateField('preferredName', e.target.value)}
                       className="w-full bg-gray-800/50 border border-gray-700 rounded-md px-3 py-2 text-white text-sm focus:border-purple-500 focus:ring-1 focus:ring-purple-500/20 focus:outline-none transition-all"
                       required
                     />
+                    <FieldErrorText message={fieldErrors.preferredName} />
                   </div>
                   
                   <div className="space-y-1.5">
@@ -247,10 +294,12 @@ export default function Variant2Form() {
                     <input
                       type="email"
                       value={formData.email}
+                      aria-invalid={!!fieldErrors.email}
                       onChange={(e) => updateField('email', e.target.value)}
                       className="w-full bg-gray-800/50 border border-gray-700 rounded-md px-3 py-2 text-white text-sm focus:border-purple-500 focus:ring-1 focus:ring-purple-500/20 focus:outline-none transition-all"
                       required
                     />
+                    <FieldErrorText message={fieldErrors.email} />
                   </div>
 
                   <div className="space-y-1.5">
@@ -261,11 +310,13 @@ export default function Variant2Form() {
                     <input
                       type="date"
                       value={formData.birthDate}
+                      aria-invalid={!!fieldErrors.birthDate}
                       onChange={(e) => updateField('birthDate', e.target.value)}
                       max={`${new Date().getFullYear() - 18}-12-31`}
                       className="w-full bg-gray-800/50 border border-gray-700 rounded-md px-3 py-2 text-white text-sm focus:border-purple-500 focus:ring-1 focus:ring-purple-500/20 focus:outline-none transition-all [color-scheme:dark]"
                       required
                     />
+                    <FieldErrorText message={fieldErrors.birthDate} />
                   </div>
 
                   <div className="space-y-1.5">
@@ -273,14 +324,17 @@ export default function Variant2Form() {
                       Birth Location *
                       <FieldTooltip content="City, state, and country where you were born for location-based astrological calculations" />
                     </label>
-                    <input
-                      type="text"
+                    <PlaceCombobox
                       value={formData.birthLocation}
-                      onChange={(e) => updateField('birthLocation', e.target.value)}
-                      className="w-full bg-gray-800/50 border border-gray-700 rounded-md px-3 py-2 text-white text-sm focus:border-purple-500 focus:ring-1 focus:ring-purple-500/20 focus:outline-none transition-all"
+                      invalid={!!fieldErrors.birthLocation}
+                      onChange={(text) => updateField('birthLocation', text)}
+                      onSelect={selectBirthPlace}
+                      label="Birth location"
+                      inputClassName="w-full bg-gray-800/50 border border-gray-700 rounded-md px-3 py-2 text-white text-sm focus:border-purple-500 focus:ring-1 focus:ring-purple-500/20 focus:outline-none transition-all"
                       placeholder="City, State, Country"
                       required
                     />
+                    <FieldErrorText message={fieldErrors.birthLocation} />
                   </div>
 
                   <div className="space-y-1.5">
@@ -290,18 +344,16 @@ export default function Variant2Form() {
                     </label>
                     <select
                       value={formData.timeZone}
+                      aria-invalid={!!fieldErrors.timeZone}
                       onChange={(e) => updateField('timeZone', e.target.value)}
                       className="w-full bg-gray-800/50 border border-gray-700 rounded-md px-3 py-2 text-white text-sm focus:border-purple-500 focus:ring-1 focus:ring-purple-500/20 focus:outline-none transition-all appearance-none [color-scheme:dark]"
                     >
                       <option value={Intl.DateTimeFormat().resolvedOptions().timeZone}>Auto-detected</option>
-                      <option value="America/New_York">Eastern</option>
-                      <option value="America/Chicago">Central</option>
-                      <option value="America/Denver">Mountain</option>
-                      <option value="America/Los_Angeles">Pacific</option>
-                      <option value="Europe/London">GMT</option>
-                      <option value="Europe/Paris">CET</option>
-                      <option value="Asia/Tokyo">JST</option>
+                      {TIME_ZONE_OPTIONS.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
                     </select>
+                    <FieldErrorText message={fieldErrors.timeZone} />
                   </div>
 
                   <div className="space-y-1.5">
@@ -312,9 +364,11 @@ export default function Variant2Form() {
                     <input
                       type="time"
                       value={formData.dayStartTime}
+                      aria-invalid={!!fieldErrors.dayStartTime}
                       onChange={(e) => updateField('dayStartTime', e.target.value)}
                       className="w-full bg-gray-800/50 border border-gray-700 rounded-md px-3 py-2 text-white text-sm focus:border-purple-500 focus:ring-1 focus:ring-purple-500/20 focus:outline-none transition-all"
                     />
+                    <FieldErrorText message={fieldErrors.dayStartTime} />
                   </div>
 
                   <div className="space-y-1.5">
@@ -326,6 +380,7 @@ export default function Variant2Form() {
                       <input
                         type="time"
                         value={formData.birthTime === 'unknown' ? '' : formData.birthTime}
+                        aria-invalid={!!fieldErrors.birthTime}
                         onChange={(e) => updateField('birthTime', e.target.value)}
                         className="flex-1 bg-gray-800/50 border border-gray-700 rounded-md px-3 py-2 text-white text-sm focus:border-purple-500 focus:ring-1 focus:ring-purple-500/20 focus:outline-none transition-all"
                         disabled={formData.birthTime === 'unknown'}
@@ -342,6 +397,7 @@ export default function Variant2Form() {
                         UNKNOWN
                       </button>
                     </div>
+                    <FieldErrorText message={fieldErrors.birthTime} />
                   </div>
 
                   <div className="space-y-1.5">
@@ -351,6 +407,7 @@ export default function Variant2Form() {
                     </label>
                     <select
                       value={formData.relationshipStatus}
+                      aria-invalid={!!fieldErrors.relationshipStatus}
                       onChange={(e) => updateField('relationshipStatus', e.target.value)}
                       className="w-full bg-gray-800/50 border border-gray-700 rounded-md px-3 py-2 text-white text-sm focus:border-purple-500 focus:ring-1 focus:ring-purple-500/20 focus:outline-none transition-all"
                     >
@@ -360,6 +417,7 @@ export default function Variant2Form() {
                       <option value="married">Married</option>
                       <option value="complicated">It's Complicated</option>
                     </select>
+                    <FieldErrorText message={fieldErrors.relationshipStatus} />
                   </div>
                 </div>
               </div>
@@ -373,14 +431,7 @@ export default function Variant2Form() {
                   </p>
                 </div>
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                  {[
-                    'Astrology',
-                    'Numerology', 
-                    'Daily Tarot Wisdom',
-                    'Crystal & Gemstone Guidance',
-                    'Chakra & Energy Work',
-                    'Feng Shui & Space Harmony'
-                  ].map(practice => (
+                  {PRACTICE_OPTIONS.map(practice => (
                     <Toggle
                       key={practice}
                       checked={formData.practices.includes(practice)}
@@ -390,6 +441,7 @@ export default function Variant2Form() {
                     />
                   ))}
                 </div>
+                <FieldErrorText message={fieldErrors.practices} className="mt-2 text-xs text-amber-400" />
               </div>
 
               {/* Life Focus Areas */}
@@ -401,14 +453,7 @@ export default function Variant2Form() {
                   </p>
                 </div>
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                  {[
-                    'Love & Relationships',
-                    'Career & Success',
-                    'Health & Wellness', 
-                    'Wealth & Abundance',
-                    'Personal Growth',
-                    'Family & Home'
-                  ].map(focus => (
+                  {LIFE_FOCUS_OPTIONS.map(focus => (
                     <Toggle
                       key={focus}
                       checked={formData.lifeFocus.includes(focus)}
@@ -418,12 +463,14 @@ export default function Variant2Form() {
                     />
                   ))}
                 </div>
+                <FieldErrorText message={fieldErrors.lifeFocus} className="mt-2 text-xs text-amber-400" />
               </div>
             </div>
           </form>
 
           {/* Submit Button Section - Separated with more spacing */}
           <div className="text-center mt-12">
+            <ChallengeWidget {...botDefense.challenge} className="flex justify-center mb-4" />
             <button
               onClick={handleSubmit}
               disabled={isSubmitting}
@@ -431,6 +478,9 @@ export default function Variant2Form() {
             >
               {isSubmitting ? 'CREATING YOUR COSMIC JOURNEY...' : 'BEGIN COSMIC JOURNEY'}
             </button>
+            {submitError && (
+              <p role="alert" className="text-sm text-amber-400 mt-4">{submitError}</p>
+            )}
             <p className="text-xs md:text-sm text-gray-500 mt-4">
               7-Day Free trial • No credit card required • $4.99/mo after
             </p>
@@ -0,0 +1,38 @@
+import { useState } from 'react';
+import type { BotCheck } from '../utils/visitorTracking';
+
+// Turnstile site key; the challenge widget is not rendered when unset
+export const CHALLENGE_SITE_KEY: string | undefined = import.meta.env.VITE_TURNSTILE_SITE_KEY || undefined;
+
+/**
+ * Hook for the signup forms' bot defense signals
+ * Stamps the form start time and tracks the honeypot value and challenge token
+ */
+export function useBotDefense() {
+  const [formStartedAt] = useState(() => Date.now());
+  const [honeypot, setHoneypot] = useState('');
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [challengeUnavailable, setChallengeUnavailable] = useState(false);
+  const [challengeResetKey, setChallengeResetKey] = useState(0);
+
+  const botCheck: BotCheck = { honeypot, formStartedAt, challengeToken };
+
+  return {
+    botCheck,
+    honeypot,
+    setHoneypot,
+    // Props for ChallengeWidget
+    challenge: {
+      onToken: setChallengeToken,
+      onUnavailable: () => setChallengeUnavailable(true),
+      resetKey: challengeResetKey
+    },
+    // Tokens are single use: call after every submit so a retry gets a fresh one
+    resetChallenge: () => {
+      setChallengeToken(null);
+      setChallengeResetKey(key => key + 1);
+    },
+    // True while the challenge widget is enabled but has not produced a token yet
+    challengePending: !!CHALLENGE_SITE_KEY && !challengeToken && !challengeUnavailable
+  };
+}
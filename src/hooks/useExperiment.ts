@@ -0,0 +1,11 @@
+import { useState } from 'react';
+import { getExperiment, type ExperimentAssignment, type ExperimentKey, type ExperimentValue } from '../utils/experiments';
+
+/**
+ * Hook for an experiment in the registry (src/utils/experiments.ts)
+ * Assigns on first render and keeps the arm for the component's lifetime, so it renders on first paint
+ */
+export function useExperiment<K extends ExperimentKey>(key: K): ExperimentAssignment<ExperimentValue<K>> {
+  const [assignment] = useState(() => getExperiment(key));
+  return assignment;
+}
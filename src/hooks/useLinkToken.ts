@@ -0,0 +1,44 @@
+import { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { verifyLinkToken, type LinkAction } from '../utils/linkTokens';
+
+export type LinkState = 'none' | 'checking' | 'valid' | 'expired' | 'invalid' | 'error';
+
+/**
+ * Hook for service pages opened from a signed email link
+ * Verifies `?token=` before the page shows its form; without a token the page asks for an email instead
+ */
+export function useLinkToken(action: LinkAction) {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const [state, setState] = useState<LinkState>(token ? 'checking' : 'none');
+  const [uid, setUid] = useState<string | null>(null);
+
+  useEffect(() => {
+    setUid(null);
+    if (!token) {
+      setState('none');
+      return;
+    }
+
+    let cancelled = false;
+    setState('checking');
+    verifyLinkToken(token, action).then(result => {
+      if (cancelled) return;
+      setState(result.state);
+      if (result.state === 'valid') setUid(result.uid);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [token, action]);
+
+  return {
+    state,
+    // Only a verified token is sent with the form
+    token: state === 'valid' ? token : null,
+    uid,
+    // Drop a broken link and fall back to identifying by email
+    continueWithEmail: () => setState('none')
+  };
+}
@@ -0,0 +1,106 @@
+// Error envelope returned by the Pages Functions - shared by the functions and the browser
+import type { FieldError, FieldErrorCode } from './submissionSchema';
+
+/**
+ * Stable error codes. Clients branch on these, so existing codes must not be renamed or reused.
+ */
+export type ApiErrorCode =
+  | 'VALIDATION_FAILED'
+  | 'EMAIL_INVALID'
+  | 'INVALID_BODY'
+  | 'INVALID_TOKEN'
+  | 'UNAUTHORIZED'
+  | 'ORIGIN_NOT_ALLOWED'
+  | 'NOT_FOUND'
+  | 'RATE_LIMITED'
+  | 'NOT_CONFIGURED'
+  | 'UPSTREAM_UNAVAILABLE'
+  | 'INTERNAL_ERROR';
+
+interface ApiErrorDefinition {
+  status: number;
+  /** Short label sent as `error`, kept for clients that predate the codes */
+  title: string;
+  /** Whether sending the same request again later can succeed */
+  retryable: boolean;
+}
+
+export const API_ERRORS: Record<ApiErrorCode, ApiErrorDefinition> = {
+  VALIDATION_FAILED: { status: 400, title: 'Validation failed', retryable: false },
+  EMAIL_INVALID: { status: 400, title: 'Validation failed', retryable: false },
+  INVALID_BODY: { status: 400, title: 'Invalid request body', retryable: false },
+  INVALID_TOKEN: { status: 400, title: 'Invalid token', retryable: false },
+  UNAUTHORIZED: { status: 401, title: 'Unauthorized', retryable: false },
+  ORIGIN_NOT_ALLOWED: { status: 403, title: 'Origin not allowed', retryable: false },
+  NOT_FOUND: { status: 404, title: 'Not found', retryable: false },
+  RATE_LIMITED: { status: 429, title: 'Too many requests', retryable: true },
+  NOT_CONFIGURED: { status: 503, title: 'Endpoint is not configured', retryable: false },
+  UPSTREAM_UNAVAILABLE: { status: 503, title: 'Service unavailable', retryable: true },
+  INTERNAL_ERROR: { status: 500, title: 'Request failed', retryable: true }
+};
+
+/**
+ * A rejected field. `path` is dotted and relative to the request body, e.g. `formData.email`.
+ */
+export interface ApiFieldError {
+  path: string;
+  code: FieldErrorCode;
+  message: string;
+}
+
+export interface ApiErrorBody {
+  error: string;
+  code: ApiErrorCode;
+  message: string;
+  retryable: boolean;
+  fields?: ApiFieldError[];
+  /** Rate limited responses: seconds until a retry can succeed (also sent as Retry-After) */
+  retryAfterSeconds?: number;
+  /** Matches the function logs (the CF-Ray of the request) */
+  requestId?: string;
+}
+
+/**
+ * Field errors from a schema result, with paths under `prefix` (the body key the fields were read from)
+ */
+export function toApiFieldErrors(errors: FieldError[], prefix?: string): ApiFieldError[] {
+  // A missing body object is reported on the prefix itself
+  return errors.map(({ field, code, message }) => ({ path: prefix && field !== prefix ? `${prefix}.${field}` : field, code, message }));
+}
+
+/**
+ * Code for a validation failure: EMAIL_INVALID when only the email was rejected, so clients can
+ * point at that one field without reading the list
+ */
+export function validationErrorCode(fields: ApiFieldError[]): ApiErrorCode {
+  return fields.length > 0 && fields.every(field => /(^|\.)email$/.test(field.path)) ? 'EMAIL_INVALID' : 'VALIDATION_FAILED';
+}
+
+function isApiErrorCode(value: unknown): value is ApiErrorCode {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(API_ERRORS, value);
+}
+
+/**
+ * Reads an error response body. Responses without a known code (older deployments, proxies,
+ * the platform's own error pages) are classified by status.
+ */
+export function parseApiError(status: number, body: unknown): ApiErrorBody {
+  const record = body && typeof body === 'object' ? (body as Record<string, unknown>) : {};
+  const code: ApiErrorCode = isApiErrorCode(record.code)
+    ? record.code
+    : status === 429 ? 'RATE_LIMITED' : status >= 500 ? 'UPSTREAM_UNAVAILABLE' : 'VALIDATION_FAILED';
+  const fields = Array.isArray(record.fields)
+    ? (record.fields as unknown[]).filter((field): field is ApiFieldError =>
+      !!field && typeof (field as ApiFieldError).path === 'string' && typeof (field as ApiFieldError).message === 'string')
+    : undefined;
+
+  return {
+    error: typeof record.error === 'string' ? record.error : API_ERRORS[code].title,
+    code,
+    message: typeof record.message === 'string' ? record.message : API_ERRORS[code].title,
+    retryable: typeof record.retryable === 'boolean' ? record.retryable : API_ERRORS[code].retryable,
+    fields,
+    retryAfterSeconds: typeof record.retryAfterSeconds === 'number' ? record.retryAfterSeconds : undefined,
+    requestId: typeof record.requestId === 'string' ? record.requestId : undefined
+  };
+}
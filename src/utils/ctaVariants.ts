@@ -1,3 +1,4 @@
+// CTA copy under test; assignment is the `cta` experiment in src/utils/experiments.ts
 export interface CtaVariant {
   id: string;
   label: string;
@@ -22,39 +23,3 @@ export const CTA_VARIANTS: CtaVariant[] = [
   { id: 'CTA-PERSONALIZE', label: 'Personalize My AI Horoscope', subtext: 'Tuned to your details for accuracy' },
   { id: 'CTA-LOVE-CAREER', label: 'Get Love & Career Timing', subtext: 'Power hours for what matters most' },
 ];
-
-const CTA_COOKIE = 'astropal_cta_variant';
-const CTA_COOKIE_DAYS = 14;
-
-function setCookie(name: string, value: string, days: number): void {
-  const expires = new Date(Date.now() + days * 86400000).toUTCString();
-  document.cookie = `${name}=${value};expires=${expires};path=/;SameSite=Lax;Secure`;
-}
-
-function getCookie(name: string): string | null {
-  const nameEQ = name + '=';
-  const parts = document.cookie.split(';');
-  for (let c of parts) {
-    c = c.trim();
-    if (c.indexOf(nameEQ) === 0) return c.substring(nameEQ.length);
-  }
-  return null;
-}
-
-export function getCtaVariant(): CtaVariant {
-  try {
-    const existing = getCookie(CTA_COOKIE);
-    if (existing) {
-      const found = CTA_VARIANTS.find(v => v.id === existing);
-      if (found) return found;
-    }
-    const idx = Math.floor(Math.random() * CTA_VARIANTS.length);
-    const selected = CTA_VARIANTS[idx];
-    setCookie(CTA_COOKIE, selected.id, CTA_COOKIE_DAYS);
-    return selected;
-  } catch {
-    return CTA_VARIANTS[0];
-  }
-}
-
-
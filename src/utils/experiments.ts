@@ -0,0 +1,200 @@
+// Experiment registry: every A/B test on the site, with its arms, weights, persistence and run dates.
+// Shared with the Pages Function for `/` (functions/index.ts), which assigns the edge experiments with the page.
+
+import { CTA_VARIANTS, type CtaVariant } from './ctaVariants';
+import { DEFAULT_TAGLINE, TAGLINE_VARIANTS, type TaglineVariant } from './taglineVariants';
+
+export interface ExperimentArm<T> {
+  /** What is stored and reported for the visitor (cookie value, `tagline_variant`, ...) */
+  id: string;
+  /** Relative share of new visitors; weights need not add up to anything */
+  weight: number;
+  value: T;
+}
+
+export type ExperimentPersistence =
+  | {
+      kind: 'cookie';
+      name: string;
+      days: number;
+      /** Assign in the landing page response, so the arm is known on first paint */
+      assignAtEdge?: boolean;
+    }
+  | {
+      kind: 'localStorage';
+      key: string;
+      days: number;
+    };
+
+export interface ExperimentDefinition<T> {
+  description: string;
+  arms: ExperimentArm<T>[];
+  /** Shown outside the run dates and when the arm cannot be assigned; not persisted */
+  fallback: { id: string; value: T };
+  persistence: ExperimentPersistence;
+  /** ISO dates; the experiment runs from `startsAt` (inclusive) until `endsAt` (exclusive) */
+  startsAt?: string;
+  endsAt?: string;
+}
+
+function defineExperiment<T>(definition: ExperimentDefinition<T>): ExperimentDefinition<T> {
+  return definition;
+}
+
+export type VariantType = 'variant0' | 'variant1' | 'variant2';
+
+export const VARIANTS: VariantType[] = ['variant0', 'variant1', 'variant2'];
+
+export const EXPERIMENTS = {
+  landing_page: defineExperiment<VariantType>({
+    description: 'Landing page variant rendered at `/`',
+    arms: VARIANTS.map(variant => ({ id: variant, weight: 1, value: variant })),
+    fallback: { id: 'variant0', value: 'variant0' },
+    persistence: { kind: 'cookie', name: 'astropal_ab_variant', days: 30, assignAtEdge: true }
+  }),
+  cta: defineExperiment<CtaVariant>({
+    description: 'Signup button label and subtext',
+    arms: CTA_VARIANTS.map(cta => ({ id: cta.id, weight: 1, value: cta })),
+    fallback: { id: CTA_VARIANTS[0].id, value: CTA_VARIANTS[0] },
+    persistence: { kind: 'cookie', name: 'astropal_cta_variant', days: 14 }
+  }),
+  tagline: defineExperiment<TaglineVariant>({
+    description: 'Hero headline and subheadline',
+    arms: TAGLINE_VARIANTS.map(tagline => ({ id: tagline.id, weight: 1, value: tagline })),
+    fallback: { id: DEFAULT_TAGLINE.id, value: DEFAULT_TAGLINE },
+    persistence: { kind: 'localStorage', key: 'astropal_tagline_variant_v2', days: 7 }
+  })
+};
+
+export type ExperimentKey = keyof typeof EXPERIMENTS;
+
+export type ExperimentValue<K extends ExperimentKey> =
+  typeof EXPERIMENTS[K] extends ExperimentDefinition<infer T> ? T : never;
+
+export interface ExperimentAssignment<T> {
+  arm: string;
+  value: T;
+}
+
+export const EXPERIMENT_KEYS = Object.keys(EXPERIMENTS) as ExperimentKey[];
+
+// Global the edge writes its assignments in, before the app's script runs
+export const EXPERIMENT_GLOBAL = '__ASTROPAL_EXPERIMENTS__';
+
+declare global {
+  interface Window {
+    [EXPERIMENT_GLOBAL]?: Partial<Record<string, string>>;
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isRunning(definition: ExperimentDefinition<unknown>, now: Date = new Date()): boolean {
+  if (definition.startsAt && now.getTime() < new Date(definition.startsAt).getTime()) return false;
+  if (definition.endsAt && now.getTime() >= new Date(definition.endsAt).getTime()) return false;
+  return true;
+}
+
+export function findArm<T>(definition: ExperimentDefinition<T>, id: unknown): ExperimentArm<T> | null {
+  return typeof id === 'string' ? definition.arms.find(arm => arm.id === id) ?? null : null;
+}
+
+/**
+ * Weighted random pick; `random` is in [0, 1)
+ */
+export function pickArm<T>(definition: ExperimentDefinition<T>, random: number = Math.random()): ExperimentArm<T> {
+  const total = definition.arms.reduce((sum, arm) => sum + Math.max(arm.weight, 0), 0);
+  let remaining = random * total;
+  for (const arm of definition.arms) {
+    remaining -= Math.max(arm.weight, 0);
+    if (remaining < 0) return arm;
+  }
+  return definition.arms[definition.arms.length - 1];
+}
+
+/**
+ * A cookie's value from a Cookie header or document.cookie
+ */
+export function readCookie(cookies: string | null, name: string): string | null {
+  const nameEQ = name + '=';
+  for (const part of (cookies ?? '').split(';')) {
+    const c = part.trim();
+    if (c.indexOf(nameEQ) === 0) return c.substring(nameEQ.length);
+  }
+  return null;
+}
+
+/**
+ * The assignment cookie, as set by document.cookie and by the edge's Set-Cookie header
+ */
+export function assignmentCookie(name: string, armId: string, days: number, now: Date = new Date()): string {
+  const expires = new Date(now.getTime() + days * DAY_MS);
+  return `${name}=${armId};expires=${expires.toUTCString()};path=/;SameSite=Lax;Secure`;
+}
+
+// Browser persistence: the stored arm id, if it has not expired
+function loadArmId(persistence: ExperimentPersistence): string | null {
+  if (persistence.kind === 'cookie') return readCookie(document.cookie, persistence.name);
+
+  const raw = localStorage.getItem(persistence.key);
+  if (!raw) return null;
+  const parsed = JSON.parse(raw) as { id?: unknown; expiry?: unknown };
+  return typeof parsed.id === 'string' && typeof parsed.expiry === 'number' && Date.now() < parsed.expiry ? parsed.id : null;
+}
+
+function saveArmId(persistence: ExperimentPersistence, armId: string): void {
+  if (persistence.kind === 'cookie') {
+    document.cookie = assignmentCookie(persistence.name, armId, persistence.days);
+  } else {
+    localStorage.setItem(persistence.key, JSON.stringify({ id: armId, expiry: Date.now() + persistence.days * DAY_MS }));
+  }
+}
+
+/**
+ * The visitor's arm of an experiment: the one the edge assigned, the stored one, or a new weighted pick
+ * that is stored for next time. Outside its run dates an experiment shows its fallback.
+ */
+export function getExperiment<K extends ExperimentKey>(key: K): ExperimentAssignment<ExperimentValue<K>> {
+  const definition = EXPERIMENTS[key] as ExperimentDefinition<ExperimentValue<K>>;
+  if (!isRunning(definition)) return { arm: definition.fallback.id, value: definition.fallback.value };
+
+  try {
+    // The edge already assigned one and set the cookie with the page
+    const edgeArm = findArm(definition, window[EXPERIMENT_GLOBAL]?.[key]);
+    const storedId = loadArmId(definition.persistence);
+    if (edgeArm) {
+      if (storedId !== edgeArm.id) saveArmId(definition.persistence, edgeArm.id);
+      return { arm: edgeArm.id, value: edgeArm.value };
+    }
+
+    const storedArm = findArm(definition, storedId);
+    if (storedArm) return { arm: storedArm.id, value: storedArm.value };
+
+    // Assign new arm (local development, pages served without the function, or client-side experiments)
+    const arm = pickArm(definition);
+    saveArmId(definition.persistence, arm.id);
+    return { arm: arm.id, value: arm.value };
+  } catch (error) {
+    console.warn(`Error assigning experiment ${key}:`, error);
+    return { arm: definition.fallback.id, value: definition.fallback.value };
+  }
+}
+
+// Get arm for analytics/tracking
+export function getExperimentArm(key: ExperimentKey): string {
+  return getExperiment(key).arm;
+}
+
+// Clear an assignment (for testing purposes)
+export function clearExperiment(key: ExperimentKey): void {
+  const { persistence } = EXPERIMENTS[key];
+  try {
+    if (persistence.kind === 'cookie') {
+      document.cookie = `${persistence.name}=;expires=Thu, 01 Jan 1970 00:00:00 GMT;path=/`;
+    } else {
+      localStorage.removeItem(persistence.key);
+    }
+  } catch {
+    // no-op
+  }
+}
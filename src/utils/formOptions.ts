@@ -0,0 +1,30 @@
+// Choices offered by the signup forms and the preference center
+
+export const PRACTICE_OPTIONS = [
+  'Astrology',
+  'Numerology',
+  'Daily Tarot Wisdom',
+  'Crystal & Gemstone Guidance',
+  'Chakra & Energy Work',
+  'Feng Shui & Space Harmony'
+];
+
+export const LIFE_FOCUS_OPTIONS = [
+  'Love & Relationships',
+  'Career & Success',
+  'Health & Wellness',
+  'Wealth & Abundance',
+  'Personal Growth',
+  'Family & Home'
+];
+
+// Listed after the visitor's auto-detected time zone
+export const TIME_ZONE_OPTIONS: { value: string; label: string }[] = [
+  { value: 'America/New_York', label: 'Eastern' },
+  { value: 'America/Chicago', label: 'Central' },
+  { value: 'America/Denver', label: 'Mountain' },
+  { value: 'America/Los_Angeles', label: 'Pacific' },
+  { value: 'Europe/London', label: 'GMT' },
+  { value: 'Europe/Paris', label: 'CET' },
+  { value: 'Asia/Tokyo', label: 'JST' }
+];
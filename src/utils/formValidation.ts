@@ -1,9 +1,11 @@
 // Professional form validation using industry-standard validator.js library
 import { isEmail } from 'validator';
+import { parseRegistration, type FieldError } from './submissionSchema';
 
 export interface ValidationResult {
   isValid: boolean;
   errors: string[];
+  fieldErrors: FieldError[];
 }
 
 export interface FormData {
@@ -12,6 +14,10 @@ export interface FormData {
   email: string;
   birthDate: string;
   birthLocation: string;
+  birthPlaceId?: string;
+  birthLatitude?: number | null;
+  birthLongitude?: number | null;
+  birthTimezone?: string;
   timeZone?: string;
   dayStartTime?: string;
   birthTime?: string;
@@ -42,87 +48,38 @@ export function validateEmail(email: string): { isValid: boolean; error?: string
 }
 
 /**
- * Comprehensive form validation for all variants
+ * Comprehensive form validation for all variants - shares its rules with the submit-form function
  */
 export function validateForm(formData: FormData): ValidationResult {
-  const errors: string[] = [];
-
-  // Email validation
-  const emailValidation = validateEmail(formData.email);
-  if (!emailValidation.isValid) {
-    errors.push(emailValidation.error!);
-  }
-
-  // Required fields
-  if (!formData.preferredName?.trim()) {
-    errors.push('Preferred name is required');
-  }
-
-  if (!formData.birthDate) {
-    errors.push('Birth date is required');
-  }
-
-  if (!formData.birthLocation?.trim()) {
-    errors.push('Birth location is required');
-  }
-
-  // Age validation (18+)
-  if (formData.birthDate) {
-    const birthDate = new Date(formData.birthDate);
-    const today = new Date();
-    const age = today.getFullYear() - birthDate.getFullYear();
-    const monthDiff = today.getMonth() - birthDate.getMonth();
-    
-    const actualAge = (monthDiff < 0 || (monthDiff === 0 && today.getDate() < birthDate.getDate())) 
-      ? age - 1 
-      : age;
-      
-    if (actualAge < 18) {
-      errors.push('You must be at least 18 years old to sign up');
-    }
-  }
-
-  // Practices validation - at least 1 required
-  if (!formData.practices || formData.practices.length === 0) {
-    errors.push('Please select at least one cosmic practice');
-  }
-
-  // Life focus validation - at least 1 required
-  if (!formData.lifeFocus || formData.lifeFocus.length === 0) {
-    errors.push('Please select at least one life focus area');
-  }
-
-  // Numerology validation
-  if (formData.practices.includes('Numerology') && !formData.fullName?.trim()) {
-    errors.push('Full name is required when Numerology is selected');
-  }
-
-  // Name length validation
-  if (formData.preferredName && formData.preferredName.length > 50) {
-    errors.push('Preferred name must be 50 characters or less');
-  }
-
-  if (formData.fullName && formData.fullName.length > 100) {
-    errors.push('Full name must be 100 characters or less');
-  }
-
-  // Birth location validation
-  if (formData.birthLocation && formData.birthLocation.length < 2) {
-    errors.push('Birth location must be at least 2 characters');
-  }
+  const parsed = parseRegistration(formData);
+  const fieldErrors = parsed.success ? [] : parsed.errors;
 
   return {
-    isValid: errors.length === 0,
-    errors
+    isValid: fieldErrors.length === 0,
+    errors: fieldErrors.map(error => error.message),
+    fieldErrors
   };
 }
 
+// Error message per form field name
+export type FieldErrors = Partial<Record<string, string>>;
+
+// Fields the form does not show; their errors belong to the input they are derived from
+const DISPLAYED_AS: Record<string, string> = {
+  birthPlaceId: 'birthLocation',
+  birthLatitude: 'birthLocation',
+  birthLongitude: 'birthLocation',
+  birthTimezone: 'birthLocation'
+};
+
 /**
- * Display validation errors to user
+ * First error message per form field, for showing next to the inputs
  */
-export function displayValidationErrors(errors: string[]): void {
-  if (errors.length > 0) {
-    const errorMessage = 'Please fix the following issues:\n\n' + errors.map(error => `• ${error}`).join('\n');
-    alert(errorMessage);
+export function fieldErrorMap(errors: Pick<FieldError, 'field' | 'message'>[]): FieldErrors {
+  const map: FieldErrors = {};
+  for (const { field, message } of errors) {
+    const key = DISPLAYED_AS[field] ?? field;
+    map[key] ??= message;
   }
+  return map;
 }
\ No newline at end of file
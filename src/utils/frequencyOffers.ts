@@ -0,0 +1,27 @@
+// Lighter schedules the unsubscribe page offers to subscribers leaving because of email volume.
+// Shared by Unsubscribe.tsx and /api/frequency, so the payload records exactly what the page showed.
+
+export const FREQUENCY_OPTIONS = ['weekly_digest', 'morning_only'] as const;
+
+export type FrequencyOption = typeof FREQUENCY_OPTIONS[number];
+
+export const FREQUENCY_OFFERS: Record<FrequencyOption, { label: string; description: string }> = {
+  weekly_digest: {
+    label: 'Weekly Digest',
+    description: 'One email every Monday morning with the highlights of your week ahead'
+  },
+  morning_only: {
+    label: 'Mornings Only',
+    description: 'Keep your daily morning insights and drop the evening email'
+  }
+};
+
+/** Unsubscribe reasons (as tagged on the page) that lead to the offer */
+export const FREQUENCY_TRIGGER_REASONS = ['Too Frequent', 'Receiving Duplicates'];
+
+/**
+ * The options offered for the picked unsubscribe reasons; none unless one of them is about volume
+ */
+export function frequencyOffersFor(reasons: string[]): FrequencyOption[] {
+  return reasons.some(reason => FREQUENCY_TRIGGER_REASONS.includes(reason)) ? [...FREQUENCY_OPTIONS] : [];
+}
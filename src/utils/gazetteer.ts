@@ -0,0 +1,536 @@
+// Offline gazetteer of countries, first-level regions and major cities
+// Bundled with the functions so birth locations resolve without a network lookup (see placeResolver.ts).
+// Coordinates are WGS84 degrees; countries and regions use their capital's coordinates and timezone.
+// Populations are in thousands and only used to rank otherwise equal matches.
+
+// [ISO 3166-1 code, name, aliases, latitude, longitude, IANA timezone, population]
+export type CountryRow = [string, string, string[], number, number, string, number];
+
+// [country code, region code, name, aliases, latitude, longitude, IANA timezone, population]
+export type RegionRow = [string, string, string, string[], number, number, string, number];
+
+// [name, country code, region code, latitude, longitude, IANA timezone, population, aliases]
+export type CityRow = [string, string, string | null, number, number, string, number, string[]?];
+
+export const COUNTRIES: CountryRow[] = [
+  // North America
+  ['US', 'United States', ['usa', 'united states of america', 'america', 'u s a'], 38.9, -77.04, 'America/New_York', 335000],
+  ['CA', 'Canada', [], 45.42, -75.7, 'America/Toronto', 40000],
+  ['MX', 'Mexico', ['méxico'], 19.43, -99.13, 'America/Mexico_City', 128000],
+  ['PR', 'Puerto Rico', [], 18.47, -66.11, 'America/Puerto_Rico', 3200],
+
+  // Europe
+  ['GB', 'United Kingdom', ['uk', 'great britain', 'britain', 'u k'], 51.51, -0.13, 'Europe/London', 68000],
+  ['IE', 'Ireland', ['eire', 'republic of ireland'], 53.35, -6.26, 'Europe/Dublin', 5100],
+  ['DE', 'Germany', ['deutschland'], 52.52, 13.4, 'Europe/Berlin', 84000],
+  ['FR', 'France', [], 48.86, 2.35, 'Europe/Paris', 68000],
+  ['IT', 'Italy', ['italia'], 41.9, 12.5, 'Europe/Rome', 59000],
+  ['ES', 'Spain', ['españa'], 40.42, -3.7, 'Europe/Madrid', 48000],
+  ['PT', 'Portugal', [], 38.72, -9.14, 'Europe/Lisbon', 10300],
+  ['NL', 'Netherlands', ['the netherlands', 'holland'], 52.37, 4.9, 'Europe/Amsterdam', 17900],
+  ['BE', 'Belgium', [], 50.85, 4.35, 'Europe/Brussels', 11700],
+  ['LU', 'Luxembourg', [], 49.61, 6.13, 'Europe/Luxembourg', 660],
+  ['CH', 'Switzerland', [], 46.95, 7.45, 'Europe/Zurich', 8800],
+  ['AT', 'Austria', ['österreich'], 48.21, 16.37, 'Europe/Vienna', 9100],
+  ['SE', 'Sweden', [], 59.33, 18.07, 'Europe/Stockholm', 10500],
+  ['NO', 'Norway', [], 59.91, 10.75, 'Europe/Oslo', 5500],
+  ['DK', 'Denmark', [], 55.68, 12.57, 'Europe/Copenhagen', 5900],
+  ['FI', 'Finland', [], 60.17, 24.94, 'Europe/Helsinki', 5600],
+  ['IS', 'Iceland', [], 64.15, -21.94, 'Atlantic/Reykjavik', 380],
+  ['PL', 'Poland', [], 52.23, 21.01, 'Europe/Warsaw', 37000],
+  ['CZ', 'Czech Republic', ['czechia'], 50.08, 14.44, 'Europe/Prague', 10900],
+  ['SK', 'Slovakia', [], 48.15, 17.11, 'Europe/Bratislava', 5400],
+  ['HU', 'Hungary', [], 47.5, 19.04, 'Europe/Budapest', 9600],
+  ['RO', 'Romania', [], 44.43, 26.1, 'Europe/Bucharest', 19000],
+  ['BG', 'Bulgaria', [], 42.7, 23.32, 'Europe/Sofia', 6400],
+  ['GR', 'Greece', [], 37.98, 23.73, 'Europe/Athens', 10400],
+  ['HR', 'Croatia', [], 45.81, 15.98, 'Europe/Zagreb', 3900],
+  ['SI', 'Slovenia', [], 46.06, 14.51, 'Europe/Ljubljana', 2100],
+  ['RS', 'Serbia', [], 44.79, 20.45, 'Europe/Belgrade', 6700],
+  ['EE', 'Estonia', [], 59.44, 24.75, 'Europe/Tallinn', 1400],
+  ['LV', 'Latvia', [], 56.95, 24.11, 'Europe/Riga', 1900],
+  ['LT', 'Lithuania', [], 54.69, 25.28, 'Europe/Vilnius', 2800],
+  ['BY', 'Belarus', [], 53.9, 27.57, 'Europe/Minsk', 9200],
+  ['UA', 'Ukraine', [], 50.45, 30.52, 'Europe/Kyiv', 37000],
+  ['RU', 'Russia', ['russian federation'], 55.76, 37.62, 'Europe/Moscow', 144000],
+  ['MT', 'Malta', [], 35.9, 14.51, 'Europe/Malta', 520],
+  ['CY', 'Cyprus', [], 35.17, 33.36, 'Asia/Nicosia', 1200],
+
+  // Caucasus and Central Asia
+  ['GE', 'Georgia', ['sakartvelo'], 41.72, 44.79, 'Asia/Tbilisi', 3700],
+  ['AM', 'Armenia', [], 40.18, 44.51, 'Asia/Yerevan', 2800],
+  ['AZ', 'Azerbaijan', [], 40.41, 49.87, 'Asia/Baku', 10100],
+  ['KZ', 'Kazakhstan', [], 51.17, 71.45, 'Asia/Almaty', 19600],
+
+  // Asia
+  ['CN', 'China', ['prc', "people's republic of china"], 39.9, 116.41, 'Asia/Shanghai', 1410000],
+  ['JP', 'Japan', [], 35.68, 139.69, 'Asia/Tokyo', 125000],
+  ['KR', 'South Korea', ['korea', 'republic of korea'], 37.57, 126.98, 'Asia/Seoul', 52000],
+  ['TW', 'Taiwan', [], 25.03, 121.57, 'Asia/Taipei', 23400],
+  ['HK', 'Hong Kong', [], 22.32, 114.17, 'Asia/Hong_Kong', 7500],
+  ['MN', 'Mongolia', [], 47.89, 106.91, 'Asia/Ulaanbaatar', 3400],
+  ['IN', 'India', ['bharat'], 28.61, 77.21, 'Asia/Kolkata', 1420000],
+  ['PK', 'Pakistan', [], 33.68, 73.05, 'Asia/Karachi', 240000],
+  ['BD', 'Bangladesh', [], 23.81, 90.41, 'Asia/Dhaka', 171000],
+  ['LK', 'Sri Lanka', [], 6.93, 79.86, 'Asia/Colombo', 22000],
+  ['NP', 'Nepal', [], 27.72, 85.32, 'Asia/Kathmandu', 30000],
+  ['BT', 'Bhutan', [], 27.47, 89.64, 'Asia/Thimphu', 780],
+  ['MM', 'Myanmar', ['burma'], 19.76, 96.08, 'Asia/Yangon', 54000],
+  ['TH', 'Thailand', [], 13.76, 100.5, 'Asia/Bangkok', 70000],
+  ['VN', 'Vietnam', ['viet nam'], 21.03, 105.85, 'Asia/Ho_Chi_Minh', 99000],
+  ['KH', 'Cambodia', [], 11.56, 104.92, 'Asia/Phnom_Penh', 17000],
+  ['LA', 'Laos', [], 17.97, 102.63, 'Asia/Vientiane', 7500],
+  ['MY', 'Malaysia', [], 3.14, 101.69, 'Asia/Kuala_Lumpur', 34000],
+  ['SG', 'Singapore', [], 1.35, 103.82, 'Asia/Singapore', 5900],
+  ['ID', 'Indonesia', [], -6.21, 106.85, 'Asia/Jakarta', 276000],
+  ['PH', 'Philippines', [], 14.6, 120.98, 'Asia/Manila', 114000],
+
+  // Middle East
+  ['TR', 'Turkey', ['türkiye'], 39.93, 32.86, 'Europe/Istanbul', 85000],
+  ['IL', 'Israel', [], 31.77, 35.21, 'Asia/Jerusalem', 9700],
+  ['LB', 'Lebanon', [], 33.89, 35.5, 'Asia/Beirut', 5500],
+  ['SY', 'Syria', [], 33.51, 36.28, 'Asia/Damascus', 22000],
+  ['JO', 'Jordan', [], 31.95, 35.93, 'Asia/Amman', 11000],
+  ['IQ', 'Iraq', [], 33.31, 44.37, 'Asia/Baghdad', 44000],
+  ['IR', 'Iran', [], 35.69, 51.39, 'Asia/Tehran', 88000],
+  ['SA', 'Saudi Arabia', [], 24.71, 46.68, 'Asia/Riyadh', 36000],
+  ['AE', 'United Arab Emirates', ['uae'], 24.45, 54.38, 'Asia/Dubai', 9400],
+  ['KW', 'Kuwait', [], 29.38, 47.99, 'Asia/Kuwait', 4300],
+  ['QA', 'Qatar', [], 25.29, 51.53, 'Asia/Qatar', 2700],
+  ['BH', 'Bahrain', [], 26.23, 50.59, 'Asia/Bahrain', 1500],
+  ['OM', 'Oman', [], 23.59, 58.41, 'Asia/Muscat', 4600],
+  ['YE', 'Yemen', [], 15.37, 44.19, 'Asia/Aden', 33000],
+  ['AF', 'Afghanistan', [], 34.53, 69.17, 'Asia/Kabul', 41000],
+
+  // Africa
+  ['EG', 'Egypt', [], 30.04, 31.24, 'Africa/Cairo', 110000],
+  ['MA', 'Morocco', [], 34.02, -6.84, 'Africa/Casablanca', 37000],
+  ['DZ', 'Algeria', [], 36.75, 3.06, 'Africa/Algiers', 45000],
+  ['TN', 'Tunisia', [], 36.81, 10.18, 'Africa/Tunis', 12000],
+  ['LY', 'Libya', [], 32.89, 13.19, 'Africa/Tripoli', 6800],
+  ['SD', 'Sudan', [], 15.5, 32.56, 'Africa/Khartoum', 47000],
+  ['NG', 'Nigeria', [], 9.08, 7.4, 'Africa/Lagos', 220000],
+  ['GH', 'Ghana', [], 5.6, -0.19, 'Africa/Accra', 33000],
+  ['SN', 'Senegal', [], 14.72, -17.47, 'Africa/Dakar', 17700],
+  ['CI', 'Ivory Coast', ["côte d'ivoire"], 6.83, -5.29, 'Africa/Abidjan', 28000],
+  ['CM', 'Cameroon', [], 3.85, 11.5, 'Africa/Douala', 28000],
+  ['ET', 'Ethiopia', [], 9.03, 38.74, 'Africa/Addis_Ababa', 123000],
+  ['KE', 'Kenya', [], -1.29, 36.82, 'Africa/Nairobi', 54000],
+  ['UG', 'Uganda', [], 0.35, 32.58, 'Africa/Kampala', 47000],
+  ['RW', 'Rwanda', [], -1.94, 30.06, 'Africa/Kigali', 13800],
+  ['TZ', 'Tanzania', [], -6.16, 35.75, 'Africa/Dar_es_Salaam', 65000],
+  ['AO', 'Angola', [], -8.84, 13.23, 'Africa/Luanda', 36000],
+  ['ZM', 'Zambia', [], -15.39, 28.32, 'Africa/Lusaka', 20000],
+  ['MW', 'Malawi', [], -13.96, 33.79, 'Africa/Blantyre', 20000],
+  ['MZ', 'Mozambique', [], -25.97, 32.57, 'Africa/Maputo', 33000],
+  ['ZW', 'Zimbabwe', [], -17.83, 31.05, 'Africa/Harare', 16000],
+  ['BW', 'Botswana', [], -24.63, 25.92, 'Africa/Gaborone', 2600],
+  ['NA', 'Namibia', [], -22.56, 17.08, 'Africa/Windhoek', 2600],
+  ['ZA', 'South Africa', ['rsa'], -25.75, 28.19, 'Africa/Johannesburg', 60000],
+  ['MG', 'Madagascar', [], -18.88, 47.51, 'Indian/Antananarivo', 30000],
+  ['MU', 'Mauritius', [], -20.16, 57.5, 'Indian/Mauritius', 1300],
+
+  // Central America and the Caribbean
+  ['GT', 'Guatemala', [], 14.63, -90.51, 'America/Guatemala', 17600],
+  ['SV', 'El Salvador', [], 13.69, -89.22, 'America/El_Salvador', 6300],
+  ['HN', 'Honduras', [], 14.07, -87.19, 'America/Tegucigalpa', 10400],
+  ['NI', 'Nicaragua', [], 12.11, -86.24, 'America/Managua', 7000],
+  ['CR', 'Costa Rica', [], 9.93, -84.08, 'America/Costa_Rica', 5200],
+  ['PA', 'Panama', ['panamá'], 8.98, -79.52, 'America/Panama', 4400],
+  ['CU', 'Cuba', [], 23.11, -82.37, 'America/Havana', 11000],
+  ['JM', 'Jamaica', [], 18.0, -76.79, 'America/Jamaica', 2800],
+  ['HT', 'Haiti', [], 18.54, -72.34, 'America/Port-au-Prince', 11700],
+  ['DO', 'Dominican Republic', [], 18.49, -69.93, 'America/Santo_Domingo', 11300],
+  ['TT', 'Trinidad and Tobago', ['trinidad'], 10.65, -61.51, 'America/Port_of_Spain', 1500],
+  ['BB', 'Barbados', [], 13.1, -59.61, 'America/Barbados', 280],
+
+  // South America
+  ['BR', 'Brazil', ['brasil'], -15.79, -47.88, 'America/Sao_Paulo', 216000],
+  ['AR', 'Argentina', [], -34.6, -58.38, 'America/Argentina/Buenos_Aires', 46000],
+  ['CL', 'Chile', [], -33.45, -70.67, 'America/Santiago', 19600],
+  ['CO', 'Colombia', [], 4.71, -74.07, 'America/Bogota', 52000],
+  ['PE', 'Peru', ['perú'], -12.05, -77.04, 'America/Lima', 34000],
+  ['VE', 'Venezuela', [], 10.48, -66.9, 'America/Caracas', 28000],
+  ['EC', 'Ecuador', [], -0.18, -78.47, 'America/Guayaquil', 18000],
+  ['BO', 'Bolivia', [], -16.5, -68.15, 'America/La_Paz', 12000],
+  ['PY', 'Paraguay', [], -25.26, -57.58, 'America/Asuncion', 6900],
+  ['UY', 'Uruguay', [], -34.9, -56.16, 'America/Montevideo', 3400],
+
+  // Oceania
+  ['AU', 'Australia', [], -35.28, 149.13, 'Australia/Sydney', 26000],
+  ['NZ', 'New Zealand', ['aotearoa'], -41.29, 174.78, 'Pacific/Auckland', 5200],
+  ['FJ', 'Fiji', [], -18.14, 178.44, 'Pacific/Fiji', 930],
+  ['PG', 'Papua New Guinea', [], -9.44, 147.18, 'Pacific/Port_Moresby', 10000],
+  ['SB', 'Solomon Islands', [], -9.43, 159.95, 'Pacific/Guadalcanal', 720],
+  ['VU', 'Vanuatu', [], -17.73, 168.32, 'Pacific/Efate', 330],
+  ['WS', 'Samoa', [], -13.83, -171.76, 'Pacific/Apia', 220],
+  ['TO', 'Tonga', [], -21.14, -175.2, 'Pacific/Tongatapu', 100],
+];
+
+export const REGIONS: RegionRow[] = [
+  // US states and DC
+  ['US', 'AL', 'Alabama', [], 32.38, -86.3, 'America/Chicago', 5100],
+  ['US', 'AK', 'Alaska', [], 58.3, -134.42, 'America/Juneau', 730],
+  ['US', 'AZ', 'Arizona', [], 33.45, -112.07, 'America/Phoenix', 7400],
+  ['US', 'AR', 'Arkansas', [], 34.75, -92.29, 'America/Chicago', 3100],
+  ['US', 'CA', 'California', ['calif'], 38.58, -121.49, 'America/Los_Angeles', 39000],
+  ['US', 'CO', 'Colorado', [], 39.74, -104.99, 'America/Denver', 5900],
+  ['US', 'CT', 'Connecticut', [], 41.76, -72.68, 'America/New_York', 3600],
+  ['US', 'DE', 'Delaware', [], 39.16, -75.52, 'America/New_York', 1000],
+  ['US', 'DC', 'District of Columbia', ['d c'], 38.9, -77.04, 'America/New_York', 680],
+  ['US', 'FL', 'Florida', [], 30.44, -84.28, 'America/New_York', 22600],
+  ['US', 'GA', 'Georgia', [], 33.75, -84.39, 'America/New_York', 11000],
+  ['US', 'HI', 'Hawaii', [], 21.31, -157.86, 'Pacific/Honolulu', 1400],
+  ['US', 'ID', 'Idaho', [], 43.62, -116.2, 'America/Boise', 1960],
+  ['US', 'IL', 'Illinois', [], 39.8, -89.65, 'America/Chicago', 12500],
+  ['US', 'IN', 'Indiana', [], 39.77, -86.16, 'America/Indiana/Indianapolis', 6900],
+  ['US', 'IA', 'Iowa', [], 41.59, -93.62, 'America/Chicago', 3200],
+  ['US', 'KS', 'Kansas', [], 39.05, -95.68, 'America/Chicago', 2900],
+  ['US', 'KY', 'Kentucky', [], 38.2, -84.87, 'America/New_York', 4500],
+  ['US', 'LA', 'Louisiana', [], 30.45, -91.19, 'America/Chicago', 4600],
+  ['US', 'ME', 'Maine', [], 44.31, -69.78, 'America/New_York', 1400],
+  ['US', 'MD', 'Maryland', [], 38.98, -76.49, 'America/New_York', 6200],
+  ['US', 'MA', 'Massachusetts', [], 42.36, -71.06, 'America/New_York', 7000],
+  ['US', 'MI', 'Michigan', [], 42.73, -84.56, 'America/Detroit', 10000],
+  ['US', 'MN', 'Minnesota', [], 44.95, -93.09, 'America/Chicago', 5700],
+  ['US', 'MS', 'Mississippi', [], 32.3, -90.18, 'America/Chicago', 2900],
+  ['US', 'MO', 'Missouri', [], 38.58, -92.17, 'America/Chicago', 6200],
+  ['US', 'MT', 'Montana', [], 46.59, -112.04, 'America/Denver', 1100],
+  ['US', 'NE', 'Nebraska', [], 40.81, -96.7, 'America/Chicago', 2000],
+  ['US', 'NV', 'Nevada', [], 39.16, -119.77, 'America/Los_Angeles', 3200],
+  ['US', 'NH', 'New Hampshire', [], 43.21, -71.54, 'America/New_York', 1400],
+  ['US', 'NJ', 'New Jersey', [], 40.22, -74.76, 'America/New_York', 9300],
+  ['US', 'NM', 'New Mexico', [], 35.69, -105.94, 'America/Denver', 2100],
+  ['US', 'NY', 'New York', ['new york state'], 42.65, -73.76, 'America/New_York', 19600],
+  ['US', 'NC', 'North Carolina', [], 35.78, -78.64, 'America/New_York', 10800],
+  ['US', 'ND', 'North Dakota', [], 46.81, -100.78, 'America/Chicago', 780],
+  ['US', 'OH', 'Ohio', [], 39.96, -83.0, 'America/New_York', 11800],
+  ['US', 'OK', 'Oklahoma', [], 35.47, -97.52, 'America/Chicago', 4000],
+  ['US', 'OR', 'Oregon', [], 44.94, -123.03, 'America/Los_Angeles', 4200],
+  ['US', 'PA', 'Pennsylvania', [], 40.26, -76.88, 'America/New_York', 13000],
+  ['US', 'RI', 'Rhode Island', [], 41.82, -71.41, 'America/New_York', 1100],
+  ['US', 'SC', 'South Carolina', [], 34.0, -81.03, 'America/New_York', 5300],
+  ['US', 'SD', 'South Dakota', [], 44.37, -100.35, 'America/Chicago', 900],
+  ['US', 'TN', 'Tennessee', [], 36.16, -86.78, 'America/Chicago', 7100],
+  ['US', 'TX', 'Texas', [], 30.27, -97.74, 'America/Chicago', 30000],
+  ['US', 'UT', 'Utah', [], 40.76, -111.89, 'America/Denver', 3400],
+  ['US', 'VT', 'Vermont', [], 44.26, -72.58, 'America/New_York', 650],
+  ['US', 'VA', 'Virginia', [], 37.54, -77.44, 'America/New_York', 8700],
+  ['US', 'WA', 'Washington', ['washington state'], 47.04, -122.9, 'America/Los_Angeles', 7800],
+  ['US', 'WV', 'West Virginia', [], 38.35, -81.63, 'America/New_York', 1800],
+  ['US', 'WI', 'Wisconsin', [], 43.07, -89.4, 'America/Chicago', 5900],
+  ['US', 'WY', 'Wyoming', [], 41.14, -104.82, 'America/Denver', 580],
+
+  // Canadian provinces
+  ['CA', 'ON', 'Ontario', [], 43.65, -79.38, 'America/Toronto', 15600],
+  ['CA', 'QC', 'Quebec', ['québec province'], 46.81, -71.21, 'America/Toronto', 8900],
+  ['CA', 'BC', 'British Columbia', [], 48.43, -123.37, 'America/Vancouver', 5500],
+  ['CA', 'AB', 'Alberta', [], 53.55, -113.49, 'America/Edmonton', 4700],
+  ['CA', 'MB', 'Manitoba', [], 49.9, -97.14, 'America/Winnipeg', 1400],
+  ['CA', 'SK', 'Saskatchewan', [], 50.45, -104.61, 'America/Regina', 1200],
+  ['CA', 'NS', 'Nova Scotia', [], 44.65, -63.58, 'America/Halifax', 1000],
+  ['CA', 'NB', 'New Brunswick', [], 45.96, -66.64, 'America/Moncton', 800],
+  ['CA', 'NL', 'Newfoundland and Labrador', ['newfoundland'], 47.56, -52.71, 'America/St_Johns', 530],
+  ['CA', 'PE', 'Prince Edward Island', [], 46.24, -63.13, 'America/Halifax', 170],
+
+  // Australian states and territories
+  ['AU', 'NSW', 'New South Wales', [], -33.87, 151.21, 'Australia/Sydney', 8200],
+  ['AU', 'VIC', 'Victoria', [], -37.81, 144.96, 'Australia/Melbourne', 6600],
+  ['AU', 'QLD', 'Queensland', [], -27.47, 153.03, 'Australia/Brisbane', 5300],
+  ['AU', 'WA', 'Western Australia', [], -31.95, 115.86, 'Australia/Perth', 2800],
+  ['AU', 'SA', 'South Australia', [], -34.93, 138.6, 'Australia/Adelaide', 1800],
+  ['AU', 'TAS', 'Tasmania', [], -42.88, 147.33, 'Australia/Hobart', 570],
+  ['AU', 'ACT', 'Australian Capital Territory', [], -35.28, 149.13, 'Australia/Sydney', 450],
+  ['AU', 'NT', 'Northern Territory', [], -12.46, 130.84, 'Australia/Darwin', 250],
+
+  // UK nations
+  ['GB', 'ENG', 'England', [], 51.51, -0.13, 'Europe/London', 56500],
+  ['GB', 'SCT', 'Scotland', [], 55.95, -3.19, 'Europe/London', 5400],
+  ['GB', 'WLS', 'Wales', [], 51.48, -3.18, 'Europe/London', 3100],
+  ['GB', 'NIR', 'Northern Ireland', [], 54.6, -5.93, 'Europe/London', 1900],
+];
+
+export const CITIES: CityRow[] = [
+  // United States
+  ['New York', 'US', 'NY', 40.71, -74.01, 'America/New_York', 8336, ['new york city', 'nyc', 'manhattan', 'brooklyn']],
+  ['Los Angeles', 'US', 'CA', 34.05, -118.24, 'America/Los_Angeles', 3822, ['la']],
+  ['Chicago', 'US', 'IL', 41.88, -87.63, 'America/Chicago', 2665],
+  ['Houston', 'US', 'TX', 29.76, -95.37, 'America/Chicago', 2303],
+  ['Phoenix', 'US', 'AZ', 33.45, -112.07, 'America/Phoenix', 1644],
+  ['Philadelphia', 'US', 'PA', 39.95, -75.17, 'America/New_York', 1567],
+  ['San Antonio', 'US', 'TX', 29.42, -98.49, 'America/Chicago', 1472],
+  ['San Diego', 'US', 'CA', 32.72, -117.16, 'America/Los_Angeles', 1381],
+  ['Dallas', 'US', 'TX', 32.78, -96.8, 'America/Chicago', 1300],
+  ['Austin', 'US', 'TX', 30.27, -97.74, 'America/Chicago', 974],
+  ['San Jose', 'US', 'CA', 37.34, -121.89, 'America/Los_Angeles', 971],
+  ['Fort Worth', 'US', 'TX', 32.76, -97.33, 'America/Chicago', 956],
+  ['Jacksonville', 'US', 'FL', 30.33, -81.66, 'America/New_York', 955],
+  ['Columbus', 'US', 'OH', 39.96, -83.0, 'America/New_York', 907],
+  ['Charlotte', 'US', 'NC', 35.23, -80.84, 'America/New_York', 897],
+  ['Indianapolis', 'US', 'IN', 39.77, -86.16, 'America/Indiana/Indianapolis', 880],
+  ['San Francisco', 'US', 'CA', 37.77, -122.42, 'America/Los_Angeles', 808, ['sf']],
+  ['Seattle', 'US', 'WA', 47.61, -122.33, 'America/Los_Angeles', 749],
+  ['Denver', 'US', 'CO', 39.74, -104.99, 'America/Denver', 713],
+  ['Oklahoma City', 'US', 'OK', 35.47, -97.52, 'America/Chicago', 694],
+  ['Nashville', 'US', 'TN', 36.16, -86.78, 'America/Chicago', 683],
+  ['Washington', 'US', 'DC', 38.9, -77.04, 'America/New_York', 672, ['washington dc', 'washington d c']],
+  ['Las Vegas', 'US', 'NV', 36.17, -115.14, 'America/Los_Angeles', 656],
+  ['Boston', 'US', 'MA', 42.36, -71.06, 'America/New_York', 654],
+  ['Portland', 'US', 'OR', 45.52, -122.68, 'America/Los_Angeles', 635],
+  ['Louisville', 'US', 'KY', 38.25, -85.76, 'America/Kentucky/Louisville', 624],
+  ['Memphis', 'US', 'TN', 35.15, -90.05, 'America/Chicago', 621],
+  ['Detroit', 'US', 'MI', 42.33, -83.05, 'America/Detroit', 620],
+  ['Baltimore', 'US', 'MD', 39.29, -76.61, 'America/New_York', 569],
+  ['Milwaukee', 'US', 'WI', 43.04, -87.91, 'America/Chicago', 563],
+  ['Albuquerque', 'US', 'NM', 35.08, -106.65, 'America/Denver', 561],
+  ['Tucson', 'US', 'AZ', 32.22, -110.97, 'America/Phoenix', 546],
+  ['Sacramento', 'US', 'CA', 38.58, -121.49, 'America/Los_Angeles', 525],
+  ['Kansas City', 'US', 'MO', 39.1, -94.58, 'America/Chicago', 509],
+  ['Atlanta', 'US', 'GA', 33.75, -84.39, 'America/New_York', 499],
+  ['Raleigh', 'US', 'NC', 35.78, -78.64, 'America/New_York', 470],
+  ['Miami', 'US', 'FL', 25.76, -80.19, 'America/New_York', 449],
+  ['Minneapolis', 'US', 'MN', 44.98, -93.27, 'America/Chicago', 425],
+  ['Tampa', 'US', 'FL', 27.95, -82.46, 'America/New_York', 398],
+  ['New Orleans', 'US', 'LA', 29.95, -90.07, 'America/Chicago', 370],
+  ['Cleveland', 'US', 'OH', 41.5, -81.69, 'America/New_York', 362],
+  ['Honolulu', 'US', 'HI', 21.31, -157.86, 'Pacific/Honolulu', 345],
+  ['Orlando', 'US', 'FL', 28.54, -81.38, 'America/New_York', 309],
+  ['Cincinnati', 'US', 'OH', 39.1, -84.51, 'America/New_York', 309],
+  ['Pittsburgh', 'US', 'PA', 40.44, -80.0, 'America/New_York', 303],
+  ['St. Louis', 'US', 'MO', 38.63, -90.2, 'America/Chicago', 294, ['saint louis']],
+  ['Anchorage', 'US', 'AK', 61.22, -149.9, 'America/Anchorage', 291],
+  ['Buffalo', 'US', 'NY', 42.89, -78.88, 'America/New_York', 276],
+  ['St. Petersburg', 'US', 'FL', 27.77, -82.64, 'America/New_York', 258],
+  ['Boise', 'US', 'ID', 43.62, -116.2, 'America/Boise', 236],
+  ['Richmond', 'US', 'VA', 37.54, -77.44, 'America/New_York', 226],
+  ['Salt Lake City', 'US', 'UT', 40.76, -111.89, 'America/Denver', 200],
+  ['Birmingham', 'US', 'AL', 33.52, -86.8, 'America/Chicago', 197],
+  ['Athens', 'US', 'GA', 33.96, -83.38, 'America/New_York', 127],
+  ['Cambridge', 'US', 'MA', 42.37, -71.11, 'America/New_York', 118],
+  ['Manchester', 'US', 'NH', 42.99, -71.46, 'America/New_York', 115],
+  ['Springfield', 'US', 'IL', 39.8, -89.65, 'America/Chicago', 114],
+  ['Portland', 'US', 'ME', 43.66, -70.26, 'America/New_York', 68],
+  ['Paris', 'US', 'TX', 33.66, -95.56, 'America/Chicago', 25],
+
+  // Canada
+  ['Toronto', 'CA', 'ON', 43.65, -79.38, 'America/Toronto', 2794],
+  ['Montreal', 'CA', 'QC', 45.5, -73.57, 'America/Toronto', 1762, ['montréal']],
+  ['Calgary', 'CA', 'AB', 51.05, -114.07, 'America/Edmonton', 1306],
+  ['Ottawa', 'CA', 'ON', 45.42, -75.7, 'America/Toronto', 1017],
+  ['Edmonton', 'CA', 'AB', 53.55, -113.49, 'America/Edmonton', 1010],
+  ['Winnipeg', 'CA', 'MB', 49.9, -97.14, 'America/Winnipeg', 749],
+  ['Vancouver', 'CA', 'BC', 49.28, -123.12, 'America/Vancouver', 662],
+  ['Quebec City', 'CA', 'QC', 46.81, -71.21, 'America/Toronto', 549, ['québec city', 'ville de québec']],
+  ['Halifax', 'CA', 'NS', 44.65, -63.58, 'America/Halifax', 440],
+  ['London', 'CA', 'ON', 42.98, -81.25, 'America/Toronto', 422],
+  ['Victoria', 'CA', 'BC', 48.43, -123.37, 'America/Vancouver', 92],
+
+  // Mexico, Central America and the Caribbean
+  ['Mexico City', 'MX', null, 19.43, -99.13, 'America/Mexico_City', 9209, ['ciudad de méxico', 'cdmx']],
+  ['Tijuana', 'MX', null, 32.51, -117.04, 'America/Tijuana', 1922],
+  ['Puebla', 'MX', null, 19.04, -98.21, 'America/Mexico_City', 1692],
+  ['Guadalajara', 'MX', null, 20.67, -103.35, 'America/Mexico_City', 1385],
+  ['Monterrey', 'MX', null, 25.69, -100.32, 'America/Monterrey', 1142],
+  ['Havana', 'CU', null, 23.11, -82.37, 'America/Havana', 2130, ['la habana']],
+  ['Santo Domingo', 'DO', null, 18.49, -69.93, 'America/Santo_Domingo', 1030],
+  ['San José', 'CR', null, 9.93, -84.08, 'America/Costa_Rica', 350],
+  ['San Juan', 'PR', null, 18.47, -66.11, 'America/Puerto_Rico', 340],
+  ['Kingston', 'JM', null, 18.0, -76.79, 'America/Jamaica', 590],
+
+  // South America
+  ['São Paulo', 'BR', null, -23.55, -46.63, 'America/Sao_Paulo', 12325],
+  ['Rio de Janeiro', 'BR', null, -22.91, -43.17, 'America/Sao_Paulo', 6748, ['rio']],
+  ['Brasília', 'BR', null, -15.79, -47.88, 'America/Sao_Paulo', 3055],
+  ['Salvador', 'BR', null, -12.97, -38.5, 'America/Bahia', 2887],
+  ['Fortaleza', 'BR', null, -3.73, -38.53, 'America/Fortaleza', 2703],
+  ['Belo Horizonte', 'BR', null, -19.92, -43.94, 'America/Sao_Paulo', 2521],
+  ['Buenos Aires', 'AR', null, -34.6, -58.38, 'America/Argentina/Buenos_Aires', 3075],
+  ['Córdoba', 'AR', null, -31.42, -64.18, 'America/Argentina/Cordoba', 1391],
+  ['Rosario', 'AR', null, -32.94, -60.64, 'America/Argentina/Cordoba', 1276],
+  ['La Plata', 'AR', null, -34.92, -57.95, 'America/Argentina/Buenos_Aires', 772],
+  ['Mendoza', 'AR', null, -32.89, -68.83, 'America/Argentina/Mendoza', 115],
+  ['Santiago', 'CL', null, -33.45, -70.67, 'America/Santiago', 6257],
+  ['Bogotá', 'CO', null, 4.71, -74.07, 'America/Bogota', 7181],
+  ['Medellín', 'CO', null, 6.24, -75.58, 'America/Bogota', 2569],
+  ['Lima', 'PE', null, -12.05, -77.04, 'America/Lima', 9752],
+  ['Caracas', 'VE', null, 10.48, -66.9, 'America/Caracas', 2245],
+  ['Quito', 'EC', null, -0.18, -78.47, 'America/Guayaquil', 2011],
+  ['Montevideo', 'UY', null, -34.9, -56.16, 'America/Montevideo', 1319],
+
+  // United Kingdom and Ireland
+  ['London', 'GB', 'ENG', 51.51, -0.13, 'Europe/London', 8982],
+  ['Birmingham', 'GB', 'ENG', 52.49, -1.89, 'Europe/London', 1145],
+  ['Leeds', 'GB', 'ENG', 53.8, -1.55, 'Europe/London', 793],
+  ['Glasgow', 'GB', 'SCT', 55.86, -4.25, 'Europe/London', 635],
+  ['Sheffield', 'GB', 'ENG', 53.38, -1.47, 'Europe/London', 556],
+  ['Manchester', 'GB', 'ENG', 53.48, -2.24, 'Europe/London', 553],
+  ['Edinburgh', 'GB', 'SCT', 55.95, -3.19, 'Europe/London', 527],
+  ['Liverpool', 'GB', 'ENG', 53.41, -2.98, 'Europe/London', 496],
+  ['Bristol', 'GB', 'ENG', 51.45, -2.59, 'Europe/London', 472],
+  ['Cardiff', 'GB', 'WLS', 51.48, -3.18, 'Europe/London', 362],
+  ['Belfast', 'GB', 'NIR', 54.6, -5.93, 'Europe/London', 345],
+  ['Nottingham', 'GB', 'ENG', 52.95, -1.15, 'Europe/London', 324],
+  ['Newcastle upon Tyne', 'GB', 'ENG', 54.98, -1.62, 'Europe/London', 300, ['newcastle']],
+  ['Oxford', 'GB', 'ENG', 51.75, -1.26, 'Europe/London', 162],
+  ['Cambridge', 'GB', 'ENG', 52.21, 0.12, 'Europe/London', 146],
+  ['Perth', 'GB', 'SCT', 56.4, -3.43, 'Europe/London', 47],
+  ['Dublin', 'IE', null, 53.35, -6.26, 'Europe/Dublin', 592],
+  ['Cork', 'IE', null, 51.9, -8.47, 'Europe/Dublin', 222],
+
+  // Western and Northern Europe
+  ['Paris', 'FR', null, 48.86, 2.35, 'Europe/Paris', 2103],
+  ['Marseille', 'FR', null, 43.3, 5.37, 'Europe/Paris', 873],
+  ['Lyon', 'FR', null, 45.76, 4.84, 'Europe/Paris', 522],
+  ['Toulouse', 'FR', null, 43.6, 1.44, 'Europe/Paris', 498],
+  ['Nice', 'FR', null, 43.7, 7.27, 'Europe/Paris', 342],
+  ['Nantes', 'FR', null, 47.22, -1.55, 'Europe/Paris', 320],
+  ['Strasbourg', 'FR', null, 48.57, 7.75, 'Europe/Paris', 287],
+  ['Bordeaux', 'FR', null, 44.84, -0.58, 'Europe/Paris', 260],
+  ['Lille', 'FR', null, 50.63, 3.06, 'Europe/Paris', 236],
+  ['Berlin', 'DE', null, 52.52, 13.4, 'Europe/Berlin', 3645],
+  ['Hamburg', 'DE', null, 53.55, 9.99, 'Europe/Berlin', 1841],
+  ['Munich', 'DE', null, 48.14, 11.58, 'Europe/Berlin', 1472, ['münchen']],
+  ['Cologne', 'DE', null, 50.94, 6.96, 'Europe/Berlin', 1086, ['köln']],
+  ['Frankfurt', 'DE', null, 50.11, 8.68, 'Europe/Berlin', 763, ['frankfurt am main']],
+  ['Stuttgart', 'DE', null, 48.78, 9.18, 'Europe/Berlin', 635],
+  ['Düsseldorf', 'DE', null, 51.23, 6.77, 'Europe/Berlin', 621],
+  ['Leipzig', 'DE', null, 51.34, 12.37, 'Europe/Berlin', 597],
+  ['Dresden', 'DE', null, 51.05, 13.74, 'Europe/Berlin', 556],
+  ['Amsterdam', 'NL', null, 52.37, 4.9, 'Europe/Amsterdam', 873],
+  ['Rotterdam', 'NL', null, 51.92, 4.48, 'Europe/Amsterdam', 651],
+  ['The Hague', 'NL', null, 52.08, 4.3, 'Europe/Amsterdam', 545, ['den haag', 'hague']],
+  ['Utrecht', 'NL', null, 52.09, 5.12, 'Europe/Amsterdam', 361],
+  ['Eindhoven', 'NL', null, 51.44, 5.48, 'Europe/Amsterdam', 235],
+  ['Groningen', 'NL', null, 53.22, 6.57, 'Europe/Amsterdam', 233],
+  ['Brussels', 'BE', null, 50.85, 4.35, 'Europe/Brussels', 1209, ['bruxelles', 'brussel']],
+  ['Antwerp', 'BE', null, 51.22, 4.4, 'Europe/Brussels', 530, ['antwerpen']],
+  ['Vienna', 'AT', null, 48.21, 16.37, 'Europe/Vienna', 1897, ['wien']],
+  ['Zurich', 'CH', null, 47.38, 8.54, 'Europe/Zurich', 421, ['zürich']],
+  ['Geneva', 'CH', null, 46.2, 6.14, 'Europe/Zurich', 203, ['genève']],
+  ['Bern', 'CH', null, 46.95, 7.45, 'Europe/Zurich', 134],
+  ['Stockholm', 'SE', null, 59.33, 18.07, 'Europe/Stockholm', 975],
+  ['Gothenburg', 'SE', null, 57.71, 11.97, 'Europe/Stockholm', 583, ['göteborg']],
+  ['Oslo', 'NO', null, 59.91, 10.75, 'Europe/Oslo', 697],
+  ['Copenhagen', 'DK', null, 55.68, 12.57, 'Europe/Copenhagen', 644, ['københavn']],
+  ['Helsinki', 'FI', null, 60.17, 24.94, 'Europe/Helsinki', 658],
+  ['Reykjavik', 'IS', null, 64.15, -21.94, 'Atlantic/Reykjavik', 139],
+
+  // Southern Europe
+  ['Madrid', 'ES', null, 40.42, -3.7, 'Europe/Madrid', 3223],
+  ['Barcelona', 'ES', null, 41.39, 2.17, 'Europe/Madrid', 1620],
+  ['Valencia', 'ES', null, 39.47, -0.38, 'Europe/Madrid', 792],
+  ['Seville', 'ES', null, 37.39, -5.98, 'Europe/Madrid', 688, ['sevilla']],
+  ['Málaga', 'ES', null, 36.72, -4.42, 'Europe/Madrid', 578],
+  ['Bilbao', 'ES', null, 43.26, -2.93, 'Europe/Madrid', 346],
+  ['Granada', 'ES', null, 37.18, -3.6, 'Europe/Madrid', 232],
+  ['Lisbon', 'PT', null, 38.72, -9.14, 'Europe/Lisbon', 545, ['lisboa']],
+  ['Porto', 'PT', null, 41.15, -8.61, 'Europe/Lisbon', 232],
+  ['Rome', 'IT', null, 41.9, 12.5, 'Europe/Rome', 2873, ['roma']],
+  ['Milan', 'IT', null, 45.46, 9.19, 'Europe/Rome', 1352, ['milano']],
+  ['Naples', 'IT', null, 40.85, 14.27, 'Europe/Rome', 914, ['napoli']],
+  ['Turin', 'IT', null, 45.07, 7.69, 'Europe/Rome', 848, ['torino']],
+  ['Palermo', 'IT', null, 38.12, 13.36, 'Europe/Rome', 631],
+  ['Genoa', 'IT', null, 44.41, 8.93, 'Europe/Rome', 558, ['genova']],
+  ['Bologna', 'IT', null, 44.49, 11.34, 'Europe/Rome', 392],
+  ['Florence', 'IT', null, 43.77, 11.26, 'Europe/Rome', 367, ['firenze']],
+  ['Venice', 'IT', null, 45.44, 12.32, 'Europe/Rome', 254, ['venezia']],
+  ['Athens', 'GR', null, 37.98, 23.73, 'Europe/Athens', 664, ['athina']],
+  ['Thessaloniki', 'GR', null, 40.64, 22.94, 'Europe/Athens', 325],
+
+  // Central and Eastern Europe
+  ['Warsaw', 'PL', null, 52.23, 21.01, 'Europe/Warsaw', 1794, ['warszawa']],
+  ['Kraków', 'PL', null, 50.06, 19.94, 'Europe/Warsaw', 780, ['cracow']],
+  ['Prague', 'CZ', null, 50.08, 14.44, 'Europe/Prague', 1309, ['praha']],
+  ['Budapest', 'HU', null, 47.5, 19.04, 'Europe/Budapest', 1752],
+  ['Bucharest', 'RO', null, 44.43, 26.1, 'Europe/Bucharest', 1716, ['bucurești']],
+  ['Zagreb', 'HR', null, 45.81, 15.98, 'Europe/Zagreb', 767],
+  ['Kyiv', 'UA', null, 50.45, 30.52, 'Europe/Kyiv', 2952, ['kiev']],
+  ['Moscow', 'RU', null, 55.76, 37.62, 'Europe/Moscow', 12506, ['moskva']],
+  ['Saint Petersburg', 'RU', null, 59.93, 30.34, 'Europe/Moscow', 5384, ['st. petersburg', 'st petersburg']],
+  ['Novosibirsk', 'RU', null, 55.01, 82.93, 'Asia/Novosibirsk', 1625],
+  ['Yekaterinburg', 'RU', null, 56.84, 60.61, 'Asia/Yekaterinburg', 1493],
+  ['Istanbul', 'TR', null, 41.01, 28.98, 'Europe/Istanbul', 15462],
+  ['Ankara', 'TR', null, 39.93, 32.86, 'Europe/Istanbul', 5663],
+  ['Izmir', 'TR', null, 38.42, 27.14, 'Europe/Istanbul', 4367],
+  ['Tbilisi', 'GE', null, 41.72, 44.79, 'Asia/Tbilisi', 1202],
+
+  // Middle East
+  ['Jerusalem', 'IL', null, 31.77, 35.21, 'Asia/Jerusalem', 936],
+  ['Tel Aviv', 'IL', null, 32.09, 34.78, 'Asia/Jerusalem', 460],
+  ['Tehran', 'IR', null, 35.69, 51.39, 'Asia/Tehran', 8694],
+  ['Riyadh', 'SA', null, 24.71, 46.68, 'Asia/Riyadh', 7676],
+  ['Dubai', 'AE', null, 25.2, 55.27, 'Asia/Dubai', 3331],
+  ['Abu Dhabi', 'AE', null, 24.45, 54.38, 'Asia/Dubai', 1483],
+  ['Beirut', 'LB', null, 33.89, 35.5, 'Asia/Beirut', 2421],
+
+  // South Asia
+  ['Mumbai', 'IN', null, 19.08, 72.88, 'Asia/Kolkata', 12442, ['bombay']],
+  ['Delhi', 'IN', null, 28.7, 77.1, 'Asia/Kolkata', 11034, ['new delhi']],
+  ['Bangalore', 'IN', null, 12.97, 77.59, 'Asia/Kolkata', 8443, ['bengaluru']],
+  ['Hyderabad', 'IN', null, 17.39, 78.49, 'Asia/Kolkata', 6810],
+  ['Ahmedabad', 'IN', null, 23.02, 72.57, 'Asia/Kolkata', 5570],
+  ['Chennai', 'IN', null, 13.08, 80.27, 'Asia/Kolkata', 4646, ['madras']],
+  ['Kolkata', 'IN', null, 22.57, 88.36, 'Asia/Kolkata', 4497, ['calcutta']],
+  ['Pune', 'IN', null, 18.52, 73.86, 'Asia/Kolkata', 3124],
+  ['Karachi', 'PK', null, 24.86, 67.01, 'Asia/Karachi', 14916],
+  ['Lahore', 'PK', null, 31.55, 74.34, 'Asia/Karachi', 11126],
+  ['Hyderabad', 'PK', null, 25.4, 68.37, 'Asia/Karachi', 1732],
+  ['Dhaka', 'BD', null, 23.81, 90.41, 'Asia/Dhaka', 8906],
+  ['Colombo', 'LK', null, 6.93, 79.86, 'Asia/Colombo', 753],
+  ['Kathmandu', 'NP', null, 27.72, 85.32, 'Asia/Kathmandu', 845],
+
+  // East and Southeast Asia
+  ['Shanghai', 'CN', null, 31.23, 121.47, 'Asia/Shanghai', 24870],
+  ['Beijing', 'CN', null, 39.9, 116.41, 'Asia/Shanghai', 21540, ['peking']],
+  ['Guangzhou', 'CN', null, 23.13, 113.26, 'Asia/Shanghai', 18680, ['canton']],
+  ['Shenzhen', 'CN', null, 22.54, 114.06, 'Asia/Shanghai', 17560],
+  ['Chengdu', 'CN', null, 30.57, 104.07, 'Asia/Shanghai', 16330],
+  ['Hangzhou', 'CN', null, 30.27, 120.16, 'Asia/Shanghai', 11940],
+  ['Wuhan', 'CN', null, 30.59, 114.31, 'Asia/Shanghai', 11210],
+  ['Tokyo', 'JP', null, 35.68, 139.69, 'Asia/Tokyo', 13960],
+  ['Yokohama', 'JP', null, 35.44, 139.64, 'Asia/Tokyo', 3757],
+  ['Osaka', 'JP', null, 34.69, 135.5, 'Asia/Tokyo', 2753],
+  ['Nagoya', 'JP', null, 35.18, 136.91, 'Asia/Tokyo', 2296],
+  ['Sapporo', 'JP', null, 43.06, 141.35, 'Asia/Tokyo', 1973],
+  ['Kobe', 'JP', null, 34.69, 135.2, 'Asia/Tokyo', 1525],
+  ['Kyoto', 'JP', null, 35.01, 135.77, 'Asia/Tokyo', 1464],
+  ['Seoul', 'KR', null, 37.57, 126.98, 'Asia/Seoul', 9776],
+  ['Busan', 'KR', null, 35.18, 129.08, 'Asia/Seoul', 3429],
+  ['Taipei', 'TW', null, 25.03, 121.57, 'Asia/Taipei', 2603],
+  ['Bangkok', 'TH', null, 13.76, 100.5, 'Asia/Bangkok', 10539],
+  ['Ho Chi Minh City', 'VN', null, 10.82, 106.63, 'Asia/Ho_Chi_Minh', 9000, ['saigon']],
+  ['Hanoi', 'VN', null, 21.03, 105.85, 'Asia/Ho_Chi_Minh', 8054],
+  ['Jakarta', 'ID', null, -6.21, 106.85, 'Asia/Jakarta', 10562],
+  ['Quezon City', 'PH', null, 14.68, 121.04, 'Asia/Manila', 2960],
+  ['Manila', 'PH', null, 14.6, 120.98, 'Asia/Manila', 1846],
+  ['Kuala Lumpur', 'MY', null, 3.14, 101.69, 'Asia/Kuala_Lumpur', 1982],
+
+  // Africa
+  ['Lagos', 'NG', null, 6.52, 3.38, 'Africa/Lagos', 15388],
+  ['Abuja', 'NG', null, 9.08, 7.4, 'Africa/Lagos', 1235],
+  ['Cairo', 'EG', null, 30.04, 31.24, 'Africa/Cairo', 9540],
+  ['Alexandria', 'EG', null, 31.2, 29.92, 'Africa/Cairo', 5200],
+  ['Johannesburg', 'ZA', null, -26.2, 28.05, 'Africa/Johannesburg', 5635],
+  ['Cape Town', 'ZA', null, -33.92, 18.42, 'Africa/Johannesburg', 4618],
+  ['Durban', 'ZA', null, -29.86, 31.03, 'Africa/Johannesburg', 3720],
+  ['Nairobi', 'KE', null, -1.29, 36.82, 'Africa/Nairobi', 4397],
+  ['Addis Ababa', 'ET', null, 9.03, 38.74, 'Africa/Addis_Ababa', 3384],
+  ['Casablanca', 'MA', null, 33.57, -7.59, 'Africa/Casablanca', 3360],
+  ['Accra', 'GH', null, 5.6, -0.19, 'Africa/Accra', 2388],
+  ['Algiers', 'DZ', null, 36.75, 3.06, 'Africa/Algiers', 2364],
+  ['Tunis', 'TN', null, 36.81, 10.18, 'Africa/Tunis', 638],
+
+  // Oceania
+  ['Sydney', 'AU', 'NSW', -33.87, 151.21, 'Australia/Sydney', 5312],
+  ['Melbourne', 'AU', 'VIC', -37.81, 144.96, 'Australia/Melbourne', 5078],
+  ['Brisbane', 'AU', 'QLD', -27.47, 153.03, 'Australia/Brisbane', 2560],
+  ['Perth', 'AU', 'WA', -31.95, 115.86, 'Australia/Perth', 2125],
+  ['Adelaide', 'AU', 'SA', -34.93, 138.6, 'Australia/Adelaide', 1387],
+  ['Gold Coast', 'AU', 'QLD', -28.02, 153.4, 'Australia/Brisbane', 640],
+  ['Canberra', 'AU', 'ACT', -35.28, 149.13, 'Australia/Sydney', 456],
+  ['Hobart', 'AU', 'TAS', -42.88, 147.33, 'Australia/Hobart', 247],
+  ['Darwin', 'AU', 'NT', -12.46, 130.84, 'Australia/Darwin', 147],
+  ['Auckland', 'NZ', null, -36.85, 174.76, 'Pacific/Auckland', 1657],
+  ['Christchurch', 'NZ', null, -43.53, 172.64, 'Pacific/Auckland', 381],
+  ['Wellington', 'NZ', null, -41.29, 174.78, 'Pacific/Auckland', 212],
+];
@@ -0,0 +1,30 @@
+// Signed subscriber links (?token=...) on the service pages
+
+export type LinkAction = 'unsubscribe' | 'feedback';
+
+export type LinkCheck =
+  | { state: 'valid'; uid: string }
+  | { state: 'expired' | 'invalid' | 'error' };
+
+// Ask the link verification function whether a token is good for this page
+export async function verifyLinkToken(token: string, action: LinkAction): Promise<LinkCheck> {
+  try {
+    const response = await fetch('/api/links/verify', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ token, action })
+    });
+    const result = await response.json().catch(() => ({}));
+
+    if (response.ok && result.valid && typeof result.uid === 'string') {
+      return { state: 'valid', uid: result.uid };
+    }
+    if (result.reason === 'expired') return { state: 'expired' };
+    if (response.status === 400) return { state: 'invalid' };
+    return { state: 'error' };
+  } catch {
+    return { state: 'error' };
+  }
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { addDays, addMonths, daysBetween, localDateIn, resumeDateFor, zonedTimeToUtc } from './pauseSchedule';
+
+describe('calendar dates', () => {
+  it('adds days across month and year ends', () => {
+    expect(addDays('2026-01-31', 1)).toBe('2026-02-01');
+    expect(addDays('2026-12-28', 7)).toBe('2027-01-04');
+  });
+
+  it('clamps months to the last day of a shorter month', () => {
+    expect(addMonths('2026-01-31', 1)).toBe('2026-02-28');
+    expect(addMonths('2028-01-31', 1)).toBe('2028-02-29');
+    expect(addMonths('2026-11-15', 2)).toBe('2027-01-15');
+  });
+
+  it('counts days between dates', () => {
+    expect(daysBetween('2026-03-01', '2026-03-08')).toBe(7);
+    expect(daysBetween('2026-03-08', '2026-03-01')).toBe(-7);
+  });
+
+  it('reads the date in the subscriber\'s time zone', () => {
+    const instant = new Date('2026-05-01T02:00:00Z');
+    expect(localDateIn('Europe/Berlin', instant)).toBe('2026-05-01');
+    expect(localDateIn('America/Los_Angeles', instant)).toBe('2026-04-30');
+  });
+
+  it('picks the resume date for each duration', () => {
+    expect(resumeDateFor('1_week', '2026-05-01', null)).toBe('2026-05-08');
+    expect(resumeDateFor('1_month', '2026-05-31', null)).toBe('2026-06-30');
+    expect(resumeDateFor('custom', '2026-05-01', '2026-07-04')).toBe('2026-07-04');
+  });
+});
+
+describe('zonedTimeToUtc', () => {
+  it('converts wall-clock times with the offset in force', () => {
+    expect(zonedTimeToUtc('2026-01-15', '07:00', 'America/New_York').toISOString()).toBe('2026-01-15T12:00:00.000Z');
+    expect(zonedTimeToUtc('2026-07-15', '07:00', 'America/New_York').toISOString()).toBe('2026-07-15T11:00:00.000Z');
+    expect(zonedTimeToUtc('2026-06-01', '07:00', 'Asia/Kolkata').toISOString()).toBe('2026-06-01T01:30:00.000Z');
+    expect(zonedTimeToUtc('2026-06-01', '07:00', 'UTC').toISOString()).toBe('2026-06-01T07:00:00.000Z');
+  });
+
+  it('moves times skipped by spring forward an hour later', () => {
+    // 02:30 does not happen on 2026-03-08 in New York; 03:30 EDT does
+    expect(zonedTimeToUtc('2026-03-08', '02:30', 'America/New_York').toISOString()).toBe('2026-03-08T07:30:00.000Z');
+    expect(zonedTimeToUtc('2026-03-29', '02:30', 'Europe/Berlin').toISOString()).toBe('2026-03-29T01:30:00.000Z');
+    expect(zonedTimeToUtc('2026-10-04', '02:30', 'Australia/Sydney').toISOString()).toBe('2026-10-03T16:30:00.000Z');
+  });
+
+  it('keeps times next to the change on the right side of it', () => {
+    expect(zonedTimeToUtc('2026-03-08', '01:59', 'America/New_York').toISOString()).toBe('2026-03-08T06:59:00.000Z');
+    expect(zonedTimeToUtc('2026-03-08', '03:00', 'America/New_York').toISOString()).toBe('2026-03-08T07:00:00.000Z');
+  });
+
+  it('resolves times repeated by fall back to the first of them', () => {
+    expect(zonedTimeToUtc('2026-11-01', '01:30', 'America/New_York').toISOString()).toBe('2026-11-01T05:30:00.000Z');
+  });
+});
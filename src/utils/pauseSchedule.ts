@@ -0,0 +1,100 @@
+// Pausing a subscription: when deliveries resume, in the subscriber's own time zone.
+// Shared by the unsubscribe page and the Pages Functions. Dates are calendar dates (YYYY-MM-DD).
+
+export const PAUSE_DURATIONS = ['1_week', '1_month', 'custom'] as const;
+
+export type PauseDuration = typeof PAUSE_DURATIONS[number];
+
+/** Longest pause a custom date can ask for */
+export const MAX_PAUSE_DAYS = 180;
+
+/** Delivery time for subscribers without a stored day start time, as at signup */
+export const DEFAULT_DAY_START = '07:00';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isPauseDuration(value: unknown): value is PauseDuration {
+  return typeof value === 'string' && (PAUSE_DURATIONS as readonly string[]).includes(value);
+}
+
+function splitDate(date: string): [number, number, number] {
+  const [year, month, day] = date.split('-').map(Number);
+  return [year, month, day];
+}
+
+function formatDate(year: number, month: number, day: number): string {
+  return `${String(year).padStart(4, '0')}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * The calendar date it is in `timeZone` at `now`
+ */
+export function localDateIn(timeZone: string, now: Date = new Date()): string {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).formatToParts(now);
+  const part = (type: string) => Number(parts.find(entry => entry.type === type)?.value);
+  return formatDate(part('year'), part('month'), part('day'));
+}
+
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = splitDate(date);
+  return new Date(Date.UTC(year, month - 1, day) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Same day `months` later, or the last day of that month when it is shorter (Jan 31 + 1 month = Feb 28/29)
+ */
+export function addMonths(date: string, months: number): string {
+  const [year, month, day] = splitDate(date);
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  return formatDate(target.getUTCFullYear(), target.getUTCMonth() + 1, Math.min(day, lastDay));
+}
+
+export function daysBetween(from: string, to: string): number {
+  const [fromYear, fromMonth, fromDay] = splitDate(from);
+  const [toYear, toMonth, toDay] = splitDate(to);
+  return Math.round((Date.UTC(toYear, toMonth - 1, toDay) - Date.UTC(fromYear, fromMonth - 1, fromDay)) / DAY_MS);
+}
+
+/**
+ * The date deliveries resume on, counted from the subscriber's `today`
+ */
+export function resumeDateFor(duration: PauseDuration, today: string, customDate: string | null): string {
+  if (duration === '1_week') return addDays(today, 7);
+  if (duration === '1_month') return addMonths(today, 1);
+  return customDate ?? addDays(today, 7);
+}
+
+// How far `timeZone` is ahead of UTC at `instant`
+function zoneOffsetMs(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(new Date(instant));
+  const part = (type: string) => Number(parts.find(entry => entry.type === type)?.value);
+  const asUtc = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * The instant a wall-clock `date` + `time` (HH:MM) happens in `timeZone`. Times skipped by a DST change
+ * move forward by the length of the gap (02:30 on a spring-forward night is 03:30); times that happen
+ * twice resolve to the first.
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = splitDate(date);
+  const [hour, minute] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  // The offset at the guess can differ from the one at the answer around DST changes, so correct once
+  const guess = wallClock - zoneOffsetMs(wallClock, timeZone);
+  const corrected = wallClock - zoneOffsetMs(guess, timeZone);
+  if (corrected + zoneOffsetMs(corrected, timeZone) === wallClock) return new Date(corrected);
+  // Skipped wall time: neither offset maps back to it. The offset from before the change gives the later instant
+  return new Date(Math.max(guess, corrected));
+}
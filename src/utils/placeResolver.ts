@@ -0,0 +1,269 @@
+// Birth location resolution against the bundled gazetteer
+// Turns free text like "Paris, Texas" or "Tbilisi Georgia" into ranked, structured places.
+
+import { CITIES, COUNTRIES, REGIONS } from './gazetteer';
+
+export type PlaceKind = 'city' | 'region' | 'country';
+
+export interface Place {
+  /** Stable id: `US` for a country, `US-TX` for a region, `US-TX:paris` or `FR:paris` for a city */
+  id: string;
+  kind: PlaceKind;
+  name: string;
+  countryCode: string;
+  countryName: string;
+  /** First-level region (state, province, nation), when known */
+  adminCode: string | null;
+  adminName: string | null;
+  latitude: number;
+  longitude: number;
+  /** IANA timezone, e.g. `America/Chicago` */
+  timezone: string;
+  /** Display label, e.g. "Paris, Texas, United States" */
+  label: string;
+}
+
+export interface PlaceCandidate extends Place {
+  /** Match quality between 0 and 1; candidates are sorted by it */
+  score: number;
+}
+
+interface IndexedPlace {
+  place: Place;
+  population: number;
+  /** Normalized name and aliases */
+  names: string[];
+  /** Normalized ISO / postal codes, which only match exactly */
+  codes: string[];
+}
+
+/** What a qualifier such as "TX" or "United Kingdom" narrows a match down to */
+interface QualifierTarget {
+  countryCode: string;
+  adminCode: string | null;
+}
+
+interface GazetteerIndex {
+  places: IndexedPlace[];
+  byId: Map<string, IndexedPlace>;
+  qualifiers: Map<string, QualifierTarget[]>;
+}
+
+// More specific places win ties: "New York" is the city before the state
+const KIND_RANK: Record<PlaceKind, number> = { city: 0, region: 1, country: 2 };
+
+// A qualifier that names a different country or region keeps the match, but far down the list
+const QUALIFIER_MISMATCH = 0.2;
+// Code matches ("CA", "TX") rank just below full names
+const CODE_MATCH = { country: 0.9, region: 0.85 };
+// Weights for the less direct ways of reading the query
+const TRAILING_QUALIFIER_WEIGHT = 0.95;
+const QUALIFIER_AS_PLACE_WEIGHT = 0.5;
+const FREE_TEXT_WEIGHT = 0.4;
+const MAX_PHRASE_WORDS = 4;
+
+/**
+ * Lowercases, strips accents and punctuation: "São Paulo" and "sao paulo." compare equal
+ */
+export function normalizePlaceName(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function slug(value: string): string {
+  return normalizePlaceName(value).replace(/ /g, '-');
+}
+
+let index: GazetteerIndex | null = null;
+
+// Built on first use so code that only imports the types does not pay for it
+function gazetteerIndex(): GazetteerIndex {
+  if (index) return index;
+
+  const places: IndexedPlace[] = [];
+  const qualifiers = new Map<string, QualifierTarget[]>();
+  const addQualifier = (key: string, target: QualifierTarget) => {
+    const targets = qualifiers.get(key) || [];
+    targets.push(target);
+    qualifiers.set(key, targets);
+  };
+
+  const countryNames = new Map<string, string>();
+  for (const [code, name, aliases, latitude, longitude, timezone, population] of COUNTRIES) {
+    countryNames.set(code, name);
+    const names = [name, ...aliases].map(normalizePlaceName);
+    places.push({
+      place: { id: code, kind: 'country', name, countryCode: code, countryName: name, adminCode: null, adminName: null, latitude, longitude, timezone, label: name },
+      population,
+      names,
+      codes: [code.toLowerCase()]
+    });
+    for (const key of [...names, code.toLowerCase()]) addQualifier(key, { countryCode: code, adminCode: null });
+  }
+
+  const regionNames = new Map<string, string>();
+  for (const [countryCode, code, name, aliases, latitude, longitude, timezone, population] of REGIONS) {
+    const countryName = countryNames.get(countryCode) || countryCode;
+    regionNames.set(`${countryCode}-${code}`, name);
+    const names = [name, ...aliases].map(normalizePlaceName);
+    places.push({
+      place: {
+        id: `${countryCode}-${code}`,
+        kind: 'region',
+        name,
+        countryCode,
+        countryName,
+        adminCode: code,
+        adminName: name,
+        latitude,
+        longitude,
+        timezone,
+        label: `${name}, ${countryName}`
+      },
+      population,
+      names,
+      codes: [code.toLowerCase()]
+    });
+    for (const key of [...names, code.toLowerCase()]) addQualifier(key, { countryCode, adminCode: code });
+  }
+
+  for (const [name, countryCode, adminCode, latitude, longitude, timezone, population, aliases = []] of CITIES) {
+    const countryName = countryNames.get(countryCode) || countryCode;
+    const adminName = adminCode ? regionNames.get(`${countryCode}-${adminCode}`) || adminCode : null;
+    places.push({
+      place: {
+        id: `${adminCode ? `${countryCode}-${adminCode}` : countryCode}:${slug(name)}`,
+        kind: 'city',
+        name,
+        countryCode,
+        countryName,
+        adminCode,
+        adminName,
+        latitude,
+        longitude,
+        timezone,
+        label: [name, adminName, countryName].filter(Boolean).join(', ')
+      },
+      population,
+      names: [name, ...aliases].map(normalizePlaceName),
+      codes: []
+    });
+  }
+
+  index = { places, byId: new Map(places.map(entry => [entry.place.id, entry])), qualifiers };
+  return index;
+}
+
+/**
+ * How well `text` names the place: 1 for an exact name, less for a code or a name prefix
+ * (so partially typed input still finds candidates), 0 for no match
+ */
+function nameScore(entry: IndexedPlace, text: string, allowPrefix: boolean): number {
+  let best = 0;
+  for (const name of entry.names) {
+    if (name === text) return 1;
+    if (allowPrefix && text.length >= 2 && name.startsWith(text)) {
+      best = Math.max(best, 0.5 + 0.4 * (text.length / name.length));
+    }
+  }
+  if (entry.codes.includes(text) && entry.place.kind !== 'city') {
+    best = Math.max(best, CODE_MATCH[entry.place.kind]);
+  }
+  return best;
+}
+
+function matchesQualifier(place: Place, target: QualifierTarget): boolean {
+  return place.countryCode === target.countryCode && (target.adminCode === null || place.adminCode === target.adminCode);
+}
+
+/**
+ * Resolves free-text locations into ranked gazetteer candidates
+ *
+ * Comma-separated parts after the first narrow the match ("Paris, Texas" ranks Paris, US above
+ * Paris, France); without commas, trailing words that name a country or region do the same.
+ * When the first part is unknown, the later parts are tried as the place ("Smallville, Kansas").
+ */
+export function resolvePlace(query: string, limit = 5): PlaceCandidate[] {
+  if (!query || typeof query !== 'string') return [];
+  const parts = query.split(',').map(normalizePlaceName).filter(Boolean);
+  if (parts.length === 0) return [];
+
+  const { places, qualifiers } = gazetteerIndex();
+  const scores = new Map<IndexedPlace, number>();
+
+  // While typing, the last qualifier may be unfinished: "paris, tex" narrows like "paris, texas"
+  const qualifierTargets = (text: string, allowPrefix: boolean): QualifierTarget[] | undefined => {
+    const exact = qualifiers.get(text);
+    if (exact || !allowPrefix || text.length < 2) return exact;
+    const partial = [...qualifiers.entries()].filter(([key]) => key.startsWith(text)).flatMap(([, targets]) => targets);
+    return partial.length > 0 ? partial : undefined;
+  };
+
+  const interpret = (text: string, qualifierTexts: string[], weight: number, allowPrefix = false) => {
+    const targets = qualifierTexts
+      .map((qualifier, i) => qualifierTargets(qualifier, allowPrefix && i === qualifierTexts.length - 1))
+      .filter((list): list is QualifierTarget[] => !!list);
+    for (const entry of places) {
+      let score = nameScore(entry, text, allowPrefix);
+      if (score === 0) continue;
+      for (const options of targets) {
+        if (!options.some(target => matchesQualifier(entry.place, target))) score *= QUALIFIER_MISMATCH;
+      }
+      score *= weight;
+      if (score > (scores.get(entry) || 0)) scores.set(entry, score);
+    }
+  };
+
+  interpret(parts[0], parts.slice(1), 1, true);
+
+  // Peel trailing country / region words off: "sydney nsw australia" -> "sydney" + ["nsw", "australia"]
+  if (parts.length === 1) {
+    const words = parts[0].split(' ');
+    const peeled: string[] = [];
+    while (words.length > 1) {
+      let size = Math.min(MAX_PHRASE_WORDS, words.length - 1);
+      while (size > 0 && !qualifiers.has(words.slice(-size).join(' '))) size--;
+      if (size === 0) break;
+      peeled.push(words.splice(-size).join(' '));
+      interpret(words.join(' '), peeled, TRAILING_QUALIFIER_WEIGHT);
+    }
+  }
+
+  for (let i = 1; i < parts.length; i++) {
+    interpret(parts[i], parts.slice(i + 1), QUALIFIER_AS_PLACE_WEIGHT);
+  }
+
+  // Last resort for sentences like "born in london": exact names anywhere in the text
+  if (scores.size === 0) {
+    const words = parts.join(' ').split(' ');
+    for (let size = Math.min(MAX_PHRASE_WORDS, words.length); size > 0; size--) {
+      for (let start = 0; start + size <= words.length; start++) {
+        const phrase = words.slice(start, start + size).join(' ');
+        if (phrase.length < 4) continue;
+        for (const entry of places) {
+          if (entry.names.includes(phrase) && !scores.has(entry)) scores.set(entry, FREE_TEXT_WEIGHT);
+        }
+      }
+    }
+  }
+
+  return [...scores.entries()]
+    .sort(([a, scoreA], [b, scoreB]) =>
+      scoreB - scoreA ||
+      KIND_RANK[a.place.kind] - KIND_RANK[b.place.kind] ||
+      b.population - a.population
+    )
+    .slice(0, limit)
+    .map(([entry, score]) => ({ ...entry.place, score: Math.round(score * 1000) / 1000 }));
+}
+
+/**
+ * Looks up a place by its id, e.g. one chosen from `resolvePlace` candidates
+ */
+export function findPlace(id: string): Place | null {
+  return gazetteerIndex().byId.get(id)?.place || null;
+}
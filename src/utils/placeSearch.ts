@@ -0,0 +1,28 @@
+// Birth location suggestions from the places function (/api/places)
+import type { PlaceCandidate } from './placeResolver';
+
+export type PlaceSuggestion = PlaceCandidate;
+
+// Ask the places function for suggestions; an aborted or failed lookup yields none
+export async function searchPlaces(query: string, signal?: AbortSignal): Promise<PlaceSuggestion[]> {
+  try {
+    const response = await fetch(`/api/places?q=${encodeURIComponent(query)}`, { signal });
+    if (!response.ok) return [];
+    const result = await response.json();
+    return Array.isArray(result.places) ? result.places : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Form fields submitted next to the birth location text; all empty when nothing was picked
+ */
+export function birthPlaceFields(place: PlaceSuggestion | null) {
+  return {
+    birthPlaceId: place?.id ?? '',
+    birthLatitude: place?.latitude ?? null,
+    birthLongitude: place?.longitude ?? null,
+    birthTimezone: place?.timezone ?? ''
+  };
+}
@@ -0,0 +1,31 @@
+// Data subject requests (GDPR / CCPA) - shared by the /privacy/request page and the Pages Functions
+
+export const PRIVACY_REQUEST_TYPES = ['export', 'erase'] as const;
+
+export type PrivacyRequestType = typeof PRIVACY_REQUEST_TYPES[number];
+
+/**
+ * Lifecycle of a request: the subscriber verifies it from the emailed link, it is handed to the
+ * privacy webhook for processing, and an operator closes it as completed or rejected
+ */
+export type PrivacyRequestStatus = 'awaiting_verification' | 'verified' | 'processing' | 'completed' | 'rejected';
+
+export const PRIVACY_REQUEST_TRANSITIONS: Record<PrivacyRequestStatus, PrivacyRequestStatus[]> = {
+  awaiting_verification: ['verified'],
+  verified: ['processing', 'rejected'],
+  processing: ['completed', 'rejected'],
+  completed: [],
+  rejected: []
+};
+
+export function isPrivacyRequestType(value: unknown): value is PrivacyRequestType {
+  return typeof value === 'string' && (PRIVACY_REQUEST_TYPES as readonly string[]).includes(value);
+}
+
+export function isPrivacyRequestStatus(value: unknown): value is PrivacyRequestStatus {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(PRIVACY_REQUEST_TRANSITIONS, value);
+}
+
+export function canTransition(from: PrivacyRequestStatus, to: PrivacyRequestStatus): boolean {
+  return PRIVACY_REQUEST_TRANSITIONS[from].includes(to);
+}
@@ -0,0 +1,477 @@
+// Shared submission schema - used by the browser forms and the Pages Function
+import { isEmail } from 'validator';
+import { frequencyOffersFor, type FrequencyOption } from './frequencyOffers';
+import { MAX_PAUSE_DAYS, daysBetween, isPauseDuration, localDateIn, type PauseDuration } from './pauseSchedule';
+import { isPrivacyRequestType, type PrivacyRequestType } from './privacyLifecycle';
+import { validateUID } from './uidGenerator';
+
+export type FieldErrorCode =
+  | 'required'
+  | 'invalid_type'
+  | 'invalid_format'
+  | 'too_short'
+  | 'too_long'
+  | 'too_many'
+  | 'underage';
+
+export interface FieldError {
+  field: string;
+  code: FieldErrorCode;
+  message: string;
+}
+
+export type SchemaResult<T> =
+  | { success: true; data: T }
+  | { success: false; errors: FieldError[] };
+
+export const MAX_SELECTIONS = 3;
+export const MIN_SIGNUP_AGE = 18;
+
+export interface RegistrationData {
+  fullName: string;
+  preferredName: string;
+  email: string;
+  birthDate: string;
+  birthLocation: string;
+  /** Gazetteer place picked from the birth location suggestions, null when the text was typed freely */
+  birthPlaceId: string | null;
+  birthLatitude: number | null;
+  birthLongitude: number | null;
+  birthTimezone: string | null;
+  timeZone: string;
+  dayStartTime: string;
+  birthTime: string;
+  relationshipStatus: string;
+  practices: string[];
+  lifeFocus: string[];
+}
+
+/**
+ * Who a service page request is for: an email typed on the page, or the UID of a signed link. Signed
+ * requests never take the address from the form; the server fills in the stored one, if it has one.
+ */
+export type ServiceIdentity =
+  | { uid: null; email: string }
+  | { uid: string; email: string | null };
+
+export type UnsubscribeData = ServiceIdentity & {
+  reasons: string[];
+  otherComment: string;
+  utm_source: string | null;
+  utm_medium: string | null;
+  utm_campaign: string | null;
+};
+
+export type FeedbackData = ServiceIdentity & {
+  likes: string[];
+  dislikes: string[];
+  likeOtherComment: string;
+  dislikeOtherComment: string;
+};
+
+/**
+ * Delivery and content settings a subscriber can change after signing up (/preferences)
+ */
+export interface PreferencesData {
+  /** Needed for Numerology readings; may be empty otherwise */
+  fullName: string;
+  practices: string[];
+  lifeFocus: string[];
+  dayStartTime: string;
+  timeZone: string;
+}
+
+export type PauseData = ServiceIdentity & {
+  duration: PauseDuration;
+  /** Custom pauses only: the date deliveries resume on */
+  resumeDate: string | null;
+  /** The browser's time zone, used when none is stored for the subscriber */
+  timeZone: string | null;
+  /** Reasons picked on the unsubscribe page before choosing to pause instead */
+  reasons: string[];
+};
+
+export type FrequencyChangeData = ServiceIdentity & {
+  /** Unsubscribe reasons picked on the page */
+  reasons: string[];
+  /** What the page offered for those reasons */
+  offered: FrequencyOption[];
+  frequency: FrequencyOption;
+};
+
+export interface PrivacyRequestData {
+  email: string;
+  type: PrivacyRequestType;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const RELATIONSHIP_STATUSES = ['', 'single', 'relationship', 'married', 'complicated'];
+
+// Collects field errors while reading loosely-typed input
+class FieldReader {
+  readonly errors: FieldError[] = [];
+
+  constructor(private readonly input: Record<string, unknown>) {}
+
+  fail(field: string, code: FieldErrorCode, message: string): void {
+    this.errors.push({ field, code, message });
+  }
+
+  string(field: string, options: { required?: string; max?: number; label?: string } = {}): string {
+    const raw = this.input[field];
+    if (raw === undefined || raw === null) {
+      if (options.required) this.fail(field, 'required', options.required);
+      return '';
+    }
+    if (typeof raw !== 'string') {
+      this.fail(field, 'invalid_type', `${options.label ?? field} must be text`);
+      return '';
+    }
+    const value = raw.trim();
+    if (!value && options.required) {
+      this.fail(field, 'required', options.required);
+    }
+    if (options.max !== undefined && value.length > options.max) {
+      this.fail(field, 'too_long', `${options.label ?? field} must be ${options.max} characters or less`);
+    }
+    return value;
+  }
+
+  optionalString(field: string, max: number): string | null {
+    const value = this.string(field, { max });
+    return value || null;
+  }
+
+  /**
+   * Reads a number, accepting numeric strings from form posts
+   */
+  optionalNumber(field: string, options: { min: number; max: number; label: string }): number | null {
+    const raw = this.input[field];
+    if (raw === undefined || raw === null || raw === '') return null;
+    const value = typeof raw === 'string' ? Number(raw) : raw;
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      this.fail(field, 'invalid_type', `${options.label} must be a number`);
+      return null;
+    }
+    if (value < options.min || value > options.max) {
+      this.fail(field, 'invalid_format', `${options.label} is out of range`);
+      return null;
+    }
+    return value;
+  }
+
+  /**
+   * Reads a list of tags, either as an array or as a JSON-encoded string (`*_json` fields)
+   */
+  tags(field: string, options: { max?: number; label: string }): string[] {
+    let raw = this.input[field];
+    if (raw === undefined || raw === null || raw === '') return [];
+    if (typeof raw === 'string') {
+      try {
+        raw = JSON.parse(raw);
+      } catch {
+        this.fail(field, 'invalid_format', `${options.label} could not be read`);
+        return [];
+      }
+    }
+    if (!Array.isArray(raw) || raw.some(item => typeof item !== 'string' || item.length > 100)) {
+      this.fail(field, 'invalid_type', `${options.label} must be a list of options`);
+      return [];
+    }
+    const tags = Array.from(new Set(raw as string[]));
+    if (options.max !== undefined && tags.length > options.max) {
+      this.fail(field, 'too_many', `Please select up to ${options.max} ${options.label.toLowerCase()}`);
+    }
+    return tags;
+  }
+
+  email(field: string): string {
+    const value = this.string(field, { required: 'Email is required' });
+    if (!value) return '';
+    if (value.length > 254) {
+      this.fail(field, 'too_long', 'Email address is too long');
+    } else if (!isEmail(value)) {
+      this.fail(field, 'invalid_format', 'Please enter a valid email address');
+    }
+    return value.toLowerCase();
+  }
+
+  /**
+   * Service pages identify the subscriber by UID or by email. When a UID is present the
+   * client's email (a placeholder such as `unsubscribe-by-uid`) is ignored.
+   */
+  identity(): ServiceIdentity {
+    const uid = this.optionalString('uid', 20);
+    if (uid) {
+      if (!validateUID(uid)) {
+        this.fail('uid', 'invalid_format', 'Account link is not valid');
+      }
+      return { uid, email: null };
+    }
+    return { uid: null, email: this.email('email') };
+  }
+}
+
+function asRecord(input: unknown): Record<string, unknown> | null {
+  return input && typeof input === 'object' && !Array.isArray(input) ? (input as Record<string, unknown>) : null;
+}
+
+function result<T>(reader: FieldReader, data: T): SchemaResult<T> {
+  return reader.errors.length === 0 ? { success: true, data } : { success: false, errors: reader.errors };
+}
+
+function invalidBody<T>(): SchemaResult<T> {
+  return { success: false, errors: [{ field: 'formData', code: 'invalid_type', message: 'Form data is missing' }] };
+}
+
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function readPreferences(reader: FieldReader): PreferencesData {
+  return {
+    fullName: reader.string('fullName', { max: 100, label: 'Full name' }),
+    timeZone: reader.string('timeZone', { max: 64, label: 'Time zone' }),
+    dayStartTime: reader.string('dayStartTime', { max: 5, label: 'Day start time' }),
+    practices: reader.tags('practices', { max: MAX_SELECTIONS, label: 'Practices' }),
+    lifeFocus: reader.tags('lifeFocus', { max: MAX_SELECTIONS, label: 'Life focus areas' }),
+  };
+}
+
+// Rules shared by signup and the preference center
+function checkPreferences(reader: FieldReader, data: PreferencesData): void {
+  if (data.timeZone && !isValidTimeZone(data.timeZone)) {
+    reader.fail('timeZone', 'invalid_format', 'Please choose a valid time zone');
+  }
+
+  if (data.dayStartTime && !TIME_PATTERN.test(data.dayStartTime)) {
+    reader.fail('dayStartTime', 'invalid_format', 'Please enter a valid day start time');
+  }
+
+  if (data.practices.length === 0 && !reader.errors.some(e => e.field === 'practices')) {
+    reader.fail('practices', 'required', 'Please select at least one cosmic practice');
+  }
+
+  if (data.lifeFocus.length === 0 && !reader.errors.some(e => e.field === 'lifeFocus')) {
+    reader.fail('lifeFocus', 'required', 'Please select at least one life focus area');
+  }
+
+  if (data.practices.includes('Numerology') && !data.fullName) {
+    reader.fail('fullName', 'required', 'Full name is required when Numerology is selected');
+  }
+}
+
+function ageOn(birthDate: Date, today: Date): number {
+  const age = today.getFullYear() - birthDate.getFullYear();
+  const monthDiff = today.getMonth() - birthDate.getMonth();
+  return (monthDiff < 0 || (monthDiff === 0 && today.getDate() < birthDate.getDate())) ? age - 1 : age;
+}
+
+/**
+ * Validates and normalizes a signup form submission
+ */
+export function parseRegistration(input: unknown, today: Date = new Date()): SchemaResult<RegistrationData> {
+  const record = asRecord(input);
+  if (!record) return invalidBody();
+  const reader = new FieldReader(record);
+
+  const data: RegistrationData = {
+    email: reader.email('email'),
+    preferredName: reader.string('preferredName', { required: 'Preferred name is required', max: 50, label: 'Preferred name' }),
+    birthDate: reader.string('birthDate', { required: 'Birth date is required' }),
+    birthLocation: reader.string('birthLocation', { required: 'Birth location is required', max: 200, label: 'Birth location' }),
+    birthPlaceId: reader.optionalString('birthPlaceId', 100),
+    birthLatitude: reader.optionalNumber('birthLatitude', { min: -90, max: 90, label: 'Birth latitude' }),
+    birthLongitude: reader.optionalNumber('birthLongitude', { min: -180, max: 180, label: 'Birth longitude' }),
+    birthTimezone: reader.optionalString('birthTimezone', 64),
+    birthTime: reader.string('birthTime', { max: 7, label: 'Birth time' }),
+    relationshipStatus: reader.string('relationshipStatus', { max: 20, label: 'Relationship status' }),
+    ...readPreferences(reader),
+  };
+
+  if (data.birthDate) {
+    const birthDate = new Date(data.birthDate);
+    if (!DATE_PATTERN.test(data.birthDate) || Number.isNaN(birthDate.getTime())) {
+      reader.fail('birthDate', 'invalid_format', 'Please enter a valid birth date');
+    } else if (ageOn(birthDate, today) < MIN_SIGNUP_AGE) {
+      reader.fail('birthDate', 'underage', `You must be at least ${MIN_SIGNUP_AGE} years old to sign up`);
+    }
+  }
+
+  if (data.birthLocation && data.birthLocation.length < 2) {
+    reader.fail('birthLocation', 'too_short', 'Birth location must be at least 2 characters');
+  }
+
+  // A picked place comes with its coordinates and timezone; a partial set means the client is out of date
+  if (data.birthPlaceId && (data.birthLatitude === null || data.birthLongitude === null || !data.birthTimezone)) {
+    reader.fail('birthLocation', 'invalid_format', 'Please choose your birth location from the suggestions again');
+  }
+
+  if (data.birthTimezone && !isValidTimeZone(data.birthTimezone)) {
+    reader.fail('birthTimezone', 'invalid_format', 'Birth location time zone is not valid');
+  }
+
+  if (data.birthTime && data.birthTime !== 'unknown' && !TIME_PATTERN.test(data.birthTime)) {
+    reader.fail('birthTime', 'invalid_format', 'Please enter a valid birth time');
+  }
+
+  if (!RELATIONSHIP_STATUSES.includes(data.relationshipStatus)) {
+    reader.fail('relationshipStatus', 'invalid_format', 'Please choose a relationship status from the list');
+  }
+
+  checkPreferences(reader, data);
+
+  return result(reader, data);
+}
+
+/**
+ * Validates and normalizes an unsubscribe request
+ */
+export function parseUnsubscribe(input: unknown): SchemaResult<UnsubscribeData> {
+  const record = asRecord(input);
+  if (!record) return invalidBody();
+  const reader = new FieldReader(record);
+
+  const data: UnsubscribeData = {
+    ...reader.identity(),
+    reasons: reader.tags('reasons_json', { label: 'Reasons' }),
+    otherComment: reader.string('otherComment', { max: 1000, label: 'Comment' }),
+    utm_source: reader.optionalString('utm_source', 200),
+    utm_medium: reader.optionalString('utm_medium', 200),
+    utm_campaign: reader.optionalString('utm_campaign', 200),
+  };
+
+  if (data.reasons.length === 0 && !reader.errors.some(e => e.field === 'reasons_json')) {
+    reader.fail('reasons_json', 'required', 'Please select at least one reason for unsubscribing');
+  }
+
+  return result(reader, data);
+}
+
+/**
+ * Validates and normalizes a feedback submission
+ */
+export function parseFeedback(input: unknown): SchemaResult<FeedbackData> {
+  const record = asRecord(input);
+  if (!record) return invalidBody();
+  const reader = new FieldReader(record);
+
+  const data: FeedbackData = {
+    ...reader.identity(),
+    likes: reader.tags('likes_json', { label: 'Likes' }),
+    dislikes: reader.tags('dislikes_json', { label: 'Dislikes' }),
+    likeOtherComment: reader.string('likeOtherComment', { max: 1000, label: 'Comment' }),
+    dislikeOtherComment: reader.string('dislikeOtherComment', { max: 1000, label: 'Comment' }),
+  };
+
+  if (data.likes.length === 0 && data.dislikes.length === 0 && reader.errors.length === 0) {
+    reader.fail('likes_json', 'required', 'Please select at least one tag in either section');
+  }
+
+  return result(reader, data);
+}
+
+/**
+ * Validates a preference center update; the same limits and rules as at signup
+ */
+export function parsePreferences(input: unknown): SchemaResult<PreferencesData> {
+  const record = asRecord(input);
+  if (!record) return invalidBody();
+  const reader = new FieldReader(record);
+
+  const data = readPreferences(reader);
+  checkPreferences(reader, data);
+
+  return result(reader, data);
+}
+
+/**
+ * Validates a pause request from the unsubscribe page. A custom resume date has to fall after
+ * today in the subscriber's time zone and at most MAX_PAUSE_DAYS ahead.
+ */
+export function parsePause(input: unknown, now: Date = new Date()): SchemaResult<PauseData> {
+  const record = asRecord(input);
+  if (!record) return invalidBody();
+  const reader = new FieldReader(record);
+
+  const duration = reader.string('duration', { required: 'Please choose how long to pause for' });
+  const data = {
+    ...reader.identity(),
+    duration: duration as PauseDuration,
+    resumeDate: reader.optionalString('resumeDate', 10),
+    timeZone: reader.optionalString('timeZone', 64),
+    reasons: reader.tags('reasons_json', { label: 'Reasons' }),
+  };
+
+  if (duration && !isPauseDuration(duration)) {
+    reader.fail('duration', 'invalid_format', 'Please choose a pause length from the list');
+  }
+
+  if (data.timeZone && !isValidTimeZone(data.timeZone)) {
+    reader.fail('timeZone', 'invalid_format', 'Please choose a valid time zone');
+    data.timeZone = null;
+  }
+
+  if (duration === 'custom') {
+    const today = localDateIn(data.timeZone ?? 'UTC', now);
+    if (!data.resumeDate) {
+      reader.fail('resumeDate', 'required', 'Please pick the date your emails should resume');
+    } else if (!DATE_PATTERN.test(data.resumeDate) || Number.isNaN(new Date(data.resumeDate).getTime())) {
+      reader.fail('resumeDate', 'invalid_format', 'Please enter a valid date');
+    } else if (data.resumeDate <= today) {
+      reader.fail('resumeDate', 'invalid_format', 'Please pick a date after today');
+    } else if (daysBetween(today, data.resumeDate) > MAX_PAUSE_DAYS) {
+      reader.fail('resumeDate', 'invalid_format', `Pauses can last up to ${MAX_PAUSE_DAYS} days`);
+    }
+  } else {
+    data.resumeDate = null;
+  }
+
+  return result(reader, data);
+}
+
+/**
+ * Validates a frequency downgrade accepted on the unsubscribe page. The offered options follow from the
+ * picked reasons, and the accepted one has to be among them.
+ */
+export function parseFrequencyChange(input: unknown): SchemaResult<FrequencyChangeData> {
+  const record = asRecord(input);
+  if (!record) return invalidBody();
+  const reader = new FieldReader(record);
+
+  const identity = reader.identity();
+  const reasons = reader.tags('reasons_json', { label: 'Reasons' });
+  const offered = frequencyOffersFor(reasons);
+  const frequency = reader.string('frequency', { required: 'Please choose how often you would like to hear from us' });
+
+  if (offered.length === 0 && !reader.errors.some(e => e.field === 'reasons_json')) {
+    reader.fail('reasons_json', 'invalid_format', 'Fewer emails are only offered when they are too frequent or arrive twice');
+  } else if (frequency && !(offered as string[]).includes(frequency)) {
+    reader.fail('frequency', 'invalid_format', 'Please choose one of the offered options');
+  }
+
+  return result(reader, { ...identity, reasons, offered, frequency: frequency as FrequencyOption });
+}
+
+/**
+ * Validates a data subject request (export or erase) from the /privacy/request page
+ */
+export function parsePrivacyRequest(input: unknown): SchemaResult<PrivacyRequestData> {
+  const record = asRecord(input);
+  if (!record) return invalidBody();
+  const reader = new FieldReader(record);
+
+  const email = reader.email('email');
+  const type = reader.string('type', { required: 'Please choose what you would like us to do' });
+  if (type && !isPrivacyRequestType(type)) {
+    reader.fail('type', 'invalid_format', 'Please choose a request type from the list');
+  }
+
+  return result(reader, { email, type: type as PrivacyRequestType });
+}
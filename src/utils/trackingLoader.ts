@@ -9,7 +9,7 @@ import { logger } from './logger';
  */
 export function loadTrackingScripts(): void {
   const path = window.location.pathname;
-  const excludedPaths = ['/feedback', '/unsubscribe'];
+  const excludedPaths = ['/feedback', '/unsubscribe', '/confirm'];
   
   // Don't load tracking on excluded paths
   if (excludedPaths.includes(path)) {
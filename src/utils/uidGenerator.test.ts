@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { generateUID, validateUID } from './uidGenerator';
+
+describe('generateUID', () => {
+  it('builds country code, version digit, 12 random digits and a check digit', () => {
+    const uid = generateUID('', 'US');
+    expect(uid).toMatch(/^US2\d{13}$/);
+    expect(validateUID(uid)).toBe(true);
+  });
+
+  it('takes the country from the birth location', () => {
+    expect(generateUID('Berlin, Germany').slice(0, 2)).toBe('DE');
+  });
+
+  it('falls back to XX for places it cannot resolve', () => {
+    expect(generateUID('Nowhere In Particular Qzx').slice(0, 2)).toBe('XX');
+  });
+
+  it('does not repeat itself', () => {
+    const uids = new Set(Array.from({ length: 1000 }, () => generateUID('', 'US')));
+    expect(uids.size).toBe(1000);
+  });
+});
+
+describe('validateUID', () => {
+  const uid = 'US20481937756203';
+
+  it('accepts a v2 UID with the right check digit', () => {
+    expect(validateUID(uid)).toBe(true);
+  });
+
+  it('catches a mistyped digit, swapped digits or a mistyped country code', () => {
+    expect(validateUID('US20481937756213')).toBe(false);
+    expect(validateUID('US20481937765203')).toBe(false);
+    expect(validateUID('UK20481937756203')).toBe(false);
+  });
+
+  it('accepts legacy UIDs', () => {
+    expect(validateUID('US12345678')).toBe(true);
+  });
+
+  it('rejects other shapes', () => {
+    for (const value of ['', 'us20481937756203', 'US30481937756203', 'US2048193775620', 'US1234567']) {
+      expect(validateUID(value)).toBe(false);
+    }
+  });
+});
@@ -1,6 +1,8 @@
 // Utility functions for capturing visitor data and UTM parameters
-import { getTaglineVariantId } from './taglineVariants';
+import { getExperimentArm } from './experiments';
 import { logger } from './logger';
+import { parseApiError, type ApiErrorBody, type ApiErrorCode, type ApiFieldError } from './apiErrors';
+import { fieldErrorMap, type FieldErrors } from './formValidation';
 
 interface VisitorData {
   // UTM Parameters
@@ -33,7 +35,7 @@ interface VisitorData {
   tagline_variant: string;
   cta_variant?: string;
   
-  // Location (will be populated by IP geolocation)
+  // Location (filled in by the register function from Cloudflare request metadata, never sent by the browser)
   ip_address?: string;
   country?: string;
   region?: string;
@@ -50,17 +52,6 @@ function getSessionId(): string {
   return sessionId;
 }
 
-// Read CTA cookie
-function getCookie(name: string): string | undefined {
-  const nameEQ = name + '=';
-  const ca = document.cookie.split(';');
-  for (let c of ca) {
-    c = c.trim();
-    if (c.indexOf(nameEQ) === 0) return c.substring(nameEQ.length);
-  }
-  return undefined;
-}
-
 // Parse URL parameters
 function getUrlParams(): Record<string, string> {
   const params: Record<string, string> = {};
@@ -117,7 +108,6 @@ export function captureVisitorData(): VisitorData {
   
   // Merge current and stored parameters (current takes precedence)
   const allParams = { ...storedParams, ...currentParams };
-  const ctaVariant = getCookie('astropal_cta_variant');
   
   const visitorData: VisitorData = {
     // UTM and tracking parameters - always include all, even if empty
@@ -147,30 +137,128 @@ export function captureVisitorData(): VisitorData {
     session_id: getSessionId(),
     
     // A/B Testing data
-    tagline_variant: getTaglineVariantId(),
-    cta_variant: ctaVariant
+    tagline_variant: getExperimentArm('tagline'),
+    cta_variant: getExperimentArm('cta')
   };
   
   logger.debug('visitor_data_captured', { component: 'visitorTracking', session_id: visitorData.session_id, utm_source: visitorData.utm_source, tagline_variant: visitorData.tagline_variant, cta_variant: visitorData.cta_variant });
   return visitorData;
 }
 
+export interface SubmitResult {
+  uid?: string;
+  // True when the email was already registered; uid is then the original one
+  duplicate: boolean;
+  // Double opt-in: the subscriber has to confirm via the link emailed to them
+  confirmationRequired: boolean;
+}
+
+// Bot defense signals stamped by the signup forms, checked by the register function
+export interface BotCheck {
+  // Hidden honeypot field; humans leave it empty
+  honeypot: string;
+  // When the form was first rendered (epoch ms)
+  formStartedAt: number;
+  // Challenge widget token, when the widget is enabled; null when its script could not load
+  challengeToken: string | null;
+}
+
+export interface SubmitOptions {
+  // Client-generated key so retries of the same submission are only processed once
+  idempotencyKey?: string;
+  botCheck?: BotCheck;
+}
+
+// Thrown when the submission endpoint rejects a request or cannot be reached
+export class SubmissionError extends Error {
+  // HTTP status; 0 when no response arrived
+  readonly status: number;
+  readonly code: ApiErrorCode;
+  // Whether sending the same submission again later can succeed
+  readonly retryable: boolean;
+  // Rejected fields, with paths relative to the request body (formData.email, ...)
+  readonly fields: ApiFieldError[];
+  // Seconds to wait before retrying, from the Retry-After header of a 429
+  readonly retryAfterSeconds: number | null;
+
+  constructor(body: ApiErrorBody, status: number, retryAfterSeconds: number | null = null) {
+    super(body.message);
+    this.name = 'SubmissionError';
+    this.status = status;
+    this.code = body.code;
+    this.retryable = body.retryable;
+    this.fields = body.fields ?? [];
+    this.retryAfterSeconds = retryAfterSeconds ?? body.retryAfterSeconds ?? null;
+  }
+
+  get isRateLimited(): boolean {
+    return this.code === 'RATE_LIMITED';
+  }
+}
+
+// Read the Retry-After header (delay in seconds) from a response
+export function readRetryAfter(response: Response): number | null {
+  const seconds = Number(response.headers.get('Retry-After'));
+  return Number.isFinite(seconds) && seconds > 0 ? Math.ceil(seconds) : null;
+}
+
+// User-facing copy for a rate-limited submission
+export function rateLimitMessage(retryAfterSeconds: number | null): string {
+  if (!retryAfterSeconds) {
+    return 'Too many attempts. Please wait a few minutes and try again.';
+  }
+  if (retryAfterSeconds < 60) {
+    return `Too many attempts. Please try again in ${retryAfterSeconds} second${retryAfterSeconds === 1 ? '' : 's'}.`;
+  }
+  const minutes = Math.ceil(retryAfterSeconds / 60);
+  return `Too many attempts. Please try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`;
+}
+
+// Inline errors for a failed signup: messages for the form's fields, plus one for the whole form
+export function describeSubmissionError(error: unknown): { fieldErrors: FieldErrors; message: string } {
+  if (!(error instanceof SubmissionError)) {
+    return { fieldErrors: {}, message: 'Registration failed. Please try again.' };
+  }
+  if (error.isRateLimited) {
+    return { fieldErrors: {}, message: rateLimitMessage(error.retryAfterSeconds) };
+  }
+
+  const fieldErrors = fieldErrorMap(error.fields.map(({ path, message }) => ({ field: path.replace(/^formData\./, ''), message })));
+  if (Object.keys(fieldErrors).length > 0) {
+    return { fieldErrors, message: 'Please fix the highlighted fields and try again.' };
+  }
+  if (error.retryable) {
+    return { fieldErrors: {}, message: 'We could not complete your registration right now. Please try again in a moment.' };
+  }
+  return { fieldErrors: {}, message: error.message || 'Registration failed. Please try again.' };
+}
+
+// Generate an idempotency key for one form fill (reuse it for retries)
+export function createIdempotencyKey(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return 'idem_' + Date.now().toString(36) + '_' + Math.random().toString(36).substring(2, 12);
+}
+
 // Enhanced form submission with visitor tracking
 export async function submitFormWithTracking(
   formData: Record<string, unknown>,
   variantName: string,
-  visitorData?: VisitorData
-): Promise<void> {
+  visitorData?: VisitorData,
+  options: SubmitOptions = {}
+): Promise<SubmitResult> {
   const visitor = visitorData || captureVisitorData();
   
   const submissionData = {
     formData,
     variantName,
-    visitorData: visitor
+    visitorData: visitor,
+    botCheck: options.botCheck
   };
   
   // Use Cloudflare Pages function that has access to secrets
-  const functionUrl = '/api/submit-form';
+  const functionUrl = '/api/register';
   
   try {
     const response = await fetch(functionUrl, {
@@ -178,22 +266,27 @@ export async function submitFormWithTracking(
       headers: {
         'Content-Type': 'application/json',
         'Accept': 'application/json',
-        'User-Agent': navigator.userAgent
+        'User-Agent': navigator.userAgent,
+        ...(options.idempotencyKey ? { 'Idempotency-Key': options.idempotencyKey } : {})
       },
       body: JSON.stringify(submissionData)
     });
     
     if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      logger.warn('form_submit_non_ok', { status: response.status, variant: variantName });
-      throw new Error(`Function responded with status: ${response.status}. ${errorData.message || ''}`);
+      const errorBody = parseApiError(response.status, await response.json().catch(() => ({})));
+      logger.warn('form_submit_non_ok', { status: response.status, code: errorBody.code, request_id: errorBody.requestId, variant: variantName });
+      throw new SubmissionError(errorBody, response.status, response.status === 429 ? readRetryAfter(response) : null);
     }
     
-    logger.info('form_submit_success', { variant: variantName, utm_source: visitor.utm_source, utm_medium: visitor.utm_medium, utm_campaign: visitor.utm_campaign, session_id: visitor.session_id, tagline_variant: visitor.tagline_variant, cta_variant: visitor.cta_variant });
+    const result = await response.json().catch(() => ({}));
+    logger.info('form_submit_success', { variant: variantName, duplicate: !!result.duplicate, utm_source: visitor.utm_source, utm_medium: visitor.utm_medium, utm_campaign: visitor.utm_campaign, session_id: visitor.session_id, tagline_variant: visitor.tagline_variant, cta_variant: visitor.cta_variant });
     
+    return { uid: result.uid, duplicate: !!result.duplicate, confirmationRequired: !!result.confirmationRequired };
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
     logger.error('form_submit_failed', { variant: variantName, error: message });
-    throw error;
+    if (error instanceof SubmissionError) throw error;
+    // No response at all (offline, blocked, DNS): the same submission can simply be sent again
+    throw new SubmissionError({ error: 'Network error', code: 'UPSTREAM_UNAVAILABLE', message, retryable: true }, 0);
   }
 } 
\ No newline at end of file